@@ -163,10 +163,10 @@ async function demo() {
   console.log('STEP 6: Leaderboard');
   console.log('═══════════════════════════════════════\n');
 
-  const leaderboard = await client.getLeaderboard();
+  const leaderboard = await client.getLeaderboard({ limit: 10 });
   console.log('🏆 Reputation Leaderboard:');
-  leaderboard.forEach((entry, i) => {
-    console.log(`   ${i + 1}. ${entry.name} | Tier: ${entry.tier.toUpperCase()} | Score: ${entry.score} | Badges: ${entry.badges_count}`);
+  leaderboard.entries.forEach((entry, i) => {
+    console.log(`   ${i + 1}. ${entry.agent_name} | Tier: ${entry.tier.toUpperCase()} | Score: ${entry.effective_score} | Badges: ${entry.badges.length}`);
   });
   console.log('');
 
@@ -1,6 +1,6 @@
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { Layout } from '@/components/layout';
-import { Dashboard, Agents, AgentDetail, Leaderboard, Proofs, Protocol, Docs } from '@/pages';
+import { Dashboard, Agents, AgentDetail, Leaderboard, Badges, Proofs, Protocol, Docs } from '@/pages';
 
 function App() {
   return (
@@ -11,6 +11,7 @@ function App() {
           <Route path="agents" element={<Agents />} />
           <Route path="agents/:agentId" element={<AgentDetail />} />
           <Route path="leaderboard" element={<Leaderboard />} />
+          <Route path="badges" element={<Badges />} />
           <Route path="proofs" element={<Proofs />} />
           <Route path="protocol" element={<Protocol />} />
           <Route path="docs" element={<Docs />} />
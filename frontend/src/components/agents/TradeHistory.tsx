@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardHeader, CardTitle, CardContent, Button } from '@/components/ui';
+import { atracksApi, Trade, TradeFilters } from '@/lib/api';
+import { formatUSD, getTimeAgo } from '@/lib/utils';
+import { List, Lock } from 'lucide-react';
+
+interface TradeHistoryProps {
+  agentId: string;
+  refreshKey?: number;
+}
+
+const PAGE_SIZE = 20;
+
+const TIME_RANGES = [
+  { label: 'All time', ms: 0 },
+  { label: '24h', ms: 24 * 60 * 60 * 1000 },
+  { label: '7d', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: '30d', ms: 30 * 24 * 60 * 60 * 1000 },
+];
+
+const selectClass = 'px-2.5 py-1.5 rounded-lg bg-white/[0.03] border border-white/[0.08] text-[10px] uppercase tracking-wider text-text-secondary focus:outline-none';
+
+export function TradeHistory({ agentId, refreshKey }: TradeHistoryProps) {
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState<'' | 'win' | 'loss'>('');
+  const [token, setToken] = useState('');
+  const [rangeMs, setRangeMs] = useState(0);
+
+  // Trade history is owner-only - needs the API key from localStorage
+  const apiKey = (() => {
+    try {
+      const storedKeys = JSON.parse(localStorage.getItem('atracks_api_keys') || '{}');
+      return (storedKeys[agentId] as string) || null;
+    } catch {
+      return null;
+    }
+  })();
+
+  const loadTrades = useCallback(async (cursor?: string) => {
+    if (!apiKey) return;
+    setLoading(true);
+    setError(null);
+
+    const filters: TradeFilters = { limit: PAGE_SIZE, cursor };
+    if (outcome) filters.outcome = outcome;
+    if (token) filters.token_in = token;
+    if (rangeMs) filters.from = Date.now() - rangeMs;
+
+    try {
+      const res = await atracksApi.getTrades(agentId, apiKey, filters);
+      setTrades((prev) => (cursor ? [...prev, ...res.data] : res.data));
+      setNextCursor(res.next_cursor);
+    } catch (err: unknown) {
+      const axiosErr = err as { response?: { data?: { error?: string } } };
+      setError(axiosErr?.response?.data?.error || 'Failed to load trades');
+    } finally {
+      setLoading(false);
+    }
+  }, [agentId, apiKey, outcome, token, rangeMs]);
+
+  useEffect(() => {
+    loadTrades();
+  }, [loadTrades, refreshKey]);
+
+  if (!apiKey) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="w-4 h-4 text-text-muted" />
+            <span className="text-xs uppercase tracking-widest">Trade History</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-text-muted text-xs font-light italic">
+            Trade history is private. Only the agent owner can view individual trades.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <List className="w-4 h-4 text-accent" />
+            <span className="text-xs uppercase tracking-widest">Trade History</span>
+          </CardTitle>
+          <div className="flex flex-wrap items-center gap-2">
+            <select className={selectClass} value={rangeMs} onChange={(e) => setRangeMs(Number(e.target.value))}>
+              {TIME_RANGES.map((range) => (
+                <option key={range.label} value={range.ms}>{range.label}</option>
+              ))}
+            </select>
+            <select className={selectClass} value={outcome} onChange={(e) => setOutcome(e.target.value as '' | 'win' | 'loss')}>
+              <option value="">All trades</option>
+              <option value="win">Wins</option>
+              <option value="loss">Losses</option>
+            </select>
+            <input
+              className={`${selectClass} w-24`}
+              placeholder="Token in"
+              value={token}
+              onChange={(e) => setToken(e.target.value.toUpperCase())}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-xs">
+            {error}
+          </div>
+        )}
+
+        {trades.length === 0 && !loading ? (
+          <p className="text-text-muted text-xs text-center py-4 font-light italic">No trades found</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-[10px] uppercase tracking-widest text-text-muted text-left">
+                  <th className="pb-3 font-medium">Time</th>
+                  <th className="pb-3 font-medium">Pair</th>
+                  <th className="pb-3 font-medium text-right">Amount In</th>
+                  <th className="pb-3 font-medium text-right">Amount Out</th>
+                  <th className="pb-3 font-medium text-right">PnL</th>
+                  <th className="pb-3 font-medium text-right">Exec</th>
+                </tr>
+              </thead>
+              <tbody>
+                {trades.map((trade) => (
+                  <tr key={trade.trade_id} className="border-t border-white/[0.05]">
+                    <td className="py-2.5 text-text-muted" title={new Date(trade.timestamp).toLocaleString()}>
+                      {getTimeAgo(trade.timestamp)}
+                    </td>
+                    <td className="py-2.5 text-white">{trade.token_in} → {trade.token_out}</td>
+                    <td className="py-2.5 text-right text-text-secondary">{trade.amount_in}</td>
+                    <td className="py-2.5 text-right text-text-secondary">{trade.amount_out}</td>
+                    <td className={`py-2.5 text-right ${trade.pnl_usd > 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                      {formatUSD(trade.pnl_usd)}
+                    </td>
+                    <td className="py-2.5 text-right text-text-muted">{trade.execution_time_ms}ms</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {nextCursor && (
+          <Button
+            variant="secondary"
+            className="w-full mt-4"
+            onClick={() => loadTrades(nextCursor)}
+            disabled={loading}
+          >
+            <span className="text-[10px] uppercase tracking-wider">{loading ? 'Loading...' : 'Load More'}</span>
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1 +1,2 @@
 export * from './TradeLogger';
+export * from './TradeHistory';
@@ -4,6 +4,7 @@ import {
   LayoutDashboard,
   Users,
   Trophy,
+  Award,
   Shield,
   Zap,
   Book,
@@ -14,6 +15,7 @@ const navItems = [
   { to: '/agents', icon: Users, label: 'Agents' },
   { to: '/proofs', icon: Shield, label: 'Proofs' },
   { to: '/leaderboard', icon: Trophy, label: 'Ranks' },
+  { to: '/badges', icon: Award, label: 'Badges' },
   { to: '/protocol', icon: Zap, label: 'How It Works' },
   { to: '/docs', icon: Book, label: 'API Docs' },
 ];
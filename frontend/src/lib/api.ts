@@ -32,14 +32,67 @@ export interface AgentMetrics {
   total_trades: number;
   winning_trades: number;
   total_pnl_usd: number;
+  realized_pnl_usd: number;
+  unrealized_pnl_usd: number;
+  verified_trades: number;
+  verified_pnl_usd: number;
+  volume_usd: number;
+  verified_volume_usd: number;
+  winning_volume_usd: number;
+  gross_profit_usd: number;
+  gross_loss_usd: number;
+  flagged_trades: number;
+  win_rate_lower_bound: number;
+  win_rate_upper_bound: number;
+  avg_pnl_lower_bound_usd: number;
+  avg_pnl_upper_bound_usd: number;
   max_drawdown_bps: number;
+  current_drawdown_bps: number;
+  drawdown_duration_ms: number;
+  max_drawdown_duration_ms: number;
+  recovery_time_ms: number | null;
   sharpe_ratio: number;
+  sortino_ratio: number;
+  volatility: number;
   avg_execution_time_ms: number;
-  uptime_percentage: number;
+  uptime_percentage: number | null;
+  uptime_24h: number | null;
+  uptime_7d: number | null;
+  last_heartbeat_at: number | null;
+  liveness: 'online' | 'offline' | 'unknown';
   win_rate: number;
   last_updated: number;
 }
 
+export interface Trade {
+  trade_id: string;
+  agent_id: string;
+  timestamp: number;
+  token_in: string;
+  token_out: string;
+  amount_in: number;
+  amount_out: number;
+  pnl_usd: number;
+  reported_pnl_usd?: number;
+  derived_pnl_usd?: number;
+  pnl_suspicious: boolean;
+  execution_time_ms: number;
+  client_trade_id?: string;
+  tx_signature?: string;
+  verified_onchain: boolean;
+  anomalies?: Array<{ type: 'micro_trade' | 'duplicate_trade' | 'burst' | 'round_trip'; detail: string }>;
+}
+
+export interface TradeFilters {
+  limit?: number;
+  cursor?: string;
+  from?: number;
+  to?: number;
+  token_in?: string;
+  token_out?: string;
+  outcome?: 'win' | 'loss';
+}
+
 export interface ReputationProof {
   proof_id: string;
   agent_id: string;
@@ -50,6 +103,7 @@ export interface ReputationProof {
   created_at: number;
   expires_at: number;
   circuit_hash: string;
+  verified: boolean;
 }
 
 export interface Badge {
@@ -57,6 +111,43 @@ export interface Badge {
   name: string;
   description: string;
   earned_at: number;
+  proof_id?: string;
+}
+
+export interface BadgeInfo {
+  id: string;
+  name: string;
+  description: string;
+  metric: string;
+  operator: string;
+  threshold: number;
+  window?: string;
+  proof?: { type: string; input: string; operator: string; value: number };
+  holder_count: number;
+}
+
+export interface BadgeHolder {
+  agent_id: string;
+  agent_name: string;
+  earned_at: number;
+  proof_id?: string;
+}
+
+export interface BadgeProgress {
+  badge_id: string;
+  name: string;
+  description: string;
+  metric: string;
+  operator: string;
+  threshold: number;
+  window?: string;
+  value: number;
+  progress: number;
+  criteria_met: boolean;
+  proof_required: boolean;
+  proof_id: string | null;
+  held: boolean;
+  earned_at: number | null;
 }
 
 export interface VerifiedReputation {
@@ -67,18 +158,50 @@ export interface VerifiedReputation {
   verification_proof: string;
   verified_at: number;
   mpc_attestation: string;
+  scoring_model: string;
+  percentile: number | null;
+  cohort_size: number;
+}
+
+export interface TierLevel {
+  tier: string;
+  stars: number;
+  rating: string;
+  display: string;
+  description: string;
+  min_score: number;
+  min_trades: number;
+  min_win_rate: number;
+  min_pnl_usd: number;
+  max_percentile: number | null;
 }
 
 export interface LeaderboardEntry {
   agent_id: string;
   agent_name: string;
   reputation_score: number;
+  effective_score: number;
+  last_active_at: number;
   star_rating: number;
   rating_display: string;
   tier: string;
   badges: (string | Badge)[];
   total_trades: number;
   win_rate: number;
+  win_rate_lower_bound: number;
+  win_rate_upper_bound: number;
+}
+
+export type LeaderboardSort = 'score' | 'win_rate' | 'trades' | 'recent';
+
+export interface LeaderboardParams {
+  limit?: number;
+  cursor?: string;
+  sort?: LeaderboardSort;
+  min_stars?: number;
+  tier?: string;
+  badge?: string;
+  min_trades?: number;
 }
 
 export interface TrustCertificate {
@@ -90,9 +213,16 @@ export interface TrustCertificate {
   rating_description: string;
   tier: string;
   reputation_score: number;
+  effective_score: number;
   total_trades: number;
   win_rate: number;
+  win_rate_lower_bound: number;
+  win_rate_upper_bound: number;
+  percentile: number | null;
+  cohort_size: number;
+  standing: string | null;
   verified_at: number | null;
+  last_active_at: number | null;
   certificate_hash: string;
   valid_until: number;
 }
@@ -135,10 +265,21 @@ export const atracksApi = {
     token_out?: string;
     amount_in?: number;
     amount_out?: number;
-    pnl_usd: number;
+    pnl_usd?: number; // Derived from token prices when omitted
     execution_time_ms?: number;
+    client_trade_id?: string; // Idempotency key - safe to retry
+    executed_at?: number; // Unix ms - defaults to now
+    tx_signature?: string; // Checked on-chain when the server has a verifier configured
   }) {
-    const { data } = await api.post<ApiResponse<{ trade_id: string; metrics_updated: boolean }>>('/trades', trade);
+    const { data } = await api.post<ApiResponse<{ trade_id: string; replayed: boolean; verified_onchain: boolean; metrics_updated: boolean }>>('/trades', trade);
+    return data;
+  },
+
+  async getTrades(agentId: string, apiKey: string, filters: TradeFilters = {}) {
+    const { data } = await api.get<ApiResponse<Trade[]> & { next_cursor: string | null }>(`/agents/${agentId}/trades`, {
+      params: filters,
+      headers: { 'X-API-Key': apiKey },
+    });
     return data;
   },
 
@@ -189,9 +330,31 @@ export const atracksApi = {
     return data;
   },
 
+  // Tiers, highest first
+  async getTiers() {
+    const { data } = await api.get<ApiResponse<TierLevel[]>>('/tiers');
+    return data;
+  },
+
+  // Badges
+  async getBadges() {
+    const { data } = await api.get<ApiResponse<BadgeInfo[]> & { count: number }>('/badges');
+    return data;
+  },
+
+  async getBadgeHolders(badgeId: string, params: { limit?: number; cursor?: string } = {}) {
+    const { data } = await api.get<ApiResponse<BadgeHolder[]> & { next_cursor: string | null }>(`/badges/${badgeId}/holders`, { params });
+    return data;
+  },
+
+  async getBadgeProgress(agentId: string) {
+    const { data } = await api.get<ApiResponse<BadgeProgress[]>>(`/agents/${agentId}/badges`);
+    return data;
+  },
+
   // Leaderboard
-  async getLeaderboard() {
-    const { data } = await api.get<ApiResponse<LeaderboardEntry[]> & { count: number }>('/leaderboard');
+  async getLeaderboard(params: LeaderboardParams = {}) {
+    const { data } = await api.get<ApiResponse<LeaderboardEntry[]> & { count: number; next_cursor: string | null }>('/leaderboard', { params });
     return data;
   },
 
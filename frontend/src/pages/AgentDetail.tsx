@@ -2,8 +2,8 @@ import { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { Header } from '@/components/layout';
 import { Card, Button } from '@/components/ui';
-import { TradeLogger } from '@/components/agents';
-import { atracksApi, Agent, AgentMetrics, ReputationProof, VerifiedReputation, TrustCertificate } from '@/lib/api';
+import { TradeLogger, TradeHistory } from '@/components/agents';
+import { atracksApi, Agent, AgentMetrics, ReputationProof, VerifiedReputation, TrustCertificate, TierLevel } from '@/lib/api';
 import { formatUSD, getTimeAgo } from '@/lib/utils';
 import {
   ArrowLeft,
@@ -50,6 +50,12 @@ function generatePnlChartData(metrics: AgentMetrics | null): { day: string; pnl:
   });
 }
 
+// The tier above the current one; tiers come highest first, ending with unverified
+function nextTierLevel(tiers: TierLevel[], currentTier: string | undefined): TierLevel | null {
+  const index = tiers.findIndex((level) => level.tier === (currentTier || 'unverified'));
+  return index > 0 ? tiers[index - 1] : null;
+}
+
 export function AgentDetail() {
   const { agentId } = useParams<{ agentId: string }>();
   const [agent, setAgent] = useState<Agent | null>(null);
@@ -57,6 +63,7 @@ export function AgentDetail() {
   const [proofs, setProofs] = useState<ReputationProof[]>([]);
   const [reputation, setReputation] = useState<VerifiedReputation | null>(null);
   const [trustCert, setTrustCert] = useState<TrustCertificate | null>(null);
+  const [tiers, setTiers] = useState<TierLevel[]>([]);
   const [loading, setLoading] = useState(true);
   const [verifying, setVerifying] = useState(false);
   const [copiedBadge, setCopiedBadge] = useState(false);
@@ -65,12 +72,13 @@ export function AgentDetail() {
     if (!agentId) return;
     setLoading(true);
     try {
-      const [agentRes, metricsRes, proofsRes, repRes, certRes] = await Promise.allSettled([
+      const [agentRes, metricsRes, proofsRes, repRes, certRes, tiersRes] = await Promise.allSettled([
         atracksApi.getAgent(agentId),
         atracksApi.getMetrics(agentId),
         atracksApi.getAgentProofs(agentId),
         atracksApi.getReputation(agentId),
         atracksApi.getTrustCertificate(agentId),
+        atracksApi.getTiers(),
       ]);
 
       if (agentRes.status === 'fulfilled') setAgent(agentRes.value.data);
@@ -78,6 +86,7 @@ export function AgentDetail() {
       if (proofsRes.status === 'fulfilled') setProofs(proofsRes.value.data || []);
       if (repRes.status === 'fulfilled') setReputation(repRes.value.data);
       if (certRes.status === 'fulfilled') setTrustCert(certRes.value.data);
+      if (tiersRes.status === 'fulfilled') setTiers(tiersRes.value.data || []);
     } catch (error) {
       console.error('Failed to fetch agent data:', error);
     } finally {
@@ -102,6 +111,8 @@ export function AgentDetail() {
     }
   }
 
+  const nextLevel = nextTierLevel(tiers, trustCert?.tier);
+
   if (loading) {
     return (
       <div>
@@ -153,6 +164,19 @@ export function AgentDetail() {
           </div>
         </div>
         <div className="flex items-center gap-3">
+          {/* Liveness (from heartbeats) */}
+          {metrics && metrics.liveness !== 'unknown' && (
+            <div
+              className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-white/[0.03] border border-white/[0.08]"
+              title={metrics.last_heartbeat_at ? `Last heartbeat ${getTimeAgo(metrics.last_heartbeat_at)}` : undefined}
+            >
+              <span className={`w-1.5 h-1.5 rounded-full ${metrics.liveness === 'online' ? 'bg-emerald-400' : 'bg-red-400'}`} />
+              <span className="text-[10px] uppercase tracking-widest text-text-secondary">
+                {metrics.liveness === 'online' ? 'Live' : 'Offline'}
+                {metrics.uptime_24h !== null && ` · ${metrics.uptime_24h.toFixed(1)}% 24h`}
+              </span>
+            </div>
+          )}
           {/* Star Rating */}
           {trustCert && trustCert.star_rating > 0 && (
             <div className="flex items-center gap-1">
@@ -247,6 +271,9 @@ export function AgentDetail() {
                     {reputation.badges?.map((badge, idx) => (
                       <span key={typeof badge === 'string' ? badge : badge.badge_id || idx} className="px-2.5 py-1 rounded-lg bg-white/[0.05] border border-white/[0.05] text-[10px] text-white uppercase tracking-wider">
                         {typeof badge === 'string' ? badge : badge.name}
+                        {typeof badge !== 'string' && badge.proof_id && (
+                          <span className="text-accent ml-1" title={`Backed by ZK proof ${badge.proof_id}`}>✓</span>
+                        )}
                       </span>
                     ))}
                   </div>
@@ -256,17 +283,27 @@ export function AgentDetail() {
                 <div className="pt-4 border-t border-white/[0.05]">
                   <p className="text-[10px] uppercase tracking-widest text-text-muted font-medium mb-3">Level Up</p>
                   <div className="space-y-2 text-[11px]">
-                    {metrics && metrics.total_trades < 200 && (
-                      <p className="text-text-muted">◆ Log {200 - metrics.total_trades} more trades for ◆ rating</p>
-                    )}
-                    {metrics && metrics.win_rate < 62 && (
-                      <p className="text-text-muted">◆ Improve win rate to 62%+ for ◆ rating</p>
-                    )}
-                    {reputation.reputation_score < 75 && (
-                      <p className="text-text-muted">◆ Reach 75+ score for ◆ rating</p>
-                    )}
-                    {metrics && metrics.total_trades >= 200 && metrics.win_rate >= 62 && reputation.reputation_score >= 75 && (
-                      <p className="text-emerald-400">✓ On track for ◆ rating!</p>
+                    {metrics && nextLevel && (
+                      <>
+                        {metrics.total_trades < nextLevel.min_trades && (
+                          <p className="text-text-muted">{nextLevel.display} Log {nextLevel.min_trades - metrics.total_trades} more trades for {nextLevel.tier}</p>
+                        )}
+                        {metrics.win_rate < nextLevel.min_win_rate && (
+                          <p className="text-text-muted">{nextLevel.display} Improve win rate to {nextLevel.min_win_rate}%+ for {nextLevel.tier}</p>
+                        )}
+                        {metrics.total_pnl_usd < nextLevel.min_pnl_usd && (
+                          <p className="text-text-muted">{nextLevel.display} Reach {formatUSD(nextLevel.min_pnl_usd)} PnL for {nextLevel.tier}</p>
+                        )}
+                        {reputation.reputation_score < nextLevel.min_score && (
+                          <p className="text-text-muted">{nextLevel.display} Reach {nextLevel.min_score}+ score for {nextLevel.tier}</p>
+                        )}
+                        {metrics.total_trades >= nextLevel.min_trades &&
+                          metrics.win_rate >= nextLevel.min_win_rate &&
+                          metrics.total_pnl_usd >= nextLevel.min_pnl_usd &&
+                          reputation.reputation_score >= nextLevel.min_score && (
+                          <p className="text-emerald-400">✓ On track for {nextLevel.tier}!</p>
+                        )}
+                      </>
                     )}
                   </div>
                 </div>
@@ -323,6 +360,9 @@ export function AgentDetail() {
                   <span className="text-white text-sm font-medium ml-2">{agent.name}</span>
                   <span className="text-accent text-[9px] font-semibold uppercase tracking-wider ml-2">ATRACKS</span>
                 </div>
+                {trustCert.standing && (
+                  <p className="text-[10px] text-text-muted mt-2 text-center capitalize">{trustCert.standing}</p>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -367,7 +407,7 @@ export function AgentDetail() {
                     onClick={() => {
                       const stars = trustCert.star_rating > 0 ? trustCert.rating_display : '[Verified]';
                       const tier = trustCert.star_rating > 0 ? trustCert.rating_description : 'Verified';
-                      const text = `${stars} ${agent.name}\n\nScore: ${trustCert.reputation_score} | ${tier}\nTrades: ${trustCert.total_trades} | Win Rate: ${trustCert.win_rate}%\n\nVerified on @ATRACKS - Private reputation for AI agents`;
+                      const text = `${stars} ${agent.name}\n\nScore: ${trustCert.effective_score} | ${tier}\nTrades: ${trustCert.total_trades} | Win Rate: ${trustCert.win_rate}%\n\nVerified on @ATRACKS - Private reputation for AI agents`;
                       const url = `${window.location.origin}/agents/${agent.agent_id}`;
                       window.open(`https://twitter.com/intent/tweet?text=${encodeURIComponent(text)}&url=${encodeURIComponent(url)}`, '_blank');
                     }}
@@ -393,6 +433,9 @@ export function AgentDetail() {
         </div>
       </div>
 
+      {/* Trade History (owner only) */}
+      <TradeHistory agentId={agent.agent_id} refreshKey={metrics?.last_updated} />
+
       {/* Trade Logger Section */}
       <div className="mt-12 pt-12 border-t border-white/[0.05]">
         <TradeLogger agentId={agent.agent_id} onTradeComplete={fetchData} />
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { atracksApi, Agent, BadgeInfo, BadgeProgress } from '@/lib/api';
+import { Award, CheckCircle, Shield } from 'lucide-react';
+
+// "win_rate >= 60 over 30d"
+function describeRule(badge: BadgeInfo): string {
+  const window = badge.window ? ` over ${badge.window}` : '';
+  return `${badge.metric} ${badge.operator} ${badge.threshold}${window}`;
+}
+
+export function Badges() {
+  const [badges, setBadges] = useState<BadgeInfo[]>([]);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [selectedAgent, setSelectedAgent] = useState<string>('');
+  const [progress, setProgress] = useState<BadgeProgress[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        const [badgesRes, agentsRes] = await Promise.all([
+          atracksApi.getBadges(),
+          atracksApi.getAgents(),
+        ]);
+        setBadges(badgesRes.data || []);
+        setAgents(agentsRes.data || []);
+        if (agentsRes.data?.length > 0) {
+          setSelectedAgent(agentsRes.data[0].agent_id);
+        }
+      } catch (error) {
+        console.error('Failed to fetch badges:', error);
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedAgent) {
+      setProgress([]);
+      return;
+    }
+    atracksApi.getBadgeProgress(selectedAgent)
+      .then((res) => setProgress(res.data || []))
+      .catch((error) => console.error('Failed to fetch badge progress:', error));
+  }, [selectedAgent]);
+
+  return (
+    <div className="relative z-10 min-h-screen p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <div className="flex items-center gap-3 mb-2">
+          <Award className="w-6 h-6 text-accent" />
+          <h1 className="text-2xl font-light text-white">Badges</h1>
+        </div>
+        <p className="text-text-muted text-sm">What each badge takes, and how close an agent is</p>
+      </div>
+
+      {/* Agent Selection */}
+      <div className="mb-6 max-w-sm">
+        <label className="block text-text-muted text-[10px] uppercase tracking-wider mb-2">Agent</label>
+        <select
+          value={selectedAgent}
+          onChange={(e) => setSelectedAgent(e.target.value)}
+          className="w-full px-4 py-3 rounded-xl bg-white/[0.03] border border-white/[0.08] text-white focus:outline-none focus:border-accent/50 appearance-none text-sm"
+        >
+          <option value="">Select agent...</option>
+          {agents.map((agent) => (
+            <option key={agent.agent_id} value={agent.agent_id}>
+              {agent.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Catalog */}
+      {loading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {[1, 2, 3, 4].map((i) => (
+            <div key={i} className="h-28 rounded-2xl bg-white/[0.02] animate-pulse" />
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {badges.map((badge) => {
+            const agentProgress = progress.find((p) => p.badge_id === badge.id);
+            return (
+              <div
+                key={badge.id}
+                className={`p-4 rounded-2xl border ${
+                  agentProgress?.held ? 'bg-accent/10 border-accent/20' : 'bg-white/[0.02] border-white/[0.05]'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-3 mb-2">
+                  <div>
+                    <p className="text-white text-sm font-medium flex items-center gap-2">
+                      {badge.name}
+                      {agentProgress?.held && <CheckCircle className="w-3.5 h-3.5 text-accent" />}
+                    </p>
+                    <p className="text-text-muted text-xs">{badge.description}</p>
+                  </div>
+                  <span className="text-text-muted text-[10px] uppercase tracking-widest whitespace-nowrap">
+                    {badge.holder_count} {badge.holder_count === 1 ? 'holder' : 'holders'}
+                  </span>
+                </div>
+
+                <p className="text-[10px] text-text-muted font-mono mb-3">{describeRule(badge)}</p>
+
+                {agentProgress && (
+                  <div>
+                    <div className="h-1.5 rounded-full bg-white/[0.05] overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${agentProgress.criteria_met ? 'bg-emerald-400' : 'bg-accent'}`}
+                        style={{ width: `${Math.round(agentProgress.progress * 100)}%` }}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between mt-2 text-[10px] text-text-muted">
+                      <span>{agentProgress.value} / {agentProgress.threshold}</span>
+                      {agentProgress.held && agentProgress.earned_at ? (
+                        <span>Earned {new Date(agentProgress.earned_at).toLocaleDateString()}</span>
+                      ) : agentProgress.criteria_met && (!agentProgress.proof_required || agentProgress.proof_id) ? (
+                        <span className="text-emerald-400">Awarded at next verification</span>
+                      ) : null}
+                    </div>
+                  </div>
+                )}
+
+                {badge.proof && (
+                  <p className={`flex items-center gap-1.5 mt-2 text-[10px] ${
+                    agentProgress?.proof_id ? 'text-accent' : 'text-text-muted'
+                  }`}>
+                    <Shield className="w-3 h-3" />
+                    {agentProgress?.proof_id
+                      ? 'Backed by a verified ZK proof'
+                      : `Needs a verified ${badge.proof.type} proof with ${badge.proof.input} ${badge.proof.operator} ${badge.proof.value}`}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,34 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { atracksApi, LeaderboardEntry } from '@/lib/api';
+import { atracksApi, LeaderboardEntry, LeaderboardSort } from '@/lib/api';
 import { Trophy, Star, Award } from 'lucide-react';
 
+const SORTS: { value: LeaderboardSort; label: string }[] = [
+  { value: 'score', label: 'Rating' },
+  { value: 'win_rate', label: 'Win rate' },
+  { value: 'trades', label: 'Trades' },
+  { value: 'recent', label: 'Recently active' },
+];
+
+const PAGE_SIZE = 50;
+
 export function Leaderboard() {
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [loading, setLoading] = useState(true);
+  const [sort, setSort] = useState<LeaderboardSort>('score');
+  const [minStars, setMinStars] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const filters = { sort, limit: PAGE_SIZE, ...(minStars > 0 ? { min_stars: minStars } : {}) };
 
   useEffect(() => {
     async function fetchLeaderboard() {
+      setLoading(true);
       try {
-        const res = await atracksApi.getLeaderboard();
+        const res = await atracksApi.getLeaderboard(filters);
         setLeaderboard(res.data || []);
+        setNextCursor(res.next_cursor ?? null);
       } catch (error) {
         console.error('Failed to fetch leaderboard:', error);
       } finally {
@@ -19,7 +36,22 @@ export function Leaderboard() {
       }
     }
     fetchLeaderboard();
-  }, []);
+  }, [sort, minStars]);
+
+  // Next page under the same sort and filters
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const res = await atracksApi.getLeaderboard({ ...filters, cursor: nextCursor });
+      setLeaderboard((entries) => [...entries, ...(res.data || [])]);
+      setNextCursor(res.next_cursor ?? null);
+    } catch (error) {
+      console.error('Failed to fetch leaderboard:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   // Get rating display with unique visual indicators
   const getStarDisplay = (starRating: number, ratingDisplay: string) => {
@@ -64,6 +96,31 @@ export function Leaderboard() {
         </div>
       </div>
 
+      {/* Sort & Filters */}
+      <div className="mb-6 flex flex-wrap items-center gap-3">
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as LeaderboardSort)}
+          className="px-4 py-2 rounded-xl bg-white/[0.03] border border-white/[0.08] text-white focus:outline-none focus:border-accent/50 appearance-none text-sm"
+        >
+          {SORTS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={minStars}
+          onChange={(e) => setMinStars(Number(e.target.value))}
+          className="px-4 py-2 rounded-xl bg-white/[0.03] border border-white/[0.08] text-white focus:outline-none focus:border-accent/50 appearance-none text-sm"
+        >
+          <option value={0}>All verified</option>
+          <option value={1}>◆ and up</option>
+          <option value={2}>◆◆ and up</option>
+          <option value={3}>◆◆◆ only</option>
+        </select>
+      </div>
+
       {/* Rankings */}
       {loading ? (
         <div className="space-y-3">
@@ -115,7 +172,9 @@ export function Leaderboard() {
                 </Link>
                 <div className="flex items-center gap-3 text-text-muted text-[10px] uppercase tracking-widest">
                   <span>{entry.total_trades} trades</span>
-                  <span>{entry.win_rate}% win</span>
+                  <span title="95% confidence interval">
+                    {entry.win_rate}% win ({entry.win_rate_lower_bound}–{entry.win_rate_upper_bound}%)
+                  </span>
                 </div>
               </div>
 
@@ -129,12 +188,26 @@ export function Leaderboard() {
                 <p className={`text-xl font-extralight ${
                   index === 0 ? 'text-accent shadow-accent' : 'text-white'
                 }`}>
-                  {entry.reputation_score}
+                  {entry.effective_score}
                 </p>
+                {entry.effective_score < entry.reputation_score && (
+                  <p className="text-text-muted text-[10px]" title="Score before inactivity decay">
+                    peak {entry.reputation_score}
+                  </p>
+                )}
                 <p className="text-text-muted text-[10px] uppercase tracking-widest font-medium">{entry.tier}</p>
               </div>
             </div>
           ))}
+          {nextCursor && (
+            <button
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="w-full py-3 rounded-2xl bg-white/[0.02] border border-white/[0.05] text-text-muted text-xs uppercase tracking-widest hover:text-white transition-colors disabled:opacity-50"
+            >
+              {loadingMore ? 'Loading...' : 'Load more'}
+            </button>
+          )}
         </div>
       )}
     </div>
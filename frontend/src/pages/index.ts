@@ -2,6 +2,7 @@ export * from './Dashboard';
 export * from './Agents';
 export * from './AgentDetail';
 export * from './Leaderboard';
+export * from './Badges';
 export * from './Proofs';
 export * from './Settings';
 export * from './Protocol';
@@ -0,0 +1,10 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  // Transpile only (isolatedModules), as `npm run dev` does; `tsc` is the type-check gate
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: 'tsconfig.test.json' }]
+  },
+  setupFiles: ['<rootDir>/tests/setup.ts']
+};
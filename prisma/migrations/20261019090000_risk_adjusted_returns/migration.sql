@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "metrics" ADD COLUMN     "return_series" JSONB,
+ADD COLUMN     "sortino_ratio" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "volatility" DOUBLE PRECISION NOT NULL DEFAULT 0;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN     "starting_capital_usd" DOUBLE PRECISION NOT NULL DEFAULT 10000;
+
+-- AlterTable
+ALTER TABLE "metrics" ADD COLUMN     "current_drawdown_bps" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "drawdown_duration_ms" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "equity_curve" JSONB,
+ADD COLUMN     "max_drawdown_duration_ms" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "recovery_time_ms" DOUBLE PRECISION;
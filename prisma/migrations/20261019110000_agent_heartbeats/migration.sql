@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "metrics" ADD COLUMN     "last_heartbeat_at" TIMESTAMP(3),
+ADD COLUMN     "uptime_24h" DOUBLE PRECISION NOT NULL DEFAULT 100,
+ADD COLUMN     "uptime_7d" DOUBLE PRECISION NOT NULL DEFAULT 100,
+ADD COLUMN     "uptime_state" JSONB;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN     "client_trade_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trades_agent_id_client_trade_id_key" ON "trades"("agent_id", "client_trade_id");
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "metrics" ADD COLUMN     "verified_pnl_usd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "verified_trades" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN     "tx_signature" TEXT,
+ADD COLUMN     "verified_onchain" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "trades_tx_signature_idx" ON "trades"("tx_signature");
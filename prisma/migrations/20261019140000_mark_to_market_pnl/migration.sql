@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN     "derived_pnl_usd" DOUBLE PRECISION,
+ADD COLUMN     "pnl_suspicious" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "reported_pnl_usd" DOUBLE PRECISION;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN     "cost_basis_method" TEXT NOT NULL DEFAULT 'fifo';
+
+-- AlterTable
+ALTER TABLE "metrics" ADD COLUMN     "position_book" JSONB,
+ADD COLUMN     "realized_pnl_usd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "unrealized_pnl_usd" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN     "notional_usd" DOUBLE PRECISION;
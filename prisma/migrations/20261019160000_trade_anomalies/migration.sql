@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN     "scoring_frozen" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "metrics" ADD COLUMN     "flagged_trades" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN     "anomalies" JSONB;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "metrics" ADD COLUMN     "gross_loss_usd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "gross_profit_usd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "verified_volume_usd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "volume_usd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "winning_volume_usd" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "reputations" ADD COLUMN     "scoring_version" TEXT NOT NULL DEFAULT 'v1';
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "reputations" ADD COLUMN     "scoring_model" TEXT NOT NULL DEFAULT 'trade_count@1';
+
+-- Existing reputations keep the model that scored them
+UPDATE "reputations" SET "scoring_model" = 'volume_weighted@1' WHERE "scoring_version" = 'v2';
+
+-- AlterTable
+ALTER TABLE "reputations" DROP COLUMN "scoring_version";
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "metrics" ADD COLUMN     "avg_pnl_lower_bound_usd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "avg_pnl_upper_bound_usd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "win_rate_lower_bound" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "win_rate_upper_bound" DOUBLE PRECISION NOT NULL DEFAULT 100;
@@ -0,0 +1,15 @@
+-- Reclassify existing reputations with the unified tier rules: each tier needs
+-- its score cutoff and its trade count, win rate and PnL requirements.
+-- Every scoring model so far uses the default cutoffs. Flagged trades are still
+-- counted here; the next verification classifies from scoring metrics.
+UPDATE "reputations" AS r
+SET "tier" = CASE
+  WHEN r."score" >= 90 AND m."total_trades" >= 1000 AND m."winning_trades" * 100.0 >= 75 * m."total_trades" AND m."total_pnl_usd" >= 10000 THEN 'diamond'
+  WHEN r."score" >= 80 AND m."total_trades" >= 500 AND m."winning_trades" * 100.0 >= 68 * m."total_trades" AND m."total_pnl_usd" >= 5000 THEN 'platinum'
+  WHEN r."score" >= 70 AND m."total_trades" >= 200 AND m."winning_trades" * 100.0 >= 62 * m."total_trades" AND m."total_pnl_usd" >= 1000 THEN 'gold'
+  WHEN r."score" >= 60 AND m."total_trades" >= 50 AND m."winning_trades" * 100.0 >= 55 * m."total_trades" THEN 'silver'
+  WHEN r."score" >= 50 AND m."total_trades" >= 25 AND m."winning_trades" * 100.0 >= 50 * m."total_trades" THEN 'bronze'
+  ELSE 'unverified'
+END
+FROM "metrics" AS m
+WHERE m."agent_id" = r."agent_id";
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "reputations" ADD COLUMN     "cohort_size" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "percentile" DOUBLE PRECISION;
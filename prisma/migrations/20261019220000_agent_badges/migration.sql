@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "agent_badges" (
+    "id" TEXT NOT NULL,
+    "agent_id" TEXT NOT NULL,
+    "badge_id" TEXT NOT NULL,
+    "earned_at" TIMESTAMP(3) NOT NULL,
+    "revoked_at" TIMESTAMP(3),
+
+    CONSTRAINT "agent_badges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "agent_badges_agent_id_badge_id_key" ON "agent_badges"("agent_id", "badge_id");
+
+-- AddForeignKey
+ALTER TABLE "agent_badges" ADD CONSTRAINT "agent_badges_agent_id_fkey" FOREIGN KEY ("agent_id") REFERENCES "agents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Carry over the badges each reputation holds. Their stamped earn dates were
+-- rewritten on every verification, so the last verification is the best
+-- earn date there is.
+INSERT INTO "agent_badges" ("id", "agent_id", "badge_id", "earned_at")
+SELECT gen_random_uuid()::text, r."agent_id", b->>'badge_id', r."verified_at"
+FROM "reputations" AS r, jsonb_array_elements(r."badges") AS b
+ON CONFLICT ("agent_id", "badge_id") DO NOTHING;
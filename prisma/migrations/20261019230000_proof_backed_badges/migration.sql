@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "agent_badges" ADD COLUMN     "proof_id" TEXT;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "metrics" ALTER COLUMN "uptime_percentage" DROP NOT NULL,
+ALTER COLUMN "uptime_percentage" DROP DEFAULT,
+ALTER COLUMN "uptime_24h" DROP NOT NULL,
+ALTER COLUMN "uptime_24h" DROP DEFAULT,
+ALTER COLUMN "uptime_7d" DROP NOT NULL,
+ALTER COLUMN "uptime_7d" DROP DEFAULT;
+
+-- Agents that never sent a heartbeat have no uptime
+UPDATE "metrics" SET "uptime_percentage" = NULL, "uptime_24h" = NULL, "uptime_7d" = NULL
+WHERE "uptime_state" IS NULL;
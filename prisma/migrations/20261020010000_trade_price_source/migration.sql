@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN     "price_source" TEXT;
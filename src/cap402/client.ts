@@ -4,33 +4,26 @@
  */
 
 import axios, { AxiosInstance } from 'axios';
-import { CAP402InvokeRequest, CAP402InvokeResponse } from '../types';
+import crypto from 'crypto';
+import { CAP402InvokeRequest, CAP402InvokeResponse, ScoringMetrics, ScoringModel } from '../types';
 
 const CAP402_ROUTER_URL = process.env.CAP402_ROUTER_URL || 'https://cap402.com';
 
+// Public bound that leaves a strategy_performance constraint open, so a proof
+// about one metric can carry the agent's real values for the other two
+const UNBOUNDED = 1_000_000_000;
+
+// What the strategy_performance circuit proves over, all from the same trade history
+export interface StrategyPerformance {
+  win_rate: number;
+  sharpe: number;
+  drawdown_bps: number;
+}
+
 class CAP402Client {
   private client: AxiosInstance;
   private routerUrl: string;
 
-  private computeMetricsScore(metrics: {
-    total_trades: number;
-    winning_trades: number;
-    total_pnl_usd: number;
-    avg_execution_time_ms: number;
-  }): number {
-    const tradesScore = Math.min((metrics.total_trades / 200) * 30, 30);
-    const winRate = metrics.total_trades > 0 ? metrics.winning_trades / metrics.total_trades : 0;
-    const winRateScore = Math.min(winRate * 40, 40);
-    const pnlScore = Math.min(Math.max(metrics.total_pnl_usd, 0) / 10000 * 20, 20);
-
-    let execScore = 0;
-    if (metrics.avg_execution_time_ms <= 50) execScore = 10;
-    else if (metrics.avg_execution_time_ms <= 100) execScore = 7;
-    else if (metrics.avg_execution_time_ms <= 200) execScore = 4;
-
-    return Math.round(Math.min(tradesScore + winRateScore + pnlScore + execScore, 100));
-  }
-
   constructor(baseUrl: string = CAP402_ROUTER_URL) {
     this.client = axios.create({
       baseURL: baseUrl,
@@ -160,6 +153,136 @@ class CAP402Client {
     };
   }
 
+  /**
+   * Generate ZK proof for Sharpe ratio threshold
+   * Uses the CAP-402 Noir strategy_performance circuit over the agent's real
+   * performance, with only the Sharpe constraint bounded
+   */
+  async proveSharpe(
+    actual: StrategyPerformance,
+    minSharpe: number
+  ): Promise<{
+    proof: string;
+    verification_key: string;
+    meets_threshold: boolean;
+  }> {
+    const meetsThreshold = actual.sharpe >= minSharpe;
+
+    const response = await this.invoke({
+      capability_id: 'cap.zk.proof.v1',
+      inputs: {
+        proof_type: 'balance_threshold',
+        circuit: 'strategy_performance',
+        public_inputs: {
+          min_win_rate_pct: 0,
+          min_sharpe_ratio: minSharpe,
+          max_drawdown_bps: UNBOUNDED
+        },
+        private_inputs: {
+          actual_win_rate: actual.win_rate,
+          actual_sharpe: actual.sharpe,
+          actual_drawdown: actual.drawdown_bps,
+          trade_history_hash: '0x' + Date.now().toString(16)
+        }
+      }
+    });
+
+    return {
+      proof: response.outputs?.proof || '',
+      verification_key: response.outputs?.verification_key || '',
+      meets_threshold: response.outputs?.public_outputs?.meets_sharpe ?? meetsThreshold
+    };
+  }
+
+  /**
+   * Generate ZK proof for maximum drawdown
+   * Uses the CAP-402 Noir strategy_performance circuit over the agent's real
+   * performance, with only the drawdown constraint bounded
+   */
+  async proveMaxDrawdown(
+    actual: StrategyPerformance,
+    maxDrawdownBps: number
+  ): Promise<{
+    proof: string;
+    verification_key: string;
+    meets_threshold: boolean;
+  }> {
+    const meetsThreshold = actual.drawdown_bps <= maxDrawdownBps;
+
+    const response = await this.invoke({
+      capability_id: 'cap.zk.proof.v1',
+      inputs: {
+        proof_type: 'balance_threshold',
+        circuit: 'strategy_performance',
+        public_inputs: {
+          min_win_rate_pct: 0,
+          min_sharpe_ratio: -UNBOUNDED,
+          max_drawdown_bps: maxDrawdownBps
+        },
+        private_inputs: {
+          actual_win_rate: actual.win_rate,
+          actual_sharpe: actual.sharpe,
+          actual_drawdown: actual.drawdown_bps,
+          trade_history_hash: '0x' + Date.now().toString(16)
+        }
+      }
+    });
+
+    return {
+      proof: response.outputs?.proof || '',
+      verification_key: response.outputs?.verification_key || '',
+      meets_threshold: response.outputs?.public_outputs?.meets_drawdown ?? meetsThreshold
+    };
+  }
+
+  /**
+   * Generate ZK proof for an uptime percentage threshold
+   * Uses the CAP-402 Noir balance_threshold circuit with uptime as the private
+   * value. Without CAP-402 this falls back to a local attestation by this
+   * server - not a ZK proof, and it can't be verified through cap.zk.verify.v1
+   */
+  async proveUptime(
+    actualUptimePct: number,
+    minUptimePct: number
+  ): Promise<{
+    proof: string;
+    verification_key: string;
+    meets_threshold: boolean;
+    local: boolean;
+  }> {
+    const meetsThreshold = actualUptimePct >= minUptimePct;
+
+    const response = await this.invoke({
+      capability_id: 'cap.zk.proof.v1',
+      inputs: {
+        proof_type: 'balance_threshold',
+        circuit: 'balance_threshold',
+        public_inputs: {
+          threshold: minUptimePct
+        },
+        private_inputs: {
+          actual_balance: actualUptimePct
+        }
+      }
+    });
+
+    if (response.success && response.outputs?.proof) {
+      return {
+        proof: response.outputs.proof,
+        verification_key: response.outputs.verification_key || '',
+        meets_threshold: response.outputs.public_outputs?.meets_threshold ?? meetsThreshold,
+        local: false
+      };
+    }
+
+    return {
+      proof: `local_attestation_${crypto.randomBytes(16).toString('hex')}`,
+      verification_key: '',
+      meets_threshold: meetsThreshold,
+      local: true
+    };
+  }
+
   /**
    * Generate ZK proof for PnL threshold
    * Uses real CAP-402 Noir ZK proofs
@@ -303,20 +426,17 @@ class CAP402Client {
 
   /**
    * Compute verified reputation score via Arcium MPC
+   * The model's weights go to MPC and score the local fallback; tiers are
+   * assigned by the caller from the score
    */
   async computeVerifiedScore(
     agentId: string,
     encryptedMetrics: string,
     proofs: string[],
-    metrics?: {
-      total_trades: number;
-      winning_trades: number;
-      total_pnl_usd: number;
-      avg_execution_time_ms: number;
-    }
+    model: ScoringModel,
+    metrics?: ScoringMetrics
   ): Promise<{
     reputation_score: number;
-    tier: string;
     mpc_attestation: string;
     mode: string;
   }> {
@@ -327,7 +447,12 @@ class CAP402Client {
         computation_type: 'reputation_score',
         agent_id: agentId,
         encrypted_metrics: encryptedMetrics,
-        proofs: proofs
+        proofs: proofs,
+        scoring_model: {
+          id: model.id,
+          version: model.version,
+          weights: model.weights
+        }
       },
       preferences: { privacy_required: true }
     });
@@ -336,7 +461,6 @@ class CAP402Client {
     if (response.success && response.outputs?.reputation_score !== undefined) {
       return {
         reputation_score: response.outputs.reputation_score,
-        tier: response.outputs.tier || 'unverified',
         mpc_attestation: response.outputs.mpc_attestation || '',
         mode: 'live'
       };
@@ -344,24 +468,16 @@ class CAP402Client {
 
     // Compute score based on real metrics when MPC unavailable
     const metricsScore = metrics
-      ? this.computeMetricsScore(metrics)
+      ? model.score(metrics, model.weights, model.unverified_trade_weight)
       : (encryptedMetrics ? 50 : 30);
     const proofBonus = Math.min(proofs.length * 5, 15);
     const score = Math.min(metricsScore + proofBonus, 100);
 
-    let tier = 'unverified';
-    if (score >= 90) tier = 'diamond';
-    else if (score >= 80) tier = 'platinum';
-    else if (score >= 70) tier = 'gold';
-    else if (score >= 60) tier = 'silver';
-    else if (score >= 50) tier = 'bronze';
-
     const timestamp = Date.now().toString(16);
     const attestation = `mpc_${agentId.slice(0, 8)}_${timestamp}`;
 
     return {
       reputation_score: score,
-      tier,
       mpc_attestation: attestation,
       mode: response.success ? 'live' : 'computed'
     };
@@ -406,9 +522,9 @@ class CAP402Client {
   }
 
   /**
-   * Get real-time price from CAP-402
+   * Get a price from CAP-402 - real-time, or as of `at` (Unix ms) when given
    */
-  async getPrice(token: string, quote: string = 'USD'): Promise<{
+  async getPrice(token: string, quote: string = 'USD', at?: number): Promise<{
     price: number;
     source: string;
     timestamp: number;
@@ -417,7 +533,8 @@ class CAP402Client {
       capability_id: 'cap.price.lookup.v1',
       inputs: {
         base_token: token,
-        quote_token: quote
+        quote_token: quote,
+        ...(at !== undefined && { timestamp: at })
       }
     });
 
@@ -9,11 +9,33 @@ import {
   PerformanceMetrics,
   ReputationProof,
   ReputationProofType,
+  ProofPublicInputs,
   VerifiedReputation,
+  ScoringModelInfo,
+  BadgeInfo,
+  BadgeHolderQuery,
+  BadgeHolderPage,
+  BadgeProgress,
+  LeaderboardQuery,
+  LeaderboardPage,
   TradeRecord,
+  TradeQuery,
+  TradePage,
+  AgentPositions,
+  PairMetrics,
+  CostBasisMethod,
   AtracksResponse
 } from '../types';
 
+// Matches the server's POST /trades/batch limit
+const MAX_BATCH_SIZE = 500;
+
+// Narrows a proof to one pair and/or a rolling window such as '30d'
+export interface ProofScope {
+  pair?: string;
+  window?: string;
+}
+
 export interface AtracksConfig {
   baseUrl?: string;
   timeout?: number;
@@ -37,10 +59,17 @@ export class AtracksClient {
   /**
    * Register a new agent
    */
-  async registerAgent(name: string, publicKey?: string): Promise<Agent> {
+  async registerAgent(
+    name: string,
+    publicKey?: string,
+    startingCapitalUsd?: number,
+    costBasisMethod?: CostBasisMethod
+  ): Promise<Agent> {
     const response = await this.client.post<AtracksResponse<Agent>>('/agents/register', {
       name,
-      public_key: publicKey
+      public_key: publicKey,
+      starting_capital_usd: startingCapitalUsd,
+      cost_basis_method: costBasisMethod
     });
     
     if (!response.data.success || !response.data.data) {
@@ -63,6 +92,29 @@ export class AtracksClient {
     return response.data.data;
   }
 
+  /**
+   * Send a heartbeat (feeds rolling uptime)
+   */
+  async sendHeartbeat(agentId: string, apiKey: string, expectedIntervalMs?: number): Promise<{
+    liveness: 'online' | 'offline' | 'unknown';
+    uptime_24h: number;
+    uptime_7d: number;
+    uptime_30d: number;
+    expected_interval_ms: number;
+    next_heartbeat_due: number;
+  }> {
+    const response = await this.client.post(`/agents/${agentId}/heartbeat`, {
+      api_key: apiKey,
+      expected_interval_ms: expectedIntervalMs
+    });
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to send heartbeat');
+    }
+
+    return response.data.data;
+  }
+
   // ============================================
   // TRADE LOGGING
   // ============================================
@@ -76,9 +128,12 @@ export class AtracksClient {
     token_out?: string;
     amount_in?: number;
     amount_out?: number;
-    pnl_usd: number;
+    pnl_usd?: number; // Derived from token prices when omitted
     execution_time_ms?: number;
-  }): Promise<{ trade_id: string; total_trades: number; win_rate: string }> {
+    client_trade_id?: string;
+    executed_at?: number;
+    tx_signature?: string;
+  }): Promise<{ trade_id: string; replayed: boolean; verified_onchain: boolean; pnl_usd: number; pnl_suspicious: boolean; total_trades: number; win_rate: string }> {
     const response = await this.client.post('/trades', trade);
     
     if (!response.data.success) {
@@ -90,15 +145,74 @@ export class AtracksClient {
 
   /**
    * Log multiple trades
+   * Sent via the batch endpoint, chunked to the server's batch size limit
    */
-  async logTrades(agentId: string, trades: Array<{ pnl_usd: number; execution_time_ms?: number }>): Promise<void> {
-    for (const trade of trades) {
-      await this.logTrade({
+  async logTrades(
+    agentId: string,
+    apiKey: string,
+    trades: Array<{
+      token_in?: string;
+      token_out?: string;
+      amount_in?: number;
+      amount_out?: number;
+      pnl_usd?: number;
+      execution_time_ms?: number;
+      client_trade_id?: string;
+      executed_at?: number;
+      tx_signature?: string;
+    }>
+  ): Promise<{ trade_ids: string[]; total_trades: number; win_rate: string }> {
+    const tradeIds: string[] = [];
+    let result = { total_trades: 0, win_rate: '0.00%' };
+
+    for (let i = 0; i < trades.length; i += MAX_BATCH_SIZE) {
+      const response = await this.client.post('/trades/batch', {
         agent_id: agentId,
-        pnl_usd: trade.pnl_usd,
-        execution_time_ms: trade.execution_time_ms || 100
+        api_key: apiKey,
+        trades: trades.slice(i, i + MAX_BATCH_SIZE)
       });
+
+      if (!response.data.success) {
+        throw new Error(response.data.error || 'Failed to log trades');
+      }
+
+      tradeIds.push(...response.data.data.trade_ids);
+      result = response.data.data;
     }
+
+    return { trade_ids: tradeIds, total_trades: result.total_trades, win_rate: result.win_rate };
+  }
+
+  /**
+   * Get trade history (owner only), newest first
+   * Pass next_cursor back as cursor to fetch the next page
+   */
+  async getTrades(agentId: string, apiKey: string, query: Partial<TradeQuery> = {}): Promise<TradePage> {
+    const response = await this.client.get(`/agents/${agentId}/trades`, {
+      params: query,
+      headers: { 'X-API-Key': apiKey }
+    });
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to get trades');
+    }
+
+    return { trades: response.data.data, next_cursor: response.data.next_cursor };
+  }
+
+  /**
+   * Get open positions (owner only), marked at current prices
+   */
+  async getPositions(agentId: string, apiKey: string): Promise<AgentPositions> {
+    const response = await this.client.get<AtracksResponse<AgentPositions>>(`/agents/${agentId}/positions`, {
+      headers: { 'X-API-Key': apiKey }
+    });
+
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to get positions');
+    }
+
+    return response.data.data;
   }
 
   // ============================================
@@ -106,10 +220,10 @@ export class AtracksClient {
   // ============================================
 
   /**
-   * Get agent's metrics (private)
+   * Get agent's metrics (private), optionally over a rolling window such as '30d'
    */
-  async getMetrics(agentId: string): Promise<PerformanceMetrics & { win_rate: number }> {
-    const response = await this.client.get(`/metrics/${agentId}`);
+  async getMetrics(agentId: string, window?: string): Promise<PerformanceMetrics & { win_rate: number }> {
+    const response = await this.client.get(`/metrics/${agentId}`, { params: { window } });
     
     if (!response.data.success) {
       throw new Error(response.data.error || 'Failed to get metrics');
@@ -118,6 +232,22 @@ export class AtracksClient {
     return response.data.data;
   }
 
+  /**
+   * Get metrics broken down by token_in/token_out pair (owner only)
+   */
+  async getPairMetrics(agentId: string, apiKey: string, window?: string): Promise<PairMetrics[]> {
+    const response = await this.client.get(`/metrics/${agentId}`, {
+      params: { group_by: 'pair', window },
+      headers: { 'X-API-Key': apiKey }
+    });
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to get pair metrics');
+    }
+
+    return response.data.data.pairs;
+  }
+
   // ============================================
   // REPUTATION PROOFS (Noir ZK)
   // ============================================
@@ -125,25 +255,51 @@ export class AtracksClient {
   /**
    * Generate a win rate proof
    * Proves: "My win rate is above X%" without revealing exact rate
+   * Scope it to a pair ("SOL/USDC") and/or a rolling window ("30d")
    */
-  async proveWinRate(agentId: string, threshold: number): Promise<ReputationProof> {
-    return this.generateProof(agentId, 'win_rate', { threshold });
+  async proveWinRate(agentId: string, threshold: number, scope: ProofScope = {}): Promise<ReputationProof> {
+    return this.generateProof(agentId, 'win_rate', { threshold, pair: scope.pair }, scope.window);
   }
 
   /**
    * Generate a PnL proof
    * Proves: "My PnL is between $X and $Y" without revealing exact amount
    */
-  async provePnL(agentId: string, minPnL: number, maxPnL: number): Promise<ReputationProof> {
-    return this.generateProof(agentId, 'pnl_threshold', { min_pnl: minPnL, max_pnl: maxPnL });
+  async provePnL(agentId: string, minPnL: number, maxPnL: number, scope: ProofScope = {}): Promise<ReputationProof> {
+    return this.generateProof(agentId, 'pnl_threshold', { min_pnl: minPnL, max_pnl: maxPnL, pair: scope.pair }, scope.window);
   }
 
   /**
    * Generate a trade count proof
    * Proves: "I have completed at least N trades" without revealing exact count
    */
-  async proveTradeCount(agentId: string, minTrades: number): Promise<ReputationProof> {
-    return this.generateProof(agentId, 'trade_count', { min_trades: minTrades });
+  async proveTradeCount(agentId: string, minTrades: number, scope: ProofScope = {}): Promise<ReputationProof> {
+    return this.generateProof(agentId, 'trade_count', { min_trades: minTrades, pair: scope.pair }, scope.window);
+  }
+
+  /**
+   * Generate a Sharpe ratio proof
+   * Proves: "My annualized Sharpe ratio is at least X" without revealing exact ratio
+   */
+  async proveSharpe(agentId: string, minSharpe: number, window?: string): Promise<ReputationProof> {
+    return this.generateProof(agentId, 'sharpe_ratio', { min_sharpe: minSharpe }, window);
+  }
+
+  /**
+   * Generate a max drawdown proof
+   * Proves: "My max drawdown never exceeded X bps" without revealing exact drawdown
+   */
+  async proveMaxDrawdown(agentId: string, maxDrawdownBps: number, window?: string): Promise<ReputationProof> {
+    return this.generateProof(agentId, 'max_drawdown', { max_drawdown: maxDrawdownBps }, window);
+  }
+
+  /**
+   * Generate uptime proof
+   * Proves: "My uptime is above X%" without revealing exact uptime. When CAP-402
+   * is unavailable this is a local attestation by the server that cannot be verified
+   */
+  async proveUptime(agentId: string, minUptime: number, window?: string): Promise<ReputationProof> {
+    return this.generateProof(agentId, 'uptime', { min_uptime: minUptime }, window);
   }
 
   /**
@@ -158,9 +314,10 @@ export class AtracksClient {
       min_trades?: number;
       min_sharpe?: number;
       max_drawdown?: number;
-    }
+    },
+    window?: string
   ): Promise<ReputationProof> {
-    return this.generateProof(agentId, 'composite', criteria);
+    return this.generateProof(agentId, 'composite', criteria, window);
   }
 
   /**
@@ -169,12 +326,14 @@ export class AtracksClient {
   private async generateProof(
     agentId: string,
     proofType: ReputationProofType,
-    publicInputs: Record<string, number>
+    publicInputs: ProofPublicInputs,
+    window?: string
   ): Promise<ReputationProof> {
     const response = await this.client.post('/proofs/generate', {
       agent_id: agentId,
       proof_type: proofType,
-      public_inputs: publicInputs
+      public_inputs: publicInputs,
+      window
     });
     
     if (!response.data.success) {
@@ -217,9 +376,11 @@ export class AtracksClient {
   /**
    * Compute verified reputation score
    * Uses Arcium MPC to verify encrypted metrics and proofs
+   * Pass a scoring model ('volume_weighted', or pinned as 'volume_weighted@1') to
+   * pick one other than the server default
    */
-  async verifyReputation(agentId: string): Promise<VerifiedReputation> {
-    const response = await this.client.post('/reputation/verify', { agent_id: agentId });
+  async verifyReputation(agentId: string, model?: string): Promise<VerifiedReputation> {
+    const response = await this.client.post('/reputation/verify', { agent_id: agentId, model });
     
     if (!response.data.success) {
       throw new Error(response.data.error || 'Failed to verify reputation');
@@ -228,6 +389,19 @@ export class AtracksClient {
     return response.data.data;
   }
 
+  /**
+   * List the scoring models reputations can be computed with
+   */
+  async listScoringModels(): Promise<ScoringModelInfo[]> {
+    const response = await this.client.get('/reputation/models');
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to list scoring models');
+    }
+
+    return response.data.data;
+  }
+
   /**
    * Get verified reputation
    */
@@ -241,22 +415,65 @@ export class AtracksClient {
     return response.data.data;
   }
 
+  // ============================================
+  // BADGES
+  // ============================================
+
+  /**
+   * List badges with their rules and holder counts
+   */
+  async listBadges(): Promise<BadgeInfo[]> {
+    const response = await this.client.get('/badges');
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to list badges');
+    }
+
+    return response.data.data;
+  }
+
+  /**
+   * Page through a badge's holders, first to earn it first
+   */
+  async getBadgeHolders(badgeId: string, query: Partial<BadgeHolderQuery> = {}): Promise<BadgeHolderPage> {
+    const response = await this.client.get(`/badges/${encodeURIComponent(badgeId)}/holders`, { params: query });
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to get badge holders');
+    }
+
+    return { holders: response.data.data, next_cursor: response.data.next_cursor };
+  }
+
+  /**
+   * Get an agent's progress towards each badge
+   */
+  async getBadgeProgress(agentId: string): Promise<BadgeProgress[]> {
+    const response = await this.client.get(`/agents/${agentId}/badges`);
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to get badge progress');
+    }
+
+    return response.data.data;
+  }
+
   // ============================================
   // LEADERBOARD
   // ============================================
 
   /**
-   * Get reputation leaderboard
+   * Get a page of the reputation leaderboard
+   * Pass next_cursor back as cursor, with the same sort and filters, for the next page
    */
-  async getLeaderboard(): Promise<Array<{
-    agent_id: string;
-    name: string;
-    tier: string;
-    score: number;
-    badges_count: number;
-  }>> {
-    const response = await this.client.get('/leaderboard');
-    return response.data.data || [];
+  async getLeaderboard(query: Partial<LeaderboardQuery> = {}): Promise<LeaderboardPage> {
+    const response = await this.client.get('/leaderboard', { params: query });
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to get leaderboard');
+    }
+
+    return { entries: response.data.data, next_cursor: response.data.next_cursor };
   }
 
   // ============================================
@@ -16,8 +16,14 @@ import { v4 as uuidv4 } from 'uuid';
 
 import { metricsStore } from './services/metrics-store';
 import { reputationService } from './services/reputation';
+import { tradeVerifier } from './services/trade-verifier';
+import { priceFeed } from './services/price-feed';
+import { resolveWindow } from './utils/metrics-window';
+import { defaultScoringModel, getScoringModel, listScoringModels, scoringModelRef } from './services/scoring-models';
+import { TIER_LEVELS, UNVERIFIED_LEVEL } from './services/classification';
+import { badgeService } from './services/badges';
 import { cap402Client } from './cap402/client';
-import { TradeRecord, ReputationProofRequest, AtracksResponse } from './types';
+import { TradeRecord, ReputationProofRequest, ScoringModelInfo, AtracksResponse } from './types';
 import {
   sanitizeString,
   sanitizeError,
@@ -25,10 +31,19 @@ import {
   getCorsOrigins,
   AgentRegistrationSchema,
   TradeLogSchema,
+  TradeBatchSchema,
+  TradeHistoryQuerySchema,
+  BadgeHolderQuerySchema,
+  LeaderboardQuerySchema,
+  HeartbeatSchema,
   ProofGenerationSchema,
   ReputationVerifySchema,
   ProofVerifySchema,
-  validateUuidParam
+  RecomputeMetricsSchema,
+  ScoringFreezeSchema,
+  MetricsQuerySchema,
+  validateUuidParam,
+  verifyAdminKey
 } from './utils/security';
 import { swaggerSpec } from './swagger';
 
@@ -76,10 +91,17 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'Idempotency-Key']
 }));
 
-app.use(express.json({ limit: '10kb' })); // Limit body size
+// Limit body size - batch ingestion gets a larger limit on its own route
+const BATCH_BODY_PATH = '/trades/batch';
+const jsonParser = express.json({ limit: '10kb' });
+const batchJsonParser = express.json({ limit: '256kb' });
+app.use((req, res, next) => {
+  if (req.path === BATCH_BODY_PATH) return next();
+  jsonParser(req, res, next);
+});
 
 // Production-grade rate limiter middleware
 function rateLimit(maxRequests: number, windowMs: number, blockDurationMs?: number) {
@@ -415,6 +437,15 @@ app.get('/cap402/status', async (_req: Request, res: Response) => {
  *               public_key:
  *                 type: string
  *                 maxLength: 200
+ *               starting_capital_usd:
+ *                 type: number
+ *                 description: Capital the equity curve and drawdown are measured against
+ *                 default: 10000
+ *               cost_basis_method:
+ *                 type: string
+ *                 enum: [fifo, average]
+ *                 description: How sold quantity is matched against open position lots
+ *                 default: fifo
  *     responses:
  *       200:
  *         description: Agent created successfully
@@ -445,8 +476,8 @@ app.post('/agents/register', writeRateLimit, async (req: Request, res: Response)
       return;
     }
 
-    const { name, public_key } = validationResult.data;
-    const agent = await metricsStore.registerAgent(name, public_key);
+    const { name, public_key, starting_capital_usd, cost_basis_method } = validationResult.data;
+    const agent = await metricsStore.registerAgent(name, public_key, starting_capital_usd, cost_basis_method);
     
     const response: AtracksResponse<typeof agent> = {
       success: true,
@@ -546,26 +577,41 @@ app.get('/agents', (_req: Request, res: Response) => {
 });
 
 // ============================================
-// TRADE LOGGING (Updates Encrypted Metrics)
+// HEARTBEATS (Uptime Tracking)
 // ============================================
 
 /**
  * @swagger
- * /trades:
+ * /agents/{agent_id}/heartbeat:
  *   post:
- *     tags: [Trades]
- *     summary: Log a trade
+ *     tags: [Agents]
+ *     summary: Send an agent heartbeat
  *     description: |
- *       Records a trade for an agent. Requires the agent's API key for authentication.
- *       Metrics are automatically updated and encrypted via Inco FHE.
+ *       Records that the agent is alive. Requires the agent's API key.
+ *       Rolling 24h/7d/30d uptime is computed from gaps between heartbeats
+ *       against the interval the agent declares.
+ *     parameters:
+ *       - in: path
+ *         name: agent_id
+ *         required: true
+ *         schema: { type: string, format: uuid }
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
- *           schema: { $ref: '#/components/schemas/TradeLog' }
+ *           schema:
+ *             type: object
+ *             required: [api_key]
+ *             properties:
+ *               api_key: { type: string }
+ *               expected_interval_ms:
+ *                 type: integer
+ *                 minimum: 1000
+ *                 maximum: 86400000
+ *                 description: How often the agent sends heartbeats (default 60000)
  *     responses:
  *       200:
- *         description: Trade logged successfully
+ *         description: Heartbeat recorded
  *         content:
  *           application/json:
  *             schema:
@@ -575,19 +621,27 @@ app.get('/agents', (_req: Request, res: Response) => {
  *                 data:
  *                   type: object
  *                   properties:
- *                     trade_id: { type: string, format: uuid }
- *                     metrics_updated: { type: boolean }
- *                     total_trades: { type: integer }
- *                     win_rate: { type: string }
+ *                     liveness: { type: string, enum: [online, offline, unknown] }
+ *                     uptime_24h: { type: number }
+ *                     uptime_7d: { type: number }
+ *                     uptime_30d: { type: number }
+ *                     expected_interval_ms: { type: integer }
+ *                     next_heartbeat_due: { type: integer }
  *       400:
  *         description: Validation error
  *       403:
  *         description: Invalid API key
  */
-app.post('/trades', writeRateLimit, async (req: Request, res: Response) => {
+app.post('/agents/:agent_id/heartbeat', writeRateLimit, async (req: Request, res: Response) => {
   try {
+    const agentId = validateUuidParam(req.params.agent_id);
+    if (!agentId) {
+      res.status(400).json({ success: false, error: 'Invalid agent ID format', timestamp: Date.now() });
+      return;
+    }
+
     // Validate input with Zod
-    const validationResult = TradeLogSchema.safeParse(req.body);
+    const validationResult = HeartbeatSchema.safeParse(req.body);
     if (!validationResult.success) {
       res.status(400).json({ 
         success: false, 
@@ -597,40 +651,30 @@ app.post('/trades', writeRateLimit, async (req: Request, res: Response) => {
       return;
     }
 
-    const { agent_id, api_key, token_in, token_out, amount_in, amount_out, pnl_usd, execution_time_ms } = validationResult.data;
+    const { api_key, expected_interval_ms } = validationResult.data;
 
-    // Validate API key - only owner can log trades (async bcrypt comparison)
-    const isValidKey = await metricsStore.validateApiKey(agent_id, api_key);
+    // Validate API key - only owner can send heartbeats
+    const isValidKey = await metricsStore.validateApiKey(agentId, api_key);
     if (!isValidKey) {
       res.status(403).json({ 
         success: false, 
-        error: 'Invalid API key - only the agent owner can log trades',
+        error: 'Invalid API key - only the agent owner can send heartbeats',
         timestamp: Date.now()
       });
       return;
     }
 
-    const trade: TradeRecord = {
-      trade_id: uuidv4(),
-      agent_id,
-      timestamp: Date.now(),
-      token_in,
-      token_out,
-      amount_in,
-      amount_out,
-      pnl_usd,
-      execution_time_ms
-    };
-
-    const updatedMetrics = await metricsStore.logTrade(trade);
+    const result = await metricsStore.recordHeartbeat(agentId, expected_interval_ms);
 
     res.json({
       success: true,
       data: {
-        trade_id: trade.trade_id,
-        metrics_updated: true,
-        total_trades: updatedMetrics.total_trades,
-        win_rate: metricsStore.getWinRate(agent_id).toFixed(2) + '%'
+        liveness: metricsStore.getLiveness(agentId),
+        uptime_24h: result.metrics.uptime_24h,
+        uptime_7d: result.metrics.uptime_7d,
+        uptime_30d: result.metrics.uptime_percentage,
+        expected_interval_ms: result.expected_interval_ms,
+        next_heartbeat_due: Date.now() + result.expected_interval_ms
       },
       timestamp: Date.now()
     });
@@ -644,152 +688,98 @@ app.post('/trades', writeRateLimit, async (req: Request, res: Response) => {
 });
 
 // ============================================
-// METRICS (Private - Agent's Own Data)
+// TRADE LOGGING (Updates Encrypted Metrics)
 // ============================================
 
-/**
- * @swagger
- * /metrics/{agent_id}:
- *   get:
- *     tags: [Metrics]
- *     summary: Get agent metrics
- *     description: Returns raw performance metrics for an agent
- *     parameters:
- *       - in: path
- *         name: agent_id
- *         required: true
- *         schema: { type: string, format: uuid }
- *     responses:
- *       200:
- *         description: Agent metrics
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success: { type: boolean }
- *                 data: { $ref: '#/components/schemas/Metrics' }
- *       404:
- *         description: Agent not found
- */
-app.get('/metrics/:agent_id', (req: Request, res: Response) => {
-  const agentId = validateUuidParam(req.params.agent_id);
-  if (!agentId) {
-    res.status(400).json({ success: false, error: 'Invalid agent ID format', timestamp: Date.now() });
-    return;
-  }
-
-  const metrics = metricsStore.getMetrics(agentId);
-  
-  if (!metrics) {
-    res.status(404).json({ success: false, error: 'Agent not found', timestamp: Date.now() });
-    return;
-  }
-
-  res.json({
-    success: true,
-    data: {
-      agent_id: agentId,
-      ...metrics,
-      win_rate: metricsStore.getWinRate(agentId)
-    },
-    timestamp: Date.now()
-  });
-});
-
-/**
- * @swagger
- * /metrics/{agent_id}/encrypted:
- *   get:
- *     tags: [Metrics]
- *     summary: Get encrypted metrics
- *     description: Returns FHE-encrypted metrics that can be shared without revealing raw data
- *     parameters:
- *       - in: path
- *         name: agent_id
- *         required: true
- *         schema: { type: string, format: uuid }
- *     responses:
- *       200:
- *         description: Encrypted metrics
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success: { type: boolean }
- *                 data: { $ref: '#/components/schemas/EncryptedMetrics' }
- *       404:
- *         description: Encrypted metrics not found
- */
-app.get('/metrics/:agent_id/encrypted', (req: Request, res: Response) => {
-  const agentId = validateUuidParam(req.params.agent_id);
-  if (!agentId) {
-    res.status(400).json({ success: false, error: 'Invalid agent ID format', timestamp: Date.now() });
-    return;
-  }
-
-  const encrypted = metricsStore.getEncryptedMetrics(agentId);
-  
-  if (!encrypted) {
-    res.status(404).json({ success: false, error: 'Encrypted metrics not found', timestamp: Date.now() });
-    return;
-  }
-
-  res.json({
-    success: true,
-    data: encrypted,
-    timestamp: Date.now()
-  });
-});
-
-// ============================================
-// REPUTATION PROOFS (Noir ZK)
-// ============================================
+// POST /trades response for a trade as stored
+function tradeLogResult(trade: TradeRecord, replayed: boolean, verificationError?: string) {
+  return {
+    trade_id: trade.trade_id,
+    client_trade_id: trade.client_trade_id,
+    replayed,
+    verified_onchain: trade.verified_onchain,
+    pnl_usd: trade.pnl_usd,
+    derived_pnl_usd: trade.derived_pnl_usd,
+    pnl_suspicious: trade.pnl_suspicious,
+    verification_error: verificationError,
+    metrics_updated: !replayed,
+    total_trades: metricsStore.getMetrics(trade.agent_id)!.total_trades,
+    win_rate: metricsStore.getWinRate(trade.agent_id).toFixed(2) + '%'
+  };
+}
 
 /**
  * @swagger
- * /proofs/generate:
+ * /trades:
  *   post:
- *     tags: [Proofs]
- *     summary: Generate a ZK proof
+ *     tags: [Trades]
+ *     summary: Log a trade
  *     description: |
- *       Generates a zero-knowledge proof for an agent's performance metrics using Noir.
- *       The proof can be shared publicly without revealing the underlying data.
+ *       Records a trade for an agent. Requires the agent's API key for authentication.
+ *       Metrics are automatically updated and encrypted via Inco FHE.
+ *       Pass client_trade_id (or an Idempotency-Key header) to make retries safe -
+ *       a replayed ID returns the original trade without counting it twice.
+ *       Pass executed_at to backfill history; out-of-order trades trigger a metrics recompute.
+ *       Pass tx_signature to have tokens and amounts checked against the transaction -
+ *       verified trades carry more weight in the reputation score.
+ *       pnl_usd may be omitted when both amounts are given - it is then derived from
+ *       token prices at execution time. Reported PnL far from that is flagged pnl_suspicious.
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema: { type: string, maxLength: 128 }
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
- *           schema:
- *             type: object
- *             required: [agent_id, proof_type]
- *             properties:
- *               agent_id: { type: string, format: uuid }
- *               proof_type:
- *                 type: string
- *                 enum: [win_rate, pnl_threshold, trade_count, sharpe_ratio, max_drawdown, uptime, composite]
- *               public_inputs:
- *                 type: object
- *                 example: { threshold: 60 }
+ *           schema: { $ref: '#/components/schemas/TradeLog' }
  *     responses:
  *       200:
- *         description: Proof generated
+ *         description: Trade logged successfully
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
  *                 success: { type: boolean }
- *                 data: { $ref: '#/components/schemas/ReputationProof' }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     trade_id: { type: string, format: uuid }
+ *                     client_trade_id: { type: string }
+ *                     replayed: { type: boolean, description: True if client_trade_id was already logged }
+ *                     verified_onchain: { type: boolean }
+ *                     verification_error: { type: string, description: Why tx_signature did not verify }
+ *                     pnl_usd: { type: number }
+ *                     derived_pnl_usd: { type: number, description: Mark-to-market PnL from execution-time prices }
+ *                     pnl_suspicious: { type: boolean, description: Reported PnL disagrees with derived PnL }
+ *                     metrics_updated: { type: boolean }
+ *                     total_trades: { type: integer }
+ *                     win_rate: { type: string }
  *       400:
  *         description: Validation error
- *       404:
- *         description: Agent not found
+ *       403:
+ *         description: Invalid API key
  */
-app.post('/proofs/generate', writeRateLimit, async (req: Request, res: Response) => {
+app.post('/trades', writeRateLimit, async (req: Request, res: Response) => {
   try {
+    // Idempotency key may come from the body or the Idempotency-Key header
+    const idempotencyKey = req.header('Idempotency-Key');
+    const bodyTradeId = req.body?.client_trade_id;
+    if (idempotencyKey && bodyTradeId && idempotencyKey !== bodyTradeId) {
+      res.status(400).json({ 
+        success: false, 
+        error: 'Idempotency-Key header does not match client_trade_id',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
     // Validate input with Zod
-    const validationResult = ProofGenerationSchema.safeParse(req.body);
+    const validationResult = TradeLogSchema.safeParse({
+      ...req.body,
+      client_trade_id: bodyTradeId ?? idempotencyKey
+    });
     if (!validationResult.success) {
       res.status(400).json({ 
         success: false, 
@@ -799,30 +789,73 @@ app.post('/proofs/generate', writeRateLimit, async (req: Request, res: Response)
       return;
     }
 
-    const { agent_id, proof_type, public_inputs } = validationResult.data;
+    const { agent_id, api_key, token_in, token_out, amount_in, amount_out, pnl_usd, execution_time_ms, client_trade_id, executed_at, tx_signature } = validationResult.data;
 
-    // Verify agent exists
-    const agent = metricsStore.getAgent(agent_id);
-    if (!agent) {
-      res.status(404).json({
-        success: false,
-        error: 'Agent not found',
+    // Validate API key - only owner can log trades (async bcrypt comparison)
+    const isValidKey = await metricsStore.validateApiKey(agent_id, api_key);
+    if (!isValidKey) {
+      res.status(403).json({ 
+        success: false, 
+        error: 'Invalid API key - only the agent owner can log trades',
         timestamp: Date.now()
       });
       return;
     }
 
-    const request: ReputationProofRequest = {
+    // A retry returns the original trade before it is priced or checked on-chain again
+    const original = client_trade_id ? metricsStore.findTradeByClientId(agent_id, client_trade_id) : undefined;
+    if (original) {
+      res.json({ success: true, data: tradeLogResult(original, true), timestamp: Date.now() });
+      return;
+    }
+
+    // Without a reported PnL, it is derived from token prices at execution time
+    const timestamp = executed_at ?? Date.now();
+    const marked = await priceFeed.markToMarket({ token_in, token_out, amount_in, amount_out, pnl_usd }, timestamp);
+    if (marked.pnl_usd === null) {
+      res.status(400).json({ 
+        success: false, 
+        error: 'pnl_usd is required when it cannot be derived from token prices',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    // Trades that name their transaction are checked against it; anything unconfirmed stays unverified
+    const verification = tx_signature
+      ? await tradeVerifier.verify(
+          { tx_signature, token_in, token_out, amount_in, amount_out, executed_at: timestamp },
+          metricsStore.getAgent(agent_id)?.public_key
+        )
+      : null;
+
+    const trade: TradeRecord = {
+      trade_id: uuidv4(),
       agent_id,
-      proof_type,
-      public_inputs
+      timestamp,
+      token_in,
+      token_out,
+      amount_in,
+      amount_out,
+      pnl_usd: marked.pnl_usd,
+      reported_pnl_usd: marked.reported_pnl_usd,
+      derived_pnl_usd: marked.derived_pnl_usd,
+      pnl_suspicious: marked.pnl_suspicious,
+      notional_usd: marked.notional_usd,
+      price_source: marked.price_source,
+      execution_time_ms,
+      client_trade_id,
+      tx_signature,
+      verified_onchain: verification?.verified ?? false
     };
 
-    const proof = await reputationService.generateProof(request);
+    // A concurrent retry that got in first still resolves to its trade without re-applying this one
+    const result = await metricsStore.logTrade(trade);
+    const replayed = result.replayed > 0;
 
     res.json({
       success: true,
-      data: proof,
+      data: tradeLogResult(result.trades[0], replayed, replayed ? undefined : verification?.reason),
       timestamp: Date.now()
     });
   } catch (error) {
@@ -836,23 +869,43 @@ app.post('/proofs/generate', writeRateLimit, async (req: Request, res: Response)
 
 /**
  * @swagger
- * /proofs/verify:
+ * /trades/batch:
  *   post:
- *     tags: [Proofs]
- *     summary: Verify a ZK proof
- *     description: Verifies a previously generated zero-knowledge proof
+ *     tags: [Trades]
+ *     summary: Log a batch of trades
+ *     description: |
+ *       Records up to 500 trades in one request. The API key is checked once,
+ *       trades are stored in a single transaction, and the encrypted PnL is
+ *       updated with one FHE call. Counts as a single write against the rate limit.
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
- *             required: [proof_id]
+ *             required: [agent_id, api_key, trades]
  *             properties:
- *               proof_id: { type: string, format: uuid }
+ *               agent_id: { type: string, format: uuid }
+ *               api_key: { type: string }
+ *               trades:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 500
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     token_in: { type: string, default: SOL }
+ *                     token_out: { type: string, default: USDC }
+ *                     amount_in: { type: number, default: 0 }
+ *                     amount_out: { type: number, default: 0 }
+ *                     pnl_usd: { type: number, description: Derived from token prices when omitted }
+ *                     execution_time_ms: { type: integer, default: 100 }
+ *                     client_trade_id: { type: string, maxLength: 128 }
+ *                     executed_at: { type: integer, description: Unix timestamp (ms); defaults to now }
+ *                     tx_signature: { type: string }
  *     responses:
  *       200:
- *         description: Verification result
+ *         description: Trades logged successfully
  *         content:
  *           application/json:
  *             schema:
@@ -862,13 +915,23 @@ app.post('/proofs/generate', writeRateLimit, async (req: Request, res: Response)
  *                 data:
  *                   type: object
  *                   properties:
- *                     valid: { type: boolean }
- *                     verification_proof: { type: string }
+ *                     trade_ids: { type: array, items: { type: string, format: uuid } }
+ *                     accepted: { type: integer }
+ *                     replayed: { type: integer, description: Trades skipped because their client_trade_id was already logged }
+ *                     verified: { type: integer, description: Trades confirmed against their tx_signature }
+ *                     suspicious: { type: integer, description: Trades whose reported PnL disagrees with derived PnL }
+ *                     metrics_updated: { type: boolean }
+ *                     total_trades: { type: integer }
+ *                     win_rate: { type: string }
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Invalid API key
  */
-app.post('/proofs/verify', writeRateLimit, async (req: Request, res: Response) => {
+app.post('/trades/batch', writeRateLimit, batchJsonParser, async (req: Request, res: Response) => {
   try {
     // Validate input with Zod
-    const validationResult = ProofVerifySchema.safeParse(req.body);
+    const validationResult = TradeBatchSchema.safeParse(req.body);
     if (!validationResult.success) {
       res.status(400).json({ 
         success: false, 
@@ -878,22 +941,635 @@ app.post('/proofs/verify', writeRateLimit, async (req: Request, res: Response) =
       return;
     }
 
-    const { proof_id } = validationResult.data;
-    const result = await reputationService.verifyProof(proof_id);
-
-    res.json({
-      success: true,
-      data: result,
-      timestamp: Date.now()
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: sanitizeError(error),
-      timestamp: Date.now()
-    });
-  }
-});
+    const { agent_id, api_key, trades } = validationResult.data;
+
+    // Validate API key once for the whole batch
+    const isValidKey = await metricsStore.validateApiKey(agent_id, api_key);
+    if (!isValidKey) {
+      res.status(403).json({ 
+        success: false, 
+        error: 'Invalid API key - only the agent owner can log trades',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    // Items already logged under their client_trade_id resolve to the stored trade, unpriced and unchecked
+    const originals = trades.map((trade) => trade.client_trade_id
+      ? metricsStore.findTradeByClientId(agent_id, trade.client_trade_id)
+      : undefined);
+
+    // Items without a reported PnL get it from token prices; the batch is rejected if any can't
+    const now = Date.now();
+    const marks = await Promise.all(trades.map((trade, i) => originals[i]
+      ? null
+      : priceFeed.markToMarket(trade, trade.executed_at ?? now)));
+    const unpriced = marks.findIndex((marked) => marked !== null && marked.pnl_usd === null);
+    if (unpriced !== -1) {
+      res.status(400).json({ 
+        success: false, 
+        error: `trades[${unpriced}]: pnl_usd is required when it cannot be derived from token prices`,
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    // Items that name their transaction are checked against it, a few lookups at a time
+    const verifications = await tradeVerifier.verifyAll(
+      trades.map((trade, i) => trade.tx_signature && !originals[i]
+        ? { ...trade, tx_signature: trade.tx_signature, executed_at: trade.executed_at ?? now }
+        : null),
+      metricsStore.getAgent(agent_id)?.public_key
+    );
+    const records: TradeRecord[] = trades.map(({ executed_at, ...trade }, i) => originals[i] ?? {
+      trade_id: uuidv4(),
+      agent_id,
+      timestamp: executed_at ?? now,
+      ...trade,
+      pnl_usd: marks[i]!.pnl_usd!,
+      reported_pnl_usd: marks[i]!.reported_pnl_usd,
+      derived_pnl_usd: marks[i]!.derived_pnl_usd,
+      pnl_suspicious: marks[i]!.pnl_suspicious,
+      notional_usd: marks[i]!.notional_usd,
+      price_source: marks[i]!.price_source,
+      verified_onchain: verifications[i]?.verified ?? false
+    });
+
+    // Repeats within the batch, and retries that got in first, resolve to the stored trade
+    const result = await metricsStore.logTrades(agent_id, records);
+
+    res.json({
+      success: true,
+      data: {
+        trade_ids: result.trades.map((trade) => trade.trade_id),
+        accepted: records.length - result.replayed,
+        replayed: result.replayed,
+        verified: result.trades.filter((trade) => trade.verified_onchain).length,
+        suspicious: result.trades.filter((trade) => trade.pnl_suspicious).length,
+        metrics_updated: result.replayed < records.length,
+        total_trades: result.metrics.total_trades,
+        win_rate: metricsStore.getWinRate(agent_id).toFixed(2) + '%'
+      },
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: sanitizeError(error),
+      timestamp: Date.now()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /agents/{agent_id}/trades:
+ *   get:
+ *     tags: [Trades]
+ *     summary: Get trade history
+ *     description: |
+ *       Returns the agent's trades, newest first. Only the agent owner can read
+ *       trade history - pass the API key in the X-API-Key header. Pass
+ *       next_cursor back as cursor to fetch the next page.
+ *     parameters:
+ *       - in: path
+ *         name: agent_id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *       - in: header
+ *         name: X-API-Key
+ *         required: true
+ *         schema: { type: string }
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, minimum: 1, maximum: 200, default: 50 }
+ *       - in: query
+ *         name: cursor
+ *         schema: { type: string }
+ *       - in: query
+ *         name: from
+ *         description: Earliest trade timestamp (ms, inclusive)
+ *         schema: { type: integer }
+ *       - in: query
+ *         name: to
+ *         description: Latest trade timestamp (ms, inclusive)
+ *         schema: { type: integer }
+ *       - in: query
+ *         name: token_in
+ *         schema: { type: string }
+ *       - in: query
+ *         name: token_out
+ *         schema: { type: string }
+ *       - in: query
+ *         name: outcome
+ *         description: win (pnl_usd > 0) or loss (pnl_usd <= 0)
+ *         schema: { type: string, enum: [win, loss] }
+ *     responses:
+ *       200:
+ *         description: A page of trades
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: array
+ *                   items: { $ref: '#/components/schemas/Trade' }
+ *                 next_cursor: { type: string, nullable: true }
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Invalid API key
+ */
+app.get('/agents/:agent_id/trades', async (req: Request, res: Response) => {
+  try {
+    const agentId = validateUuidParam(req.params.agent_id);
+    if (!agentId) {
+      res.status(400).json({ success: false, error: 'Invalid agent ID format', timestamp: Date.now() });
+      return;
+    }
+
+    // Validate query with Zod
+    const validationResult = TradeHistoryQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      res.status(400).json({ 
+        success: false, 
+        error: sanitizeError(validationResult.error),
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    // Validate API key - only owner can read trade history
+    const apiKey = req.header('X-API-Key');
+    const isValidKey = apiKey ? await metricsStore.validateApiKey(agentId, apiKey) : false;
+    if (!isValidKey) {
+      res.status(403).json({ 
+        success: false, 
+        error: 'Invalid API key - only the agent owner can view trade history',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const page = metricsStore.queryTrades(agentId, validationResult.data);
+
+    res.json({
+      success: true,
+      data: page.trades,
+      next_cursor: page.next_cursor,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: sanitizeError(error),
+      timestamp: Date.now()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /agents/{agent_id}/positions:
+ *   get:
+ *     tags: [Trades]
+ *     summary: Get open positions
+ *     description: |
+ *       Returns the agent's open positions by token, built from trade flows with
+ *       the agent's cost basis method (FIFO or average cost) and marked at current
+ *       prices. USDC/USDT count as cash. Only the agent owner can read positions -
+ *       pass the API key in the X-API-Key header.
+ *     parameters:
+ *       - in: path
+ *         name: agent_id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *       - in: header
+ *         name: X-API-Key
+ *         required: true
+ *         schema: { type: string }
+ *     responses:
+ *       200:
+ *         description: Open positions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     method: { type: string, enum: [fifo, average] }
+ *                     positions:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           token: { type: string }
+ *                           quantity: { type: number }
+ *                           avg_cost_usd: { type: number }
+ *                           cost_usd: { type: number }
+ *                           price_usd: { type: number }
+ *                           market_value_usd: { type: number }
+ *                           unrealized_pnl_usd: { type: number }
+ *                           lots: { type: integer }
+ *                     realized_pnl_usd: { type: number }
+ *                     unrealized_pnl_usd: { type: number }
+ *                     priced_at: { type: integer }
+ *       400:
+ *         description: Invalid agent ID
+ *       403:
+ *         description: Invalid API key
+ */
+app.get('/agents/:agent_id/positions', async (req: Request, res: Response) => {
+  try {
+    const agentId = validateUuidParam(req.params.agent_id);
+    if (!agentId) {
+      res.status(400).json({ success: false, error: 'Invalid agent ID format', timestamp: Date.now() });
+      return;
+    }
+
+    // Validate API key - only owner can read positions
+    const apiKey = req.header('X-API-Key');
+    const isValidKey = apiKey ? await metricsStore.validateApiKey(agentId, apiKey) : false;
+    if (!isValidKey) {
+      res.status(403).json({ 
+        success: false, 
+        error: 'Invalid API key - only the agent owner can view positions',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const positions = await metricsStore.getPositions(agentId);
+    if (!positions) {
+      res.status(404).json({ success: false, error: 'Agent not found', timestamp: Date.now() });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: positions,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: sanitizeError(error),
+      timestamp: Date.now()
+    });
+  }
+});
+
+// ============================================
+// METRICS (Private - Agent's Own Data)
+// ============================================
+
+/**
+ * @swagger
+ * /metrics/{agent_id}:
+ *   get:
+ *     tags: [Metrics]
+ *     summary: Get agent metrics
+ *     description: |
+ *       Returns raw performance metrics for an agent. With group_by=pair the
+ *       response also breaks trades, win rate, PnL and execution time down by
+ *       token_in/token_out pair - only the agent owner can read the breakdown,
+ *       so pass the API key in the X-API-Key header. With window (7d, 30d, 90d
+ *       or a custom '<n>d' / '<n>h') only trades from that rolling period count.
+ *     parameters:
+ *       - in: path
+ *         name: agent_id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *       - in: query
+ *         name: group_by
+ *         schema: { type: string, enum: [pair] }
+ *       - in: query
+ *         name: window
+ *         schema: { type: string, example: 30d }
+ *       - in: header
+ *         name: X-API-Key
+ *         schema: { type: string }
+ *         description: Required with group_by
+ *     responses:
+ *       200:
+ *         description: Agent metrics
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/Metrics'
+ *                     - type: object
+ *                       properties:
+ *                         period:
+ *                           type: object
+ *                           description: Only with window
+ *                           properties:
+ *                             window: { type: string }
+ *                             from: { type: integer }
+ *                             to: { type: integer }
+ *                         pairs:
+ *                           type: array
+ *                           description: Only with group_by=pair, most traded first
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               pair: { type: string, example: SOL/USDC }
+ *                               token_in: { type: string }
+ *                               token_out: { type: string }
+ *                               total_trades: { type: integer }
+ *                               winning_trades: { type: integer }
+ *                               win_rate: { type: number }
+ *                               total_pnl_usd: { type: number }
+ *                               avg_execution_time_ms: { type: number }
+ *       400:
+ *         description: Invalid agent ID or query
+ *       403:
+ *         description: Invalid API key
+ *       404:
+ *         description: Agent not found
+ */
+app.get('/metrics/:agent_id', async (req: Request, res: Response) => {
+  try {
+    const agentId = validateUuidParam(req.params.agent_id);
+    if (!agentId) {
+      res.status(400).json({ success: false, error: 'Invalid agent ID format', timestamp: Date.now() });
+      return;
+    }
+
+    const validationResult = MetricsQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      res.status(400).json({ 
+        success: false, 
+        error: sanitizeError(validationResult.error),
+        timestamp: Date.now()
+      });
+      return;
+    }
+    const { group_by, window } = validationResult.data;
+
+    // Validate API key - only owner can read the per-pair breakdown
+    if (group_by) {
+      const apiKey = req.header('X-API-Key');
+      const isValidKey = apiKey ? await metricsStore.validateApiKey(agentId, apiKey) : false;
+      if (!isValidKey) {
+        res.status(403).json({ 
+          success: false, 
+          error: 'Invalid API key - only the agent owner can view grouped metrics',
+          timestamp: Date.now()
+        });
+        return;
+      }
+    }
+
+    const period = window ? resolveWindow(window, Date.now()) : undefined;
+    const metrics = period
+      ? metricsStore.getWindowedMetrics(agentId, period)
+      : metricsStore.getMetrics(agentId);
+    
+    if (!metrics) {
+      res.status(404).json({ success: false, error: 'Agent not found', timestamp: Date.now() });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        agent_id: agentId,
+        ...metrics,
+        win_rate: metrics.total_trades > 0 ? (metrics.winning_trades / metrics.total_trades) * 100 : 0,
+        liveness: metricsStore.getLiveness(agentId),
+        ...(period && { period }),
+        ...(group_by === 'pair' && { pairs: metricsStore.getPairMetrics(agentId, period) })
+      },
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: sanitizeError(error),
+      timestamp: Date.now()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /metrics/{agent_id}/encrypted:
+ *   get:
+ *     tags: [Metrics]
+ *     summary: Get encrypted metrics
+ *     description: Returns FHE-encrypted metrics that can be shared without revealing raw data
+ *     parameters:
+ *       - in: path
+ *         name: agent_id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Encrypted metrics
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data: { $ref: '#/components/schemas/EncryptedMetrics' }
+ *       404:
+ *         description: Encrypted metrics not found
+ */
+app.get('/metrics/:agent_id/encrypted', (req: Request, res: Response) => {
+  const agentId = validateUuidParam(req.params.agent_id);
+  if (!agentId) {
+    res.status(400).json({ success: false, error: 'Invalid agent ID format', timestamp: Date.now() });
+    return;
+  }
+
+  const encrypted = metricsStore.getEncryptedMetrics(agentId);
+  
+  if (!encrypted) {
+    res.status(404).json({ success: false, error: 'Encrypted metrics not found', timestamp: Date.now() });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: encrypted,
+    timestamp: Date.now()
+  });
+});
+
+// ============================================
+// REPUTATION PROOFS (Noir ZK)
+// ============================================
+
+/**
+ * @swagger
+ * /proofs/generate:
+ *   post:
+ *     tags: [Proofs]
+ *     summary: Generate a ZK proof
+ *     description: |
+ *       Generates a zero-knowledge proof for an agent's performance metrics using Noir.
+ *       The proof can be shared publicly without revealing the underlying data.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [agent_id, proof_type]
+ *             properties:
+ *               agent_id: { type: string, format: uuid }
+ *               proof_type:
+ *                 type: string
+ *                 enum: [win_rate, pnl_threshold, trade_count, sharpe_ratio, max_drawdown, uptime, composite]
+ *               public_inputs:
+ *                 type: object
+ *                 description: |
+ *                   Numeric bounds for the proof type. win_rate, pnl_threshold and
+ *                   trade_count proofs also accept a pair ("TOKEN_IN/TOKEN_OUT") to
+ *                   prove that market's metrics instead of the agent's overall ones.
+ *                 example: { threshold: 60, pair: SOL/USDC }
+ *               window:
+ *                 type: string
+ *                 description: |
+ *                   Prove over a rolling period ending now (7d, 30d, 90d or a custom
+ *                   '<n>d' / '<n>h') instead of lifetime metrics. The period is
+ *                   recorded in the proof's public_outputs.window.
+ *                 example: 30d
+ *     responses:
+ *       200:
+ *         description: Proof generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data: { $ref: '#/components/schemas/ReputationProof' }
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Agent not found
+ */
+app.post('/proofs/generate', writeRateLimit, async (req: Request, res: Response) => {
+  try {
+    // Validate input with Zod
+    const validationResult = ProofGenerationSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      res.status(400).json({ 
+        success: false, 
+        error: sanitizeError(validationResult.error),
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const { agent_id, proof_type, public_inputs, window } = validationResult.data;
+
+    // Verify agent exists
+    const agent = metricsStore.getAgent(agent_id);
+    if (!agent) {
+      res.status(404).json({
+        success: false,
+        error: 'Agent not found',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const request: ReputationProofRequest = {
+      agent_id,
+      proof_type,
+      public_inputs,
+      window
+    };
+
+    const proof = await reputationService.generateProof(request);
+
+    res.json({
+      success: true,
+      data: proof,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: sanitizeError(error),
+      timestamp: Date.now()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /proofs/verify:
+ *   post:
+ *     tags: [Proofs]
+ *     summary: Verify a ZK proof
+ *     description: Verifies a previously generated zero-knowledge proof
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [proof_id]
+ *             properties:
+ *               proof_id: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Verification result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     valid: { type: boolean }
+ *                     verification_proof: { type: string }
+ */
+app.post('/proofs/verify', writeRateLimit, async (req: Request, res: Response) => {
+  try {
+    // Validate input with Zod
+    const validationResult = ProofVerifySchema.safeParse(req.body);
+    if (!validationResult.success) {
+      res.status(400).json({ 
+        success: false, 
+        error: sanitizeError(validationResult.error),
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const { proof_id } = validationResult.data;
+    const result = await reputationService.verifyProof(proof_id);
+
+    res.json({
+      success: true,
+      data: result,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: sanitizeError(error),
+      timestamp: Date.now()
+    });
+  }
+});
 
 /**
  * @swagger
@@ -997,6 +1673,12 @@ app.get('/agents/:agent_id/proofs', (req: Request, res: Response) => {
  *     description: |
  *       Computes a verified reputation score for an agent using Arcium MPC.
  *       The score is computed from encrypted metrics without revealing raw data.
+ *       Trades flagged as anomalous (micro trades, repeats, bursts, round trips)
+ *       are left out, and scoring is refused while it is frozen pending review.
+ *       model picks the scoring model by model_id@version, or by model_id for its
+ *       latest version (see GET /reputation/models). Defaults to
+ *       REPUTATION_SCORING_MODEL, else trade_count@2. The result records the
+ *       model_id@version that produced it as scoring_model.
  *     requestBody:
  *       required: true
  *       content:
@@ -1006,6 +1688,7 @@ app.get('/agents/:agent_id/proofs', (req: Request, res: Response) => {
  *             required: [agent_id]
  *             properties:
  *               agent_id: { type: string, format: uuid }
+ *               model: { type: string, example: volume_weighted@1 }
  *     responses:
  *       200:
  *         description: Verified reputation
@@ -1018,6 +1701,8 @@ app.get('/agents/:agent_id/proofs', (req: Request, res: Response) => {
  *                 data: { $ref: '#/components/schemas/VerifiedReputation' }
  *       404:
  *         description: Agent not found
+ *       423:
+ *         description: Reputation scoring is frozen pending review
  */
 app.post('/reputation/verify', writeRateLimit, async (req: Request, res: Response) => {
   try {
@@ -1032,7 +1717,12 @@ app.post('/reputation/verify', writeRateLimit, async (req: Request, res: Respons
       return;
     }
 
-    const { agent_id } = validationResult.data;
+    const { agent_id, model } = validationResult.data;
+    const scoringModel = model ? getScoringModel(model) : undefined;
+    if (model && !scoringModel) {
+      res.status(400).json({ success: false, error: 'Unknown scoring model', timestamp: Date.now() });
+      return;
+    }
 
     // Verify agent exists
     const agent = metricsStore.getAgent(agent_id);
@@ -1045,29 +1735,272 @@ app.post('/reputation/verify', writeRateLimit, async (req: Request, res: Respons
       return;
     }
 
-    const verified = await reputationService.computeVerifiedReputation(agent_id);
+    if (metricsStore.getScoringStatus(agent_id) === 'frozen') {
+      res.status(423).json({
+        success: false,
+        error: 'Reputation scoring is frozen pending review of flagged trades',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const verified = await reputationService.computeVerifiedReputation(
+      agent_id,
+      scoringModel
+    );
+
+    res.json({
+      success: true,
+      data: verified,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: sanitizeError(error),
+      timestamp: Date.now()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /reputation/models:
+ *   get:
+ *     tags: [Reputation]
+ *     summary: List scoring models
+ *     description: |
+ *       Every registered reputation scoring model with its weights and tier
+ *       thresholds. A model_id@version never changes once published, so a
+ *       reputation's scoring_model always identifies how it was scored.
+ *     responses:
+ *       200:
+ *         description: Scoring models
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: array
+ *                   items: { $ref: '#/components/schemas/ScoringModel' }
+ */
+app.get('/reputation/models', (_req: Request, res: Response) => {
+  const defaultModel = scoringModelRef(defaultScoringModel());
+  const models: ScoringModelInfo[] = listScoringModels().map((model) => ({
+    model: scoringModelRef(model),
+    id: model.id,
+    version: model.version,
+    description: model.description,
+    weights: model.weights,
+    unverified_trade_weight: model.unverified_trade_weight,
+    tiers: model.tiers,
+    default: scoringModelRef(model) === defaultModel
+  }));
+
+  res.json({
+    success: true,
+    data: models,
+    timestamp: Date.now()
+  });
+});
+
+/**
+ * @swagger
+ * /reputation/{agent_id}:
+ *   get:
+ *     tags: [Reputation]
+ *     summary: Get verified reputation
+ *     description: Returns the verified reputation for an agent (must call POST /reputation/verify first)
+ *     parameters:
+ *       - in: path
+ *         name: agent_id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Verified reputation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data: { $ref: '#/components/schemas/VerifiedReputation' }
+ *       404:
+ *         description: No verified reputation found
+ */
+app.get('/reputation/:agent_id', (req: Request, res: Response) => {
+  const agentId = validateUuidParam(req.params.agent_id);
+  if (!agentId) {
+    res.status(400).json({ success: false, error: 'Invalid agent ID format', timestamp: Date.now() });
+    return;
+  }
+
+  const verified = reputationService.getVerifiedReputation(agentId);
+  
+  if (!verified) {
+    res.status(404).json({ 
+      success: false, 
+      error: 'No verified reputation found. Call POST /reputation/verify first.',
+      timestamp: Date.now()
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: verified,
+    timestamp: Date.now()
+  });
+});
+
+/**
+ * @swagger
+ * /tiers:
+ *   get:
+ *     tags: [Reputation]
+ *     summary: List reputation tiers
+ *     description: |
+ *       The classification every tier and star rating comes from, highest first.
+ *       An agent gets the highest tier whose score cutoff and track record
+ *       requirements it meets. Scoring models may set their own score cutoffs
+ *       (see GET /reputation/models); min_score here is the default.
+ *     responses:
+ *       200:
+ *         description: Tiers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: array
+ *                   items: { $ref: '#/components/schemas/TierLevel' }
+ */
+app.get('/tiers', (_req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: [...TIER_LEVELS, UNVERIFIED_LEVEL],
+    timestamp: Date.now()
+  });
+});
+
+// ============================================
+// BADGES (Public)
+// ============================================
+
+/**
+ * @swagger
+ * /badges:
+ *   get:
+ *     tags: [Badges]
+ *     summary: List badges
+ *     description: |
+ *       Every badge with the rule it is awarded on and how many agents hold it.
+ *       Badges are awarded and revoked when a reputation is verified.
+ *     responses:
+ *       200:
+ *         description: Badges
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: array
+ *                   items: { $ref: '#/components/schemas/BadgeInfo' }
+ *                 count: { type: integer }
+ */
+app.get('/badges', (_req: Request, res: Response) => {
+  const badges = badgeService.listBadges();
+
+  res.json({
+    success: true,
+    data: badges,
+    count: badges.length,
+    timestamp: Date.now()
+  });
+});
 
-    res.json({
-      success: true,
-      data: verified,
-      timestamp: Date.now()
-    });
-  } catch (error) {
-    res.status(500).json({
+/**
+ * @swagger
+ * /badges/{badge_id}/holders:
+ *   get:
+ *     tags: [Badges]
+ *     summary: List a badge's holders
+ *     description: |
+ *       Agents holding the badge now, first to earn it first. Pass next_cursor
+ *       back as cursor to fetch the next page.
+ *     parameters:
+ *       - in: path
+ *         name: badge_id
+ *         required: true
+ *         schema: { type: string }
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, minimum: 1, maximum: 200, default: 50 }
+ *       - in: query
+ *         name: cursor
+ *         schema: { type: string }
+ *     responses:
+ *       200:
+ *         description: A page of holders
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: array
+ *                   items: { $ref: '#/components/schemas/BadgeHolder' }
+ *                 next_cursor: { type: string, nullable: true }
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Badge not found
+ */
+app.get('/badges/:badge_id/holders', (req: Request, res: Response) => {
+  const validationResult = BadgeHolderQuerySchema.safeParse(req.query);
+  if (!validationResult.success) {
+    res.status(400).json({
       success: false,
-      error: sanitizeError(error),
+      error: sanitizeError(validationResult.error),
       timestamp: Date.now()
     });
+    return;
   }
+
+  const badgeId = req.params.badge_id;
+  if (!badgeService.listBadges().some((badge) => badge.id === badgeId)) {
+    res.status(404).json({ success: false, error: 'Badge not found', timestamp: Date.now() });
+    return;
+  }
+
+  const page = badgeService.getHolders(badgeId, validationResult.data);
+
+  res.json({
+    success: true,
+    data: page.holders,
+    next_cursor: page.next_cursor,
+    timestamp: Date.now()
+  });
 });
 
 /**
  * @swagger
- * /reputation/{agent_id}:
+ * /agents/{agent_id}/badges:
  *   get:
- *     tags: [Reputation]
- *     summary: Get verified reputation
- *     description: Returns the verified reputation for an agent (must call POST /reputation/verify first)
+ *     tags: [Badges]
+ *     summary: Get an agent's progress towards each badge
+ *     description: |
+ *       Where the agent's metrics stand against every badge rule, from the same
+ *       metrics and proofs badges are awarded on. A badge is only held once a
+ *       verification awards it.
  *     parameters:
  *       - in: path
  *         name: agent_id
@@ -1075,38 +2008,35 @@ app.post('/reputation/verify', writeRateLimit, async (req: Request, res: Respons
  *         schema: { type: string, format: uuid }
  *     responses:
  *       200:
- *         description: Verified reputation
+ *         description: Badge progress
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
  *                 success: { type: boolean }
- *                 data: { $ref: '#/components/schemas/VerifiedReputation' }
+ *                 data:
+ *                   type: array
+ *                   items: { $ref: '#/components/schemas/BadgeProgress' }
  *       404:
- *         description: No verified reputation found
+ *         description: Agent not found
  */
-app.get('/reputation/:agent_id', (req: Request, res: Response) => {
+app.get('/agents/:agent_id/badges', (req: Request, res: Response) => {
   const agentId = validateUuidParam(req.params.agent_id);
   if (!agentId) {
     res.status(400).json({ success: false, error: 'Invalid agent ID format', timestamp: Date.now() });
     return;
   }
 
-  const verified = reputationService.getVerifiedReputation(agentId);
-  
-  if (!verified) {
-    res.status(404).json({ 
-      success: false, 
-      error: 'No verified reputation found. Call POST /reputation/verify first.',
-      timestamp: Date.now()
-    });
+  const metrics = metricsStore.getScoringMetrics(agentId);
+  if (!metrics) {
+    res.status(404).json({ success: false, error: 'Agent not found', timestamp: Date.now() });
     return;
   }
 
   res.json({
     success: true,
-    data: verified,
+    data: badgeService.getProgress(agentId, metrics, reputationService.getAgentProofs(agentId)),
     timestamp: Date.now()
   });
 });
@@ -1121,10 +2051,38 @@ app.get('/reputation/:agent_id', (req: Request, res: Response) => {
  *   get:
  *     tags: [Leaderboard]
  *     summary: Get reputation leaderboard
- *     description: Returns ranked list of agents by verified reputation score
+ *     description: |
+ *       Returns a page of agents ranked by verified reputation, after decay
+ *       for inactivity. Agents inactive past REPUTATION_EXPIRY_DAYS drop off.
+ *       Pass next_cursor back as cursor, with the same sort and filters, to
+ *       fetch the next page.
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, minimum: 1, maximum: 200, default: 50 }
+ *       - in: query
+ *         name: cursor
+ *         schema: { type: string }
+ *       - in: query
+ *         name: sort
+ *         description: score ranks on stars, then effective score; recent on last activity. All highest first
+ *         schema: { type: string, enum: [score, win_rate, trades, recent], default: score }
+ *       - in: query
+ *         name: min_stars
+ *         schema: { type: integer, minimum: 0, maximum: 3 }
+ *       - in: query
+ *         name: tier
+ *         schema: { type: string, enum: [unverified, bronze, silver, gold, platinum, diamond] }
+ *       - in: query
+ *         name: badge
+ *         description: Only agents holding this badge
+ *         schema: { type: string }
+ *       - in: query
+ *         name: min_trades
+ *         schema: { type: integer, minimum: 0 }
  *     responses:
  *       200:
- *         description: Leaderboard
+ *         description: A page of the leaderboard
  *         content:
  *           application/json:
  *             schema:
@@ -1135,14 +2093,28 @@ app.get('/reputation/:agent_id', (req: Request, res: Response) => {
  *                   type: array
  *                   items: { $ref: '#/components/schemas/LeaderboardEntry' }
  *                 count: { type: integer }
+ *                 next_cursor: { type: string, nullable: true }
+ *       400:
+ *         description: Validation error
  */
-app.get('/leaderboard', (_req: Request, res: Response) => {
-  const leaderboard = reputationService.getLeaderboardWithStars();
+app.get('/leaderboard', (req: Request, res: Response) => {
+  const validationResult = LeaderboardQuerySchema.safeParse(req.query);
+  if (!validationResult.success) {
+    res.status(400).json({
+      success: false,
+      error: sanitizeError(validationResult.error),
+      timestamp: Date.now()
+    });
+    return;
+  }
+
+  const page = reputationService.queryLeaderboard(validationResult.data);
   
   res.json({
     success: true,
-    data: leaderboard,
-    count: leaderboard.length,
+    data: page.entries,
+    count: page.entries.length,
+    next_cursor: page.next_cursor,
     timestamp: Date.now()
   });
 });
@@ -1166,6 +2138,11 @@ app.get('/leaderboard', (_req: Request, res: Response) => {
  *       - ◆◆ Two Diamonds = Excellent (top 5%)
  *       - ◆ One Diamond = Very Good (top 15%)
  *       - ✓ Verified = Meets baseline standards
+ *
+ *       The starred tiers also take a place in that share of the verified population,
+ *       ranked hourly on effective score, once there are REPUTATION_PERCENTILE_MIN_COHORT
+ *       verified agents. Ratings use the score after decay for inactivity, and an agent
+ *       inactive past REPUTATION_EXPIRY_DAYS is no longer verified.
  *     parameters:
  *       - in: path
  *         name: agent_id
@@ -1190,10 +2167,17 @@ app.get('/leaderboard', (_req: Request, res: Response) => {
  *                     rating_display: { type: string }
  *                     rating_description: { type: string }
  *                     tier: { type: string }
- *                     reputation_score: { type: number }
+ *                     reputation_score: { type: number, description: Score as verified }
+ *                     effective_score: { type: number, description: Score after decay for inactivity }
  *                     total_trades: { type: integer }
  *                     win_rate: { type: number }
+ *                     win_rate_lower_bound: { type: number, description: Lower bound (%) of the 95% Wilson interval on win rate }
+ *                     win_rate_upper_bound: { type: number }
+ *                     percentile: { type: number, nullable: true, description: Top X% of verified agents by effective score }
+ *                     cohort_size: { type: integer, description: Verified agents it was ranked among }
+ *                     standing: { type: string, nullable: true, example: top 4.17% of 120 agents }
  *                     verified_at: { type: integer }
+ *                     last_active_at: { type: integer, description: Latest trade or heartbeat; the verification without either }
  *                     certificate_hash: { type: string }
  *                     valid_until: { type: integer }
  *       404:
@@ -1277,7 +2261,7 @@ app.get('/trust/:agent_id/badge', (req: Request, res: Response) => {
         </div>
         <div style="color:#a1a1aa;font-size:11px;margin-bottom:6px;">${certificate.rating_description}</div>
         <div style="display:flex;gap:12px;font-size:10px;color:#71717a;">
-          <span>Score: ${certificate.reputation_score}</span>
+          <span>Score: ${certificate.effective_score}</span>
           <span>Trades: ${certificate.total_trades}</span>
           <span>Win: ${certificate.win_rate}%</span>
         </div>
@@ -1404,17 +2388,32 @@ app.get('/proof-types', (_req: Request, res: Response) => {
       {
         type: 'win_rate',
         description: 'Prove win rate exceeds threshold without revealing exact rate',
-        public_inputs: ['threshold']
+        public_inputs: ['threshold', 'pair']
       },
       {
         type: 'pnl_threshold',
         description: 'Prove PnL is within a range without revealing exact amount',
-        public_inputs: ['min_pnl', 'max_pnl']
+        public_inputs: ['min_pnl', 'max_pnl', 'pair']
       },
       {
         type: 'trade_count',
         description: 'Prove trade count exceeds minimum without revealing exact count',
-        public_inputs: ['min_trades']
+        public_inputs: ['min_trades', 'pair']
+      },
+      {
+        type: 'sharpe_ratio',
+        description: 'Prove annualized Sharpe ratio exceeds minimum without revealing exact ratio',
+        public_inputs: ['min_sharpe']
+      },
+      {
+        type: 'max_drawdown',
+        description: 'Prove max drawdown stays below a limit (bps) without revealing exact drawdown',
+        public_inputs: ['max_drawdown']
+      },
+      {
+        type: 'uptime',
+        description: 'Prove uptime percentage exceeds minimum without revealing exact uptime (a local attestation that cannot be verified when CAP-402 is unavailable)',
+        public_inputs: ['min_uptime']
       },
       {
         type: 'composite',
@@ -1426,6 +2425,266 @@ app.get('/proof-types', (_req: Request, res: Response) => {
   });
 });
 
+// ============================================
+// ADMIN
+// ============================================
+
+// Admin endpoints authenticate with `Authorization: Bearer <ADMIN_API_KEY>`
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  const key = header?.startsWith('Bearer ') ? header.slice(7) : undefined;
+  if (!verifyAdminKey(key)) {
+    res.status(403).json({ success: false, error: 'Admin access required', timestamp: Date.now() });
+    return;
+  }
+  next();
+}
+
+/**
+ * @swagger
+ * /admin/metrics/recompute:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Recompute metrics from the trade ledger
+ *     description: |
+ *       Rebuilds aggregate metrics by replaying stored trades, so formula
+ *       fixes apply to historical data. Recomputes a single agent when
+ *       agent_id is given, otherwise every agent.
+ *     parameters:
+ *       - in: header
+ *         name: Authorization
+ *         required: true
+ *         schema: { type: string, example: 'Bearer <ADMIN_API_KEY>' }
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               agent_id: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Metrics recomputed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     agents: { type: integer }
+ *                     trades: { type: integer }
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Agent not found
+ *       500:
+ *         description: Recomputed metrics couldn't be stored; the agent keeps its current metrics
+ */
+app.post('/admin/metrics/recompute', writeRateLimit, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const validationResult = RecomputeMetricsSchema.safeParse(req.body || {});
+    if (!validationResult.success) {
+      res.status(400).json({ 
+        success: false, 
+        error: sanitizeError(validationResult.error),
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const { agent_id } = validationResult.data;
+
+    if (agent_id) {
+      if (!metricsStore.getAgent(agent_id)) {
+        res.status(404).json({ success: false, error: 'Agent not found', timestamp: Date.now() });
+        return;
+      }
+
+      await metricsStore.recomputeMetrics(agent_id);
+      res.json({
+        success: true,
+        data: { agents: 1, trades: metricsStore.getTrades(agent_id).length },
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const result = await metricsStore.recomputeAllMetrics();
+    res.json({ success: true, data: result, timestamp: Date.now() });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: sanitizeError(error),
+      timestamp: Date.now()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /admin/flags:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List agents with flagged trades
+ *     description: |
+ *       Agents with trades flagged on ingest (micro trades, identical repeats,
+ *       bursts faster than their execution times, round-trip self-trades) or with
+ *       frozen scoring, most flagged first.
+ *     parameters:
+ *       - in: header
+ *         name: Authorization
+ *         required: true
+ *         schema: { type: string, example: 'Bearer <ADMIN_API_KEY>' }
+ *     responses:
+ *       200:
+ *         description: Flagged agents
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   type: array
+ *                   items: { $ref: '#/components/schemas/AgentFlagSummary' }
+ *       403:
+ *         description: Admin access required
+ */
+app.get('/admin/flags', requireAdmin, (_req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: metricsStore.getFlaggedAgents(),
+    timestamp: Date.now()
+  });
+});
+
+/**
+ * @swagger
+ * /admin/agents/{agent_id}/flags:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Get an agent's flagged trades
+ *     parameters:
+ *       - in: header
+ *         name: Authorization
+ *         required: true
+ *         schema: { type: string, example: 'Bearer <ADMIN_API_KEY>' }
+ *       - in: path
+ *         name: agent_id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Scoring status and flagged trades, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/AgentFlagSummary'
+ *                     - type: object
+ *                       properties:
+ *                         trades:
+ *                           type: array
+ *                           items: { type: object }
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Agent not found
+ */
+app.get('/admin/agents/:agent_id/flags', requireAdmin, (req: Request, res: Response) => {
+  const agentId = validateUuidParam(req.params.agent_id);
+  if (!agentId) {
+    res.status(400).json({ success: false, error: 'Invalid agent ID format', timestamp: Date.now() });
+    return;
+  }
+
+  const flags = metricsStore.getAgentFlags(agentId);
+  if (!flags) {
+    res.status(404).json({ success: false, error: 'Agent not found', timestamp: Date.now() });
+    return;
+  }
+
+  res.json({ success: true, data: flags, timestamp: Date.now() });
+});
+
+/**
+ * @swagger
+ * /admin/agents/{agent_id}/scoring:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Freeze or unfreeze reputation scoring
+ *     description: |
+ *       Frozen agents can't have their reputation recomputed until unfrozen.
+ *       Scoring also freezes on its own once most of a long trade history is
+ *       flagged; unfreezing here doesn't override that.
+ *     parameters:
+ *       - in: header
+ *         name: Authorization
+ *         required: true
+ *         schema: { type: string, example: 'Bearer <ADMIN_API_KEY>' }
+ *       - in: path
+ *         name: agent_id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [frozen]
+ *             properties:
+ *               frozen: { type: boolean }
+ *     responses:
+ *       200:
+ *         description: Updated scoring status
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Agent not found
+ */
+app.post('/admin/agents/:agent_id/scoring', writeRateLimit, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const agentId = validateUuidParam(req.params.agent_id);
+    if (!agentId) {
+      res.status(400).json({ success: false, error: 'Invalid agent ID format', timestamp: Date.now() });
+      return;
+    }
+
+    const validationResult = ScoringFreezeSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      res.status(400).json({ 
+        success: false, 
+        error: sanitizeError(validationResult.error),
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    if (!metricsStore.getAgent(agentId)) {
+      res.status(404).json({ success: false, error: 'Agent not found', timestamp: Date.now() });
+      return;
+    }
+
+    const flags = await metricsStore.setScoringFrozen(agentId, validationResult.data.frozen);
+    const { trades, ...status } = flags;
+    res.json({ success: true, data: status, timestamp: Date.now() });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: sanitizeError(error),
+      timestamp: Date.now()
+    });
+  }
+});
+
 // ============================================
 // SERVE FRONTEND (Production)
 // ============================================
@@ -1448,6 +2707,7 @@ app.get('*', (req: Request, res: Response, next: NextFunction) => {
       req.path.startsWith('/proofs') ||
       req.path.startsWith('/reputation') ||
       req.path.startsWith('/leaderboard') ||
+      req.path.startsWith('/admin') ||
       req.path.startsWith('/openapi')) {
     return next();
   }
@@ -1522,4 +2782,5 @@ async function gracefulShutdown(signal: string) {
 process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
 process.on('SIGINT', () => gracefulShutdown('SIGINT'));
 
+export { server };
 export default app;
@@ -0,0 +1,151 @@
+/**
+ * Anomaly Detection
+ * Flags trade patterns used to farm trade counts and win rates:
+ * micro-sized trades, identical repeats, impossible bursts and round-trip self-trades
+ */
+
+import { TradeAnomaly, ScoringStatus } from '../types';
+import { tradeValueUsd } from './positions';
+
+const MINUTE_MS = 60 * 1000;
+
+// Trades worth less than this (or, without amounts, with PnL below this) are micro trades
+const MICRO_TRADE_USD = 1;
+const MICRO_PNL_USD = 0.1;
+
+// The same trade this many times within the window is a repeat
+const DUPLICATE_WINDOW_MS = 10 * MINUTE_MS;
+const DUPLICATE_MIN_REPEATS = 3;
+
+// This many trades can't land faster than their execution times allow,
+// even with this many running side by side
+const BURST_MIN_TRADES = 5;
+const BURST_MAX_PARALLEL = 4;
+
+// A reversal of a trade within the window, at amounts this close, is a round trip
+const ROUND_TRIP_WINDOW_MS = 5 * MINUTE_MS;
+const ROUND_TRIP_TOLERANCE = 0.01;
+
+// Only trades this close to a new trade can take part in a pattern with it
+export const ANOMALY_LOOKBACK_MS = DUPLICATE_WINDOW_MS;
+
+// Scoring freezes once flagged trades make up this much of a large enough history
+const FREEZE_MIN_FLAGGED_TRADES = 20;
+const FREEZE_FLAGGED_RATIO = 0.5;
+
+// The trade fields patterns are detected from
+export interface ScreenedTrade {
+  trade_id: string;
+  timestamp: number;
+  token_in: string;
+  token_out: string;
+  amount_in: number;
+  amount_out: number;
+  pnl_usd: number;
+  notional_usd?: number;
+  execution_time_ms: number;
+}
+
+/**
+ * Anomalies in a new trade, given the agent's other trades around it
+ * Neighbours may be in any order; those at or before its timestamp count as earlier.
+ * Batch peers are trades logged before it in the same batch. Batch items without
+ * executed_at all carry the request time, so peers sharing its timestamp count
+ * for repeats and round trips but not for bursts
+ */
+export function detectAnomalies(
+  trade: ScreenedTrade,
+  neighbours: ScreenedTrade[],
+  batchPeers: ScreenedTrade[] = []
+): TradeAnomaly[] {
+  const anomalies: TradeAnomaly[] = [];
+  const isEarlier = (other: ScreenedTrade) => other.trade_id !== trade.trade_id &&
+    other.timestamp <= trade.timestamp &&
+    trade.timestamp - other.timestamp <= ANOMALY_LOOKBACK_MS;
+  const earlier = [...neighbours, ...batchPeers]
+    .filter(isEarlier)
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  const value = hasAmounts(trade) ? tradeValueUsd(trade) : null;
+  if (value !== null ? value < MICRO_TRADE_USD : Math.abs(trade.pnl_usd) < MICRO_PNL_USD) {
+    anomalies.push({
+      type: 'micro_trade',
+      detail: value !== null
+        ? `Trade worth $${value.toFixed(2)}`
+        : `PnL of $${trade.pnl_usd.toFixed(2)} with no amounts`
+    });
+  }
+
+  const repeats = earlier.filter((other) =>
+    trade.timestamp - other.timestamp <= DUPLICATE_WINDOW_MS && isSameTrade(trade, other));
+  if (repeats.length + 1 >= DUPLICATE_MIN_REPEATS) {
+    anomalies.push({
+      type: 'duplicate_trade',
+      detail: `${repeats.length + 1} identical trades within ${DUPLICATE_WINDOW_MS / MINUTE_MS} minutes`
+    });
+  }
+
+  const peerIds = new Set(batchPeers.map((peer) => peer.trade_id));
+  const burst = earlier
+    .filter((other) => !(peerIds.has(other.trade_id) && other.timestamp === trade.timestamp))
+    .slice(0, BURST_MIN_TRADES - 1);
+  if (burst.length === BURST_MIN_TRADES - 1) {
+    const spanMs = trade.timestamp - burst[burst.length - 1].timestamp;
+    const requiredMs = burst.reduce((sum, other) => sum + other.execution_time_ms, 0) / BURST_MAX_PARALLEL;
+    if (spanMs < requiredMs) {
+      anomalies.push({
+        type: 'burst',
+        detail: `${BURST_MIN_TRADES} trades in ${spanMs}ms, but their execution takes at least ${Math.round(requiredMs)}ms`
+      });
+    }
+  }
+
+  const reversed = earlier.find((other) =>
+    trade.timestamp - other.timestamp <= ROUND_TRIP_WINDOW_MS && isReversal(trade, other));
+  if (reversed) {
+    anomalies.push({
+      type: 'round_trip',
+      detail: `Reverses trade ${reversed.trade_id} from ${trade.timestamp - reversed.timestamp}ms earlier`
+    });
+  }
+
+  return anomalies;
+}
+
+/**
+ * How an agent's flagged trades affect its reputation scoring
+ * Flagged trades are always left out of the score; past a point, or when an
+ * admin says so, scoring stops altogether until reviewed
+ */
+export function scoringStatus(totalTrades: number, flaggedTrades: number, frozenByAdmin: boolean): ScoringStatus {
+  if (frozenByAdmin) return 'frozen';
+  if (flaggedTrades >= FREEZE_MIN_FLAGGED_TRADES && flaggedTrades >= totalTrades * FREEZE_FLAGGED_RATIO) {
+    return 'frozen';
+  }
+  return flaggedTrades > 0 ? 'discounted' : 'normal';
+}
+
+function hasAmounts(trade: ScreenedTrade): boolean {
+  return trade.amount_in > 0 && trade.amount_out > 0;
+}
+
+function isSameTrade(a: ScreenedTrade, b: ScreenedTrade): boolean {
+  return a.token_in === b.token_in &&
+    a.token_out === b.token_out &&
+    a.amount_in === b.amount_in &&
+    a.amount_out === b.amount_out &&
+    a.pnl_usd === b.pnl_usd;
+}
+
+// a sells back what b bought, for roughly what b paid
+function isReversal(a: ScreenedTrade, b: ScreenedTrade): boolean {
+  return hasAmounts(a) && hasAmounts(b) &&
+    a.token_in === b.token_out &&
+    a.token_out === b.token_in &&
+    isClose(a.amount_in, b.amount_out) &&
+    isClose(a.amount_out, b.amount_in);
+}
+
+function isClose(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(a, b) * ROUND_TRIP_TOLERANCE;
+}
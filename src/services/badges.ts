@@ -0,0 +1,411 @@
+/**
+ * Badges
+ * Achievement badges come from declarative rules (config/badges.json, or the
+ * file at BADGE_RULES_PATH) loaded at startup. Each agent's badges are kept
+ * with the date they were first earned, and revoked once their rule stops holding.
+ * Proof-backed badges also need a verified ZK proof of the claim and link to it,
+ * so third parties can check them without trusting the server
+ */
+
+import fs from 'fs';
+import { z } from 'zod';
+import defaultBadgeRules from '../../config/badges.json';
+import { metricsStore } from './metrics-store';
+import { resolveWindow } from '../utils/metrics-window';
+import { decodeCursor, encodeCursor } from '../utils/pagination';
+import { MetricsWindowSchema } from '../utils/security';
+import {
+  AgentBadge,
+  BadgeHolderPage,
+  BadgeHolderQuery,
+  BadgeInfo,
+  BadgeMetric,
+  BadgeOperator,
+  BadgeProgress,
+  BadgeRule,
+  PerformanceMetrics,
+  ReputationBadge,
+  ReputationProof
+} from '../types';
+
+export const BADGE_METRICS: [BadgeMetric, ...BadgeMetric[]] = [
+  'total_trades',
+  'winning_trades',
+  'total_pnl_usd',
+  'realized_pnl_usd',
+  'volume_usd',
+  'verified_trades',
+  'verified_pnl_usd',
+  'win_rate',
+  'win_rate_lower_bound',
+  'sharpe_ratio',
+  'sortino_ratio',
+  'max_drawdown_bps',
+  'avg_execution_time_ms',
+  'uptime_percentage'
+];
+
+const BadgeOperatorSchema = z.enum(['>', '>=', '<', '<=', '==']);
+
+const BadgeRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]{1,40}$/, 'id must be lowercase letters, digits and underscores'),
+  name: z.string().min(1).max(40),
+  description: z.string().min(1).max(200),
+  metric: z.enum(BADGE_METRICS),
+  operator: BadgeOperatorSchema,
+  threshold: z.number(),
+  window: MetricsWindowSchema.optional(),
+  // Uptime attestations are local and never verify, so they can't back a badge
+  proof: z.object({
+    type: z.enum(['win_rate', 'pnl_threshold', 'trade_count', 'sharpe_ratio', 'max_drawdown', 'composite']),
+    input: z.string().min(1).max(40),
+    operator: BadgeOperatorSchema,
+    value: z.number()
+  }).optional()
+});
+
+const BadgeRulesSchema = z.array(BadgeRuleSchema).superRefine((rules, ctx) => {
+  const seen = new Set<string>();
+  rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'id'], message: `Duplicate badge id ${rule.id}` });
+    }
+    seen.add(rule.id);
+  });
+});
+
+/**
+ * Validate a set of badge rules
+ * Throws with every problem found, so a bad rules file stops startup
+ */
+export function parseBadgeRules(input: unknown): BadgeRule[] {
+  const result = BadgeRulesSchema.safeParse(input);
+  if (!result.success) {
+    const problems = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid badge rules: ${problems.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Rules from a JSON file holding an array of rules, or the bundled defaults
+ */
+export function loadBadgeRules(path: string | undefined = process.env.BADGE_RULES_PATH): BadgeRule[] {
+  return parseBadgeRules(path ? JSON.parse(fs.readFileSync(path, 'utf8')) : defaultBadgeRules);
+}
+
+/**
+ * Whether metrics meet a rule
+ */
+export function meetsRule(rule: BadgeRule, metrics: PerformanceMetrics): boolean {
+  const value = metricValue(metrics, rule.metric);
+  return value !== null && compare(value, rule.operator, rule.threshold);
+}
+
+/**
+ * The latest proof that can back a rule's badge, if any
+ * It must be verified and unexpired, cover the rule's window and not a single
+ * pair, bound the claim at least as tightly as the rule asks, and its claim must hold
+ */
+export function findBackingProof(rule: BadgeRule, proofs: ReputationProof[], now: number = Date.now()): ReputationProof | undefined {
+  const requirement = rule.proof;
+  if (!requirement) return undefined;
+
+  return proofs
+    .filter((proof) => {
+      const outputs = proof.public_outputs;
+      const bound = outputs[requirement.input];
+      return proof.proof_type === requirement.type &&
+        proof.verified &&
+        now < proof.expires_at &&
+        outputs.pair === undefined &&
+        outputs.window?.window === rule.window &&
+        typeof bound === 'number' &&
+        compare(bound, requirement.operator, requirement.value) &&
+        (outputs.meets_threshold ?? outputs.all_criteria_met ?? outputs.pnl_in_range) === true;
+    })
+    .sort((a, b) => b.created_at - a.created_at)[0];
+}
+
+function compare(value: number, operator: BadgeOperator, threshold: number): boolean {
+  switch (operator) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+    case '==': return value === threshold;
+  }
+}
+
+// Null for uptime before the agent's first heartbeat
+function metricValue(metrics: PerformanceMetrics, metric: BadgeMetric): number | null {
+  if (metric === 'win_rate') {
+    return metrics.total_trades > 0 ? (metrics.winning_trades / metrics.total_trades) * 100 : 0;
+  }
+  return metrics[metric];
+}
+
+// Database access (optional)
+let prisma: any = null;
+
+// agent_id -> badge_id -> record
+const badgeStore = new Map<string, Map<string, AgentBadge>>();
+
+// badge_id -> agent_id -> record, for badges currently held
+const holderIndex = new Map<string, Map<string, AgentBadge>>();
+
+async function initBadgeDb() {
+  try {
+    const databaseUrl = process.env.DATABASE_URL;
+    if (!databaseUrl) return;
+
+    const prismaModule = await import('@prisma/client');
+    const PrismaClient = prismaModule.PrismaClient;
+    prisma = new PrismaClient();
+
+    const records = await prisma.agentBadge.findMany();
+    for (const record of records) {
+      setRecord({
+        agent_id: record.agentId,
+        badge_id: record.badgeId,
+        earned_at: record.earnedAt.getTime(),
+        revoked_at: record.revokedAt ? record.revokedAt.getTime() : null,
+        proof_id: record.proofId
+      });
+    }
+
+    console.log(`   Loaded ${records.length} badge records from database`);
+  } catch (error) {
+    // Silent fail - database is optional
+  }
+}
+
+initBadgeDb().catch(() => {});
+
+function setRecord(record: AgentBadge): void {
+  let badges = badgeStore.get(record.agent_id);
+  if (!badges) {
+    badges = new Map();
+    badgeStore.set(record.agent_id, badges);
+  }
+  badges.set(record.badge_id, record);
+
+  let holders = holderIndex.get(record.badge_id);
+  if (!holders) {
+    holders = new Map();
+    holderIndex.set(record.badge_id, holders);
+  }
+  if (record.revoked_at === null) {
+    holders.set(record.agent_id, record);
+  } else {
+    holders.delete(record.agent_id);
+  }
+}
+
+// Where an agent stands against a rule right now
+interface RuleAssessment {
+  value: number;
+  criteriaMet: boolean;
+  proof: ReputationProof | undefined;
+}
+
+// How far `value` has come towards a threshold, as a fraction
+function progressTowards(value: number, operator: BadgeOperator, threshold: number): number {
+  if (compare(value, operator, threshold)) return 1;
+  if (operator === '>' || operator === '>=') {
+    return threshold > 0 ? Math.min(Math.max(value / threshold, 0), 1) : 0;
+  }
+  if (operator === '<' || operator === '<=') {
+    return value > 0 && threshold > 0 ? Math.min(threshold / value, 1) : 0;
+  }
+  return 0;
+}
+
+export class BadgeService {
+  private rules: BadgeRule[];
+
+  constructor(rules: BadgeRule[]) {
+    this.rules = rules;
+  }
+
+  /**
+   * Every badge with its rule and how many agents hold it
+   */
+  listBadges(): BadgeInfo[] {
+    return this.rules.map((rule) => ({ ...rule, holder_count: holderIndex.get(rule.id)?.size ?? 0 }));
+  }
+
+  /**
+   * Page through the agents holding a badge, first to earn it first
+   */
+  getHolders(badgeId: string, query: BadgeHolderQuery): BadgeHolderPage {
+    const after = query.cursor ? decodeCursor(query.cursor) : null;
+
+    const holders = Array.from(holderIndex.get(badgeId)?.values() ?? [])
+      .sort((a, b) => a.earned_at - b.earned_at || a.agent_id.localeCompare(b.agent_id));
+
+    const start = after
+      ? holders.findIndex((record) =>
+          record.earned_at > after.key ||
+          (record.earned_at === after.key && record.agent_id.localeCompare(after.id) > 0))
+      : 0;
+    const page = start === -1 ? [] : holders.slice(start, start + query.limit);
+
+    const last = page[page.length - 1];
+    const hasMore = start !== -1 && start + query.limit < holders.length;
+    return {
+      holders: page.map((record) => ({
+        agent_id: record.agent_id,
+        agent_name: metricsStore.getAgent(record.agent_id)?.name ?? '',
+        earned_at: record.earned_at,
+        ...(record.proof_id ? { proof_id: record.proof_id } : {})
+      })),
+      next_cursor: hasMore && last ? encodeCursor({ key: last.earned_at, id: last.agent_id }) : null
+    };
+  }
+
+  /**
+   * How close an agent is to each badge, from the same metrics and proofs evaluate() uses
+   */
+  getProgress(
+    agentId: string,
+    metrics: PerformanceMetrics,
+    proofs: ReputationProof[] = [],
+    now: number = Date.now()
+  ): BadgeProgress[] {
+    const badges = badgeStore.get(agentId);
+
+    return this.rules.map((rule) => {
+      const { value, criteriaMet, proof } = this.assess(agentId, rule, metrics, proofs, now);
+      const record = badges?.get(rule.id);
+      return {
+        badge_id: rule.id,
+        name: rule.name,
+        description: rule.description,
+        metric: rule.metric,
+        operator: rule.operator,
+        threshold: rule.threshold,
+        ...(rule.window ? { window: rule.window } : {}),
+        value: Math.round(value * 100) / 100,
+        progress: Math.round(progressTowards(value, rule.operator, rule.threshold) * 100) / 100,
+        criteria_met: criteriaMet,
+        proof_required: !!rule.proof,
+        proof_id: proof?.proof_id ?? null,
+        held: !!record && record.revoked_at === null,
+        earned_at: record?.earned_at ?? null
+      };
+    });
+  }
+
+  /**
+   * Award an agent the badges whose rules now hold and revoke those that no longer do
+   * Lifetime rules are tested against `metrics`; windowed rules against the
+   * agent's unflagged trades within the window. Proof-backed rules also need a
+   * backing proof among `proofs`. Returns the badges the agent holds
+   */
+  async evaluate(
+    agentId: string,
+    metrics: PerformanceMetrics,
+    proofs: ReputationProof[] = [],
+    now: number = Date.now()
+  ): Promise<ReputationBadge[]> {
+    const badges = badgeStore.get(agentId);
+    const changed: AgentBadge[] = [];
+
+    for (const rule of this.rules) {
+      const { criteriaMet, proof } = this.assess(agentId, rule, metrics, proofs, now);
+      const record = badges?.get(rule.id);
+      // A held badge keeps its proof once that expires, until a newer proof replaces it
+      const proofId = proof?.proof_id ?? (record?.revoked_at === null ? record.proof_id : null);
+      const holds = criteriaMet && (!rule.proof || proofId !== null);
+
+      if (holds && !record) {
+        changed.push({ agent_id: agentId, badge_id: rule.id, earned_at: now, revoked_at: null, proof_id: proofId });
+      } else if (holds && record && (record.revoked_at !== null || record.proof_id !== proofId)) {
+        // Earned back, or backed by a newer proof: the first earn date still stands
+        changed.push({ ...record, revoked_at: null, proof_id: proofId });
+      } else if (!holds && record && record.revoked_at === null) {
+        changed.push({ ...record, revoked_at: now });
+      }
+    }
+
+    for (const record of changed) {
+      setRecord(record);
+      await this.save(record);
+    }
+
+    return this.getBadges(agentId);
+  }
+
+  /**
+   * Proofs linked from badges that are currently held
+   * These stay servable past their expiry so the badge can still be checked
+   */
+  backingProofIds(): Set<string> {
+    const proofIds = new Set<string>();
+    for (const holders of holderIndex.values()) {
+      for (const record of holders.values()) {
+        if (record.proof_id) proofIds.add(record.proof_id);
+      }
+    }
+    return proofIds;
+  }
+
+  /**
+   * Badges an agent holds, with the date each was first earned
+   * Badges whose rule has since been removed aren't shown
+   */
+  getBadges(agentId: string): ReputationBadge[] {
+    const badges = badgeStore.get(agentId);
+    if (!badges) return [];
+
+    return this.rules.flatMap((rule) => {
+      const record = badges.get(rule.id);
+      if (!record || record.revoked_at !== null) return [];
+      const badge: ReputationBadge = { badge_id: rule.id, name: rule.name, description: rule.description, earned_at: record.earned_at };
+      if (record.proof_id) badge.proof_id = record.proof_id;
+      return [badge];
+    });
+  }
+
+  private assess(
+    agentId: string,
+    rule: BadgeRule,
+    metrics: PerformanceMetrics,
+    proofs: ReputationProof[],
+    now: number
+  ): RuleAssessment {
+    const ruleMetrics = rule.window
+      ? metricsStore.getWindowedMetrics(agentId, resolveWindow(rule.window, now), true)
+      : metrics;
+    return {
+      value: (ruleMetrics && metricValue(ruleMetrics, rule.metric)) ?? 0,
+      criteriaMet: !!ruleMetrics && meetsRule(rule, ruleMetrics),
+      proof: findBackingProof(rule, proofs, now)
+    };
+  }
+
+  private async save(record: AgentBadge): Promise<void> {
+    if (!prisma) return;
+    try {
+      await prisma.agentBadge.upsert({
+        where: { agentId_badgeId: { agentId: record.agent_id, badgeId: record.badge_id } },
+        update: {
+          revokedAt: record.revoked_at === null ? null : new Date(record.revoked_at),
+          proofId: record.proof_id
+        },
+        create: {
+          agentId: record.agent_id,
+          badgeId: record.badge_id,
+          earnedAt: new Date(record.earned_at),
+          revokedAt: record.revoked_at === null ? null : new Date(record.revoked_at),
+          proofId: record.proof_id
+        }
+      });
+    } catch (error) {
+      console.log('⚠️ Failed to save badge to database');
+    }
+  }
+}
+
+export const badgeService = new BadgeService(loadBadgeRules());
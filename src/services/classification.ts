@@ -0,0 +1,101 @@
+/**
+ * Reputation Classification
+ * The one set of rules tiers and star ratings come from: each tier is a star
+ * rating, with a score cutoff and the track record it takes
+ *
+ * ◆◆◆ diamond  = Exceptional
+ * ◆◆  platinum = Excellent
+ * ◆   gold     = Very Good
+ * ✓   silver, bronze = Verified
+ * —   unverified
+ */
+
+import { ReputationTier, TierLevel, TierThreshold } from '../types';
+
+// Highest first. Requirements never rise going down, so a lower tier's
+// requirements are always met by an agent that meets a higher one's
+export const TIER_LEVELS: TierLevel[] = [
+  {
+    tier: 'diamond', stars: 3, rating: 'three_star', display: '◆◆◆', description: 'Exceptional',
+    min_score: 90, min_trades: 1000, min_win_rate: 75, min_pnl_usd: 10000, max_percentile: 1
+  },
+  {
+    tier: 'platinum', stars: 2, rating: 'two_star', display: '◆◆', description: 'Excellent',
+    min_score: 80, min_trades: 500, min_win_rate: 68, min_pnl_usd: 5000, max_percentile: 5
+  },
+  {
+    tier: 'gold', stars: 1, rating: 'one_star', display: '◆', description: 'Very Good',
+    min_score: 70, min_trades: 200, min_win_rate: 62, min_pnl_usd: 1000, max_percentile: 15
+  },
+  {
+    tier: 'silver', stars: 0, rating: 'verified', display: '✓', description: 'Verified',
+    min_score: 60, min_trades: 50, min_win_rate: 55, min_pnl_usd: 0, max_percentile: null
+  },
+  {
+    tier: 'bronze', stars: 0, rating: 'verified', display: '✓', description: 'Verified',
+    min_score: 50, min_trades: 25, min_win_rate: 50, min_pnl_usd: 0, max_percentile: null
+  }
+];
+
+export const UNVERIFIED_LEVEL: TierLevel = {
+  tier: 'unverified', stars: 0, rating: 'unverified', display: '—', description: 'Not yet verified',
+  min_score: 0, min_trades: 0, min_win_rate: 0, min_pnl_usd: 0, max_percentile: null
+};
+
+// Score cutoffs scoring models use unless they set their own
+export const DEFAULT_TIER_CUTOFFS: TierThreshold[] = TIER_LEVELS.map(({ tier, min_score }) => ({ tier, min_score }));
+
+// What an agent's track record is judged on, from the metrics it was scored on
+export interface TrackRecord {
+  total_trades: number;
+  winning_trades: number;
+  total_pnl_usd: number;
+}
+
+/**
+ * The highest level whose score cutoff and requirements an agent meets
+ * Cutoffs come from the scoring model that produced the score
+ */
+export function classify(score: number, record: TrackRecord, cutoffs: TierThreshold[] = DEFAULT_TIER_CUTOFFS): TierLevel {
+  const winRate = record.total_trades > 0 ? (record.winning_trades / record.total_trades) * 100 : 0;
+  return TIER_LEVELS.find((level) =>
+    score >= cutoffFor(level, cutoffs) &&
+    record.total_trades >= level.min_trades &&
+    winRate >= level.min_win_rate &&
+    record.total_pnl_usd >= level.min_pnl_usd
+  ) ?? UNVERIFIED_LEVEL;
+}
+
+/**
+ * How a tier is shown
+ */
+export function levelForTier(tier: ReputationTier): TierLevel {
+  return TIER_LEVELS.find((level) => level.tier === tier) ?? UNVERIFIED_LEVEL;
+}
+
+/**
+ * The highest tier a score reaches on cutoffs alone, capped at `ceiling`
+ * Lowering a score never raises a tier, so the requirements met at `ceiling` still hold
+ */
+export function capTier(score: number, ceiling: ReputationTier, cutoffs: TierThreshold[] = DEFAULT_TIER_CUTOFFS): ReputationTier {
+  const start = TIER_LEVELS.findIndex((level) => level.tier === ceiling);
+  if (start === -1) return 'unverified';
+  return TIER_LEVELS.slice(start).find((level) => score >= cutoffFor(level, cutoffs))?.tier ?? 'unverified';
+}
+
+/**
+ * The highest tier at or below `ceiling` an agent's percentile allows
+ * An unranked agent keeps its tier, as does every agent while the cohort is too
+ * small for a top 1% to mean anything
+ */
+export function tierForStanding(ceiling: ReputationTier, percentile: number | null, cohortSize: number, minCohort: number): ReputationTier {
+  const start = TIER_LEVELS.findIndex((level) => level.tier === ceiling);
+  if (start === -1) return 'unverified';
+  if (percentile === null || cohortSize < minCohort) return ceiling;
+  return TIER_LEVELS.slice(start)
+    .find((level) => level.max_percentile === null || percentile <= level.max_percentile)?.tier ?? 'unverified';
+}
+
+function cutoffFor(level: TierLevel, cutoffs: TierThreshold[]): number {
+  return cutoffs.find((cutoff) => cutoff.tier === level.tier)?.min_score ?? level.min_score;
+}
@@ -0,0 +1,120 @@
+/**
+ * Confidence Bounds
+ * How far an agent's win rate and per-trade PnL can be trusted given how many
+ * trades back them, so 3 wins out of 3 doesn't read like 300 out of 300
+ */
+
+// Two-sided 95% interval
+const Z_95 = 1.96;
+
+// Resamples drawn for the bootstrap interval
+const BOOTSTRAP_RESAMPLES = 1000;
+
+// Past this many trades the sample mean is close enough to normal that the
+// bootstrap adds nothing but cost
+const BOOTSTRAP_MAX_TRADES = 1000;
+
+export interface ConfidenceBounds {
+  win_rate_lower_bound: number;    // %, Wilson score interval
+  win_rate_upper_bound: number;    // %
+  avg_pnl_lower_bound_usd: number; // Bootstrapped mean PnL per trade
+  avg_pnl_upper_bound_usd: number;
+}
+
+/**
+ * 95% bounds on win rate and average PnL per trade
+ */
+export function computeConfidence(winningTrades: number, totalTrades: number, pnls: number[]): ConfidenceBounds {
+  return { ...computeWinRateBounds(winningTrades, totalTrades), ...computeAvgPnlBounds(pnls) };
+}
+
+/**
+ * 95% bounds on win rate, as percentages. Cheap enough to refresh per trade
+ */
+export function computeWinRateBounds(
+  winningTrades: number,
+  totalTrades: number
+): Pick<ConfidenceBounds, 'win_rate_lower_bound' | 'win_rate_upper_bound'> {
+  const winRate = wilsonInterval(winningTrades, totalTrades);
+  return {
+    win_rate_lower_bound: Math.round(winRate.lower * 10000) / 100,
+    win_rate_upper_bound: Math.round(winRate.upper * 10000) / 100
+  };
+}
+
+/**
+ * 95% bounds on average PnL per trade. Resamples the whole sample, so costs O(trades)
+ */
+export function computeAvgPnlBounds(
+  pnls: number[]
+): Pick<ConfidenceBounds, 'avg_pnl_lower_bound_usd' | 'avg_pnl_upper_bound_usd'> {
+  const avgPnl = meanInterval(pnls);
+  return {
+    avg_pnl_lower_bound_usd: Math.round(avgPnl.lower * 100) / 100,
+    avg_pnl_upper_bound_usd: Math.round(avgPnl.upper * 100) / 100
+  };
+}
+
+/**
+ * Wilson score interval for a success rate, as fractions
+ * No trials means nothing is known, so the interval is all of [0, 1]
+ */
+export function wilsonInterval(successes: number, trials: number, z: number = Z_95): { lower: number; upper: number } {
+  if (trials === 0) return { lower: 0, upper: 1 };
+
+  const p = successes / trials;
+  const z2 = z * z;
+  const centre = p + z2 / (2 * trials);
+  const margin = z * Math.sqrt((p * (1 - p) + z2 / (4 * trials)) / trials);
+  const denominator = 1 + z2 / trials;
+  return {
+    lower: Math.max((centre - margin) / denominator, 0),
+    upper: Math.min((centre + margin) / denominator, 1)
+  };
+}
+
+/**
+ * Percentile bootstrap interval for the mean of a sample
+ * Seeded from the sample itself, so the same trades always give the same bounds
+ */
+export function meanInterval(values: number[]): { lower: number; upper: number } {
+  const n = values.length;
+  if (n === 0) return { lower: 0, upper: 0 };
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  if (n > BOOTSTRAP_MAX_TRADES) {
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1);
+    const margin = Z_95 * Math.sqrt(variance / n);
+    return { lower: mean - margin, upper: mean + margin };
+  }
+
+  // Sorted first so the order trades arrived in doesn't change the result
+  const sorted = [...values].sort((a, b) => a - b);
+  const random = mulberry32(n);
+  const means: number[] = [];
+  for (let i = 0; i < BOOTSTRAP_RESAMPLES; i++) {
+    let sum = 0;
+    for (let j = 0; j < n; j++) {
+      sum += sorted[Math.floor(random() * n)];
+    }
+    means.push(sum / n);
+  }
+  means.sort((a, b) => a - b);
+
+  return {
+    lower: means[Math.floor(BOOTSTRAP_RESAMPLES * 0.025)],
+    upper: means[Math.ceil(BOOTSTRAP_RESAMPLES * 0.975) - 1]
+  };
+}
+
+// Small seeded PRNG returning floats in [0, 1)
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -26,7 +26,7 @@ export interface MetricsData {
   max_drawdown_bps: number;
   sharpe_ratio: number;
   avg_execution_time_ms: number;
-  uptime_percentage: number;
+  uptime_percentage: number | null;
   last_updated: number;
 }
 
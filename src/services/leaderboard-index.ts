@@ -0,0 +1,128 @@
+/**
+ * Leaderboard Index
+ * Verified agents kept in order under each leaderboard sort, so a page is read
+ * from where the cursor left off instead of ranking every agent per request.
+ * Positions move as agents trade and verify; decay moves them at the hourly re-rank
+ */
+
+import { CursorPosition } from '../utils/pagination';
+import { LEADERBOARD_SORTS } from '../utils/security';
+import { LeaderboardEntry, LeaderboardSort } from '../types';
+
+/**
+ * Where an entry sorts under each ordering
+ * Scores are out of 100, so stars lead and the effective score breaks ties between them
+ */
+export function leaderboardKeys(entry: LeaderboardEntry): Record<LeaderboardSort, number> {
+  return {
+    score: entry.star_rating * 1000 + entry.effective_score,
+    win_rate: entry.win_rate,
+    trades: entry.total_trades,
+    recent: entry.last_active_at
+  };
+}
+
+// Highest key first, then agent ID
+function precedes(a: CursorPosition, b: CursorPosition): boolean {
+  return a.key > b.key || (a.key === b.key && a.id.localeCompare(b.id) < 0);
+}
+
+class SortedPositions {
+  private positions: CursorPosition[] = [];
+
+  replaceAll(positions: CursorPosition[]): void {
+    this.positions = positions.sort((a, b) => (precedes(a, b) ? -1 : precedes(b, a) ? 1 : 0));
+  }
+
+  insert(position: CursorPosition): void {
+    this.positions.splice(this.indexOf(position), 0, position);
+  }
+
+  remove(position: CursorPosition): void {
+    const index = this.indexOf(position);
+    if (this.isAt(index, position)) {
+      this.positions.splice(index, 1);
+    }
+  }
+
+  /**
+   * Positions after `cursor` in order, or from the top without one
+   */
+  *after(cursor: CursorPosition | null): Generator<CursorPosition> {
+    let i = 0;
+    if (cursor) {
+      i = this.indexOf(cursor);
+      if (this.isAt(i, cursor)) i++;
+    }
+    for (; i < this.positions.length; i++) {
+      yield this.positions[i];
+    }
+  }
+
+  // Binary search for where `position` is, or would go
+  private indexOf(position: CursorPosition): number {
+    let low = 0;
+    let high = this.positions.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (precedes(this.positions[mid], position)) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  private isAt(index: number, position: CursorPosition): boolean {
+    const found = this.positions[index];
+    return !!found && found.key === position.key && found.id === position.id;
+  }
+}
+
+class LeaderboardIndex {
+  private keys = new Map<string, Record<LeaderboardSort, number>>();
+  private orders = new Map<LeaderboardSort, SortedPositions>(
+    LEADERBOARD_SORTS.map((sort) => [sort, new SortedPositions()])
+  );
+
+  /**
+   * Put an agent at its entry's position under every sort, or take it off with null
+   */
+  set(agentId: string, entry: LeaderboardEntry | null): void {
+    const previous = this.keys.get(agentId);
+    const next = entry ? leaderboardKeys(entry) : null;
+
+    for (const sort of LEADERBOARD_SORTS) {
+      if (previous && next && previous[sort] === next[sort]) continue;
+      const order = this.orders.get(sort)!;
+      if (previous) order.remove({ key: previous[sort], id: agentId });
+      if (next) order.insert({ key: next[sort], id: agentId });
+    }
+
+    if (next) this.keys.set(agentId, next);
+    else this.keys.delete(agentId);
+  }
+
+  /**
+   * Re-index every agent at once, e.g. after decay has moved them all
+   */
+  rebuild(entries: LeaderboardEntry[]): void {
+    this.keys = new Map(entries.map((entry) => [entry.agent_id, leaderboardKeys(entry)]));
+    for (const sort of LEADERBOARD_SORTS) {
+      this.orders.get(sort)!.replaceAll(
+        Array.from(this.keys, ([agentId, keys]) => ({ key: keys[sort], id: agentId }))
+      );
+    }
+  }
+
+  /**
+   * Agents in order under a sort, starting after the cursor's position
+   */
+  scan(sort: LeaderboardSort, cursor: CursorPosition | null): Generator<CursorPosition> {
+    return this.orders.get(sort)!.after(cursor);
+  }
+
+  get size(): number {
+    return this.keys.size;
+  }
+}
+
+export const leaderboardIndex = new LeaderboardIndex();
@@ -7,10 +7,54 @@
 import { v4 as uuidv4 } from 'uuid';
 import { cap402Client } from '../cap402/client';
 import { hashApiKey, verifyApiKey } from '../utils/security';
+import { encodeCursor, decodeCursor } from '../utils/pagination';
+import {
+  ReturnSeries,
+  createReturnSeries,
+  tradeReturn,
+  addReturn,
+  computeRiskRatios,
+  EquityCurve,
+  DEFAULT_STARTING_CAPITAL_USD,
+  createEquityCurve,
+  applyPnl,
+  computeDrawdownStats
+} from './risk-metrics';
+import {
+  UptimeState,
+  Liveness,
+  UPTIME_WINDOWS,
+  recordHeartbeat,
+  computeUptime,
+  computeUptimeStats,
+  getLiveness
+} from './uptime';
+import {
+  PositionBook,
+  DEFAULT_COST_BASIS_METHOD,
+  createPositionBook,
+  applySwap,
+  tradeValueUsd,
+  computeUnrealizedPnl,
+  summarizePositions
+} from './positions';
+import { priceFeed } from './price-feed';
+import { detectAnomalies, scoringStatus, ANOMALY_LOOKBACK_MS } from './anomaly-detector';
+import { computeAvgPnlBounds, computeWinRateBounds } from './confidence';
 import { 
   PerformanceMetrics, 
   EncryptedMetrics, 
   TradeRecord,
+  TradeQuery,
+  TradePage,
+  TradeLogResult,
+  CostBasisMethod,
+  AgentPositions,
+  PairMetrics,
+  MetricsPeriod,
+  TradeAnomaly,
+  ScoringStatus,
+  AgentFlags,
   Agent 
 } from '../types';
 
@@ -19,10 +63,33 @@ interface StoredAgent extends Agent {
   api_key_hash?: string;
 }
 
+// Metrics plus the risk state trades are folded into
+interface AgentTradeState {
+  metrics: PerformanceMetrics;
+  returnSeries: ReturnSeries;
+  equityCurve: EquityCurve;
+  positions: PositionBook;
+}
+
 // In-memory fallback store (used when DB unavailable)
 const agentStore = new Map<string, StoredAgent>();
 const encryptedMetricsMap = new Map<string, EncryptedMetrics>();
 const rawMetricsStore = new Map<string, PerformanceMetrics>();
+const returnSeriesStore = new Map<string, ReturnSeries>();
+const equityCurveStore = new Map<string, EquityCurve>();
+const positionBookStore = new Map<string, PositionBook>();
+const uptimeStore = new Map<string, UptimeState>();
+// Agents whose mean PnL bounds predate their latest trades; the bootstrap reruns on the next read
+const stalePnlBounds = new Set<string>();
+
+// Append-only trade ledger in execution order - the source of truth metrics can be rebuilt from
+const tradeLedger = new Map<string, TradeRecord[]>();
+
+// Trades by "agentId:clientTradeId", for idempotent replays
+const clientTradeIndex = new Map<string, TradeRecord>();
+
+// Transaction signatures already backing a verified trade - one transaction verifies one trade
+const verifiedSignatures = new Set<string>();
 
 // Database imports (optional - graceful fallback)
 let prisma: any = null;
@@ -73,6 +140,9 @@ async function loadFromDatabase() {
         api_key: '[HASHED]',
         api_key_hash: dbAgent.apiKey, // DB stores the hash
         public_key: dbAgent.publicKey || undefined,
+        starting_capital_usd: dbAgent.startingCapitalUsd,
+        cost_basis_method: dbAgent.costBasisMethod as CostBasisMethod,
+        scoring_frozen: dbAgent.scoringFrozen,
         created_at: dbAgent.createdAt.getTime()
       };
       agentStore.set(storedAgent.agent_id, storedAgent);
@@ -83,17 +153,85 @@ async function loadFromDatabase() {
           total_trades: dbAgent.metrics.totalTrades,
           winning_trades: dbAgent.metrics.winningTrades,
           total_pnl_usd: dbAgent.metrics.totalPnlUsd,
+          realized_pnl_usd: dbAgent.metrics.realizedPnlUsd,
+          unrealized_pnl_usd: dbAgent.metrics.unrealizedPnlUsd,
+          verified_trades: dbAgent.metrics.verifiedTrades,
+          verified_pnl_usd: dbAgent.metrics.verifiedPnlUsd,
+          volume_usd: dbAgent.metrics.volumeUsd,
+          verified_volume_usd: dbAgent.metrics.verifiedVolumeUsd,
+          winning_volume_usd: dbAgent.metrics.winningVolumeUsd,
+          gross_profit_usd: dbAgent.metrics.grossProfitUsd,
+          gross_loss_usd: dbAgent.metrics.grossLossUsd,
+          flagged_trades: dbAgent.metrics.flaggedTrades,
+          win_rate_lower_bound: dbAgent.metrics.winRateLowerBound,
+          win_rate_upper_bound: dbAgent.metrics.winRateUpperBound,
+          avg_pnl_lower_bound_usd: dbAgent.metrics.avgPnlLowerBoundUsd,
+          avg_pnl_upper_bound_usd: dbAgent.metrics.avgPnlUpperBoundUsd,
           max_drawdown_bps: dbAgent.metrics.maxDrawdownBps,
+          current_drawdown_bps: dbAgent.metrics.currentDrawdownBps,
+          drawdown_duration_ms: dbAgent.metrics.drawdownDurationMs,
+          max_drawdown_duration_ms: dbAgent.metrics.maxDrawdownDurationMs,
+          recovery_time_ms: dbAgent.metrics.recoveryTimeMs,
           sharpe_ratio: dbAgent.metrics.sharpeRatio,
+          sortino_ratio: dbAgent.metrics.sortinoRatio,
+          volatility: dbAgent.metrics.volatility,
           avg_execution_time_ms: dbAgent.metrics.avgExecutionTimeMs,
           uptime_percentage: dbAgent.metrics.uptimePercentage,
+          uptime_24h: dbAgent.metrics.uptime24h,
+          uptime_7d: dbAgent.metrics.uptime7d,
+          last_heartbeat_at: dbAgent.metrics.lastHeartbeatAt?.getTime() ?? null,
           last_updated: dbAgent.metrics.updatedAt.getTime()
         };
         rawMetricsStore.set(storedAgent.agent_id, metrics);
+        stalePnlBounds.add(storedAgent.agent_id);
+        returnSeriesStore.set(
+          storedAgent.agent_id,
+          (dbAgent.metrics.returnSeries as ReturnSeries) || createReturnSeries()
+        );
+        equityCurveStore.set(
+          storedAgent.agent_id,
+          (dbAgent.metrics.equityCurve as EquityCurve) ||
+            createEquityCurve(dbAgent.startingCapitalUsd, storedAgent.created_at)
+        );
+        positionBookStore.set(
+          storedAgent.agent_id,
+          (dbAgent.metrics.positionBook as PositionBook) ||
+            createPositionBook(storedAgent.cost_basis_method)
+        );
+        if (dbAgent.metrics.uptimeState) {
+          uptimeStore.set(storedAgent.agent_id, dbAgent.metrics.uptimeState as UptimeState);
+        }
       }
     }
     
-    console.log(`   Loaded ${agents.length} agents from database`);
+    // Load the trade ledger
+    const trades = await prisma.trade.findMany({
+      orderBy: { createdAt: 'asc' }
+    });
+    for (const dbTrade of trades) {
+      addToLedger({
+        trade_id: dbTrade.id,
+        agent_id: dbTrade.agentId,
+        timestamp: dbTrade.createdAt.getTime(),
+        token_in: dbTrade.tokenIn,
+        token_out: dbTrade.tokenOut,
+        amount_in: dbTrade.amountIn,
+        amount_out: dbTrade.amountOut,
+        pnl_usd: dbTrade.pnlUsd,
+        reported_pnl_usd: dbTrade.reportedPnlUsd ?? undefined,
+        derived_pnl_usd: dbTrade.derivedPnlUsd ?? undefined,
+        pnl_suspicious: dbTrade.pnlSuspicious,
+        notional_usd: dbTrade.notionalUsd ?? undefined,
+        price_source: dbTrade.priceSource || undefined,
+        execution_time_ms: dbTrade.executionTimeMs,
+        client_trade_id: dbTrade.clientTradeId || undefined,
+        tx_signature: dbTrade.txSignature || undefined,
+        verified_onchain: dbTrade.verifiedOnchain,
+        anomalies: (dbTrade.anomalies as TradeAnomaly[] | null) ?? undefined
+      });
+    }
+    
+    console.log(`   Loaded ${agents.length} agents, ${trades.length} trades from database`);
   } catch (error: any) {
     console.log(`   Failed to load from database: ${error?.message}`);
   }
@@ -104,13 +242,181 @@ initDatabase().catch((err) => {
   console.log('Database init error:', err);
 });
 
+// ============================================
+// TRADE LEDGER
+// ============================================
+
+/**
+ * Add a trade to its agent's ledger, keeping it sorted by execution time
+ * Backfilled trades are inserted after any trades with the same timestamp
+ */
+function addToLedger(trade: TradeRecord): void {
+  const ledger = tradeLedger.get(trade.agent_id);
+  if (!ledger) {
+    tradeLedger.set(trade.agent_id, [trade]);
+  } else {
+    let index = ledger.length;
+    while (index > 0 && ledger[index - 1].timestamp > trade.timestamp) index--;
+    ledger.splice(index, 0, trade);
+  }
+
+  if (trade.client_trade_id) {
+    clientTradeIndex.set(`${trade.agent_id}:${trade.client_trade_id}`, trade);
+  }
+  if (trade.verified_onchain && trade.tx_signature) {
+    verifiedSignatures.add(trade.tx_signature);
+  }
+}
+
+// Tail of each agent's pending trade writes
+const agentWriteLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run trade writes for one agent one at a time, in arrival order
+ */
+function withAgentLock<T>(agentId: string, task: () => Promise<T>): Promise<T> {
+  const previous = agentWriteLocks.get(agentId) ?? Promise.resolve();
+  const run = previous.then(task);
+  const tail = run.catch(() => undefined);
+  agentWriteLocks.set(agentId, tail);
+  tail.then(() => {
+    if (agentWriteLocks.get(agentId) === tail) agentWriteLocks.delete(agentId);
+  });
+  return run;
+}
+
+/**
+ * Metrics for an agent with no trades or heartbeats yet
+ */
+function createEmptyMetrics(): PerformanceMetrics {
+  return {
+    total_trades: 0,
+    winning_trades: 0,
+    total_pnl_usd: 0,
+    realized_pnl_usd: 0,
+    unrealized_pnl_usd: 0,
+    verified_trades: 0,
+    verified_pnl_usd: 0,
+    volume_usd: 0,
+    verified_volume_usd: 0,
+    winning_volume_usd: 0,
+    gross_profit_usd: 0,
+    gross_loss_usd: 0,
+    flagged_trades: 0,
+    win_rate_lower_bound: 0,
+    win_rate_upper_bound: 100,
+    avg_pnl_lower_bound_usd: 0,
+    avg_pnl_upper_bound_usd: 0,
+    max_drawdown_bps: 0,
+    current_drawdown_bps: 0,
+    drawdown_duration_ms: 0,
+    max_drawdown_duration_ms: 0,
+    recovery_time_ms: null,
+    sharpe_ratio: 0,
+    sortino_ratio: 0,
+    volatility: 0,
+    avg_execution_time_ms: 0,
+    uptime_percentage: null,
+    uptime_24h: null,
+    uptime_7d: null,
+    last_heartbeat_at: null,
+    last_updated: Date.now()
+  };
+}
+
+/**
+ * Apply one trade to an agent's aggregate metrics, risk state and positions
+ * Shared by live logging and ledger recomputes so both use the same formulas
+ */
+function applyTrade(state: AgentTradeState, trade: TradeRecord): void {
+  const { metrics, returnSeries, equityCurve, positions } = state;
+  const notional = trade.amount_in > 0 && trade.amount_out > 0 ? tradeValueUsd(trade) ?? 0 : 0;
+  metrics.total_trades += 1;
+  metrics.volume_usd += notional;
+  if (trade.pnl_usd > 0) {
+    metrics.winning_trades += 1;
+    metrics.winning_volume_usd += notional;
+    metrics.gross_profit_usd += trade.pnl_usd;
+  } else {
+    metrics.gross_loss_usd -= trade.pnl_usd;
+  }
+  metrics.total_pnl_usd += trade.pnl_usd;
+  if (trade.verified_onchain) {
+    metrics.verified_trades += 1;
+    metrics.verified_pnl_usd += trade.pnl_usd;
+    metrics.verified_volume_usd += notional;
+  }
+  if (trade.anomalies?.length) {
+    metrics.flagged_trades += 1;
+  }
+  Object.assign(metrics, computeWinRateBounds(metrics.winning_trades, metrics.total_trades));
+  
+  // Update average execution time
+  metrics.avg_execution_time_ms = 
+    (metrics.avg_execution_time_ms * (metrics.total_trades - 1) + trade.execution_time_ms) 
+    / metrics.total_trades;
+
+  // Update risk-adjusted returns from the daily return series
+  const ret = tradeReturn(trade.pnl_usd, trade.amount_in);
+  if (ret !== null) {
+    addReturn(returnSeries, trade.timestamp, ret);
+    const ratios = computeRiskRatios(returnSeries);
+    metrics.sharpe_ratio = ratios.sharpe_ratio;
+    metrics.sortino_ratio = ratios.sortino_ratio;
+    metrics.volatility = ratios.volatility;
+  }
+
+  // Track drawdown on the equity curve
+  applyPnl(equityCurve, trade.timestamp, trade.pnl_usd);
+  Object.assign(metrics, computeDrawdownStats(equityCurve));
+
+  // Split PnL into what closed lots realized and what open positions carry
+  applySwap(positions, trade);
+  metrics.realized_pnl_usd = Math.round(positions.realized_pnl_usd * 100) / 100;
+  metrics.unrealized_pnl_usd = Math.round(computeUnrealizedPnl(positions) * 100) / 100;
+}
+
+/**
+ * Refresh the mean PnL bounds once all of `trades` (every trade in the metrics) are applied
+ * The bootstrap depends on the whole sample, so unlike the win rate bounds in applyTrade
+ * they don't update trade by trade. Every metrics read that carries them goes through here
+ */
+function applyPnlBounds(metrics: PerformanceMetrics, trades: TradeRecord[]): void {
+  Object.assign(metrics, computeAvgPnlBounds(trades.map((trade) => trade.pnl_usd)));
+}
+
+/**
+ * Whether trades can be applied on top of a curve last updated at lastAt
+ */
+function isInOrder(trades: TradeRecord[], lastAt: number): boolean {
+  let previous = lastAt;
+  for (const trade of trades) {
+    if (trade.timestamp < previous) return false;
+    previous = trade.timestamp;
+  }
+  return true;
+}
+
 class MetricsStoreService {
+  private metricsListeners: Array<(agentId: string) => void> = [];
+
+  /**
+   * Call `listener` with the agent ID whenever an agent's trade metrics change or it sends a heartbeat
+   */
+  onMetricsChange(listener: (agentId: string) => void): void {
+    this.metricsListeners.push(listener);
+  }
   
   /**
    * Register a new agent
    * Returns the agent with raw API key (only time it's visible)
    */
-  async registerAgent(name: string, publicKey?: string): Promise<Agent> {
+  async registerAgent(
+    name: string,
+    publicKey?: string,
+    startingCapitalUsd: number = DEFAULT_STARTING_CAPITAL_USD,
+    costBasisMethod: CostBasisMethod = DEFAULT_COST_BASIS_METHOD
+  ): Promise<Agent> {
     const agentId = uuidv4();
     const rawApiKey = `atk_${uuidv4().replace(/-/g, '')}`;
     
@@ -123,6 +429,8 @@ class MetricsStoreService {
       name,
       created_at: Date.now(),
       public_key: publicKey,
+      starting_capital_usd: startingCapitalUsd,
+      cost_basis_method: costBasisMethod,
       api_key: rawApiKey // Raw key returned to user once
     };
 
@@ -142,6 +450,8 @@ class MetricsStoreService {
             name,
             apiKey: apiKeyHash, // Store hash, not raw key
             publicKey,
+            startingCapitalUsd,
+            costBasisMethod,
             metrics: { create: {} }
           }
         });
@@ -155,18 +465,10 @@ class MetricsStoreService {
     agentStore.set(agent.agent_id, storedAgent);
     
     // Initialize empty metrics
-    const initialMetrics: PerformanceMetrics = {
-      total_trades: 0,
-      winning_trades: 0,
-      total_pnl_usd: 0,
-      max_drawdown_bps: 0,
-      sharpe_ratio: 0,
-      avg_execution_time_ms: 0,
-      uptime_percentage: 100,
-      last_updated: Date.now()
-    };
-
-    rawMetricsStore.set(agent.agent_id, initialMetrics);
+    rawMetricsStore.set(agent.agent_id, createEmptyMetrics());
+    returnSeriesStore.set(agent.agent_id, createReturnSeries());
+    equityCurveStore.set(agent.agent_id, createEquityCurve(startingCapitalUsd, agent.created_at));
+    positionBookStore.set(agent.agent_id, createPositionBook(costBasisMethod));
 
     // Encrypt and store metrics via Inco FHE
     try {
@@ -226,77 +528,151 @@ class MetricsStoreService {
   /**
    * Log a trade and update metrics
    */
-  async logTrade(trade: TradeRecord): Promise<PerformanceMetrics> {
-    const metrics = rawMetricsStore.get(trade.agent_id);
-    if (!metrics) {
-      throw new Error(`Agent ${trade.agent_id} not found`);
+  async logTrade(trade: TradeRecord): Promise<TradeLogResult> {
+    return this.logTrades(trade.agent_id, [trade]);
+  }
+
+  /**
+   * Log a batch of trades for one agent
+   * Trades are written in a single transaction and folded into one FHE update.
+   * Trades whose client_trade_id was already logged are not re-applied.
+   * A transaction signature already backing a verified trade can't verify another.
+   * Nothing reaches memory unless the transaction commits; a failed write throws.
+   */
+  async logTrades(agentId: string, trades: TradeRecord[]): Promise<TradeLogResult> {
+    if (!rawMetricsStore.has(agentId)) {
+      throw new Error(`Agent ${agentId} not found`);
     }
 
-    // Update metrics
-    metrics.total_trades += 1;
-    if (trade.pnl_usd > 0) {
-      metrics.winning_trades += 1;
+    // One write at a time per agent, so dedupe and the state a batch builds on
+    // can't change while its transaction is in flight
+    return withAgentLock(agentId, () => this.storeTradeBatch(agentId, trades));
+  }
+
+  private async storeTradeBatch(agentId: string, trades: TradeRecord[]): Promise<TradeLogResult> {
+    const metrics = rawMetricsStore.get(agentId)!;
+
+    // Trades earlier in the batch count for dedupe too
+    const batchClientIds = new Map<string, TradeRecord>();
+    const results: TradeRecord[] = [];
+    const applied: TradeRecord[] = [];
+    let batchPnl = 0;
+    for (const trade of trades) {
+      const original = trade.client_trade_id
+        ? this.findTradeByClientId(agentId, trade.client_trade_id) ?? batchClientIds.get(trade.client_trade_id)
+        : undefined;
+      if (original) {
+        results.push(original);
+        continue;
+      }
+
+      if (trade.client_trade_id) {
+        batchClientIds.set(trade.client_trade_id, trade);
+      }
+      if (trade.verified_onchain && trade.tx_signature) {
+        if (verifiedSignatures.has(trade.tx_signature)) {
+          trade.verified_onchain = false;
+        } else {
+          // Claimed now, before any await, so a concurrent batch for another agent can't take it too
+          verifiedSignatures.add(trade.tx_signature);
+        }
+      }
+      results.push(trade);
+      applied.push(trade);
+      batchPnl += trade.pnl_usd;
     }
-    metrics.total_pnl_usd += trade.pnl_usd;
-    
-    // Update average execution time
-    metrics.avg_execution_time_ms = 
-      (metrics.avg_execution_time_ms * (metrics.total_trades - 1) + trade.execution_time_ms) 
-      / metrics.total_trades;
 
-    // Calculate win rate for Sharpe approximation
-    const winRate = metrics.winning_trades / metrics.total_trades;
-    metrics.sharpe_ratio = winRate * 2; // Simplified Sharpe proxy
+    if (applied.length === 0) {
+      return { metrics, trades: results, replayed: trades.length };
+    }
 
-    // Track drawdown
-    if (trade.pnl_usd < 0) {
-      const drawdownBps = Math.abs(trade.pnl_usd * 100);
-      metrics.max_drawdown_bps = Math.max(metrics.max_drawdown_bps, Math.round(drawdownBps));
+    // Screen each trade against the agent's trades around it and the batch trades before it
+    const around = this.tradesAround(agentId, applied);
+    for (const [i, trade] of applied.entries()) {
+      const peers = applied.filter((other, j) =>
+        other.timestamp < trade.timestamp || (other.timestamp === trade.timestamp && j < i));
+      const anomalies = detectAnomalies(trade, around, peers);
+      if (anomalies.length > 0) {
+        trade.anomalies = anomalies;
+      }
     }
 
-    metrics.last_updated = Date.now();
+    // Build the new state on copies; the stores are only touched once it is saved.
+    // Trades that land before the latest one change time-dependent metrics
+    // (drawdown, daily returns) for everything after them, so those rebuild from the ledger.
+    const risk = this.getRiskState(agentId);
+    let state: AgentTradeState;
+    if (isInOrder(applied, risk.equityCurve.last_at)) {
+      state = {
+        metrics: { ...metrics },
+        returnSeries: structuredClone(risk.returnSeries),
+        equityCurve: { ...risk.equityCurve },
+        positions: structuredClone(risk.positions)
+      };
+      for (const trade of applied) {
+        applyTrade(state, trade);
+      }
+    } else {
+      state = this.buildTradeState(agentId, [...this.getTrades(agentId), ...applied]);
+    }
+    const updated = state.metrics;
+    updated.last_updated = Date.now();
 
     // Save to database if available
     if (useDatabase && prisma) {
       try {
-        await prisma.trade.create({
-          data: {
-            agentId: trade.agent_id,
-            tokenIn: trade.token_in,
-            tokenOut: trade.token_out,
-            amountIn: trade.amount_in,
-            amountOut: trade.amount_out,
-            pnlUsd: trade.pnl_usd,
-            executionTimeMs: trade.execution_time_ms
-          }
-        });
-        
-        await prisma.metrics.update({
-          where: { agentId: trade.agent_id },
-          data: {
-            totalTrades: metrics.total_trades,
-            winningTrades: metrics.winning_trades,
-            totalPnlUsd: metrics.total_pnl_usd,
-            avgExecutionTimeMs: metrics.avg_execution_time_ms,
-            sharpeRatio: metrics.sharpe_ratio,
-            maxDrawdownBps: metrics.max_drawdown_bps
-          }
-        });
+        await prisma.$transaction([
+          prisma.trade.createMany({
+            data: applied.map((trade) => ({
+              id: trade.trade_id,
+              agentId: trade.agent_id,
+              tokenIn: trade.token_in,
+              tokenOut: trade.token_out,
+              amountIn: trade.amount_in,
+              amountOut: trade.amount_out,
+              pnlUsd: trade.pnl_usd,
+              reportedPnlUsd: trade.reported_pnl_usd,
+              derivedPnlUsd: trade.derived_pnl_usd,
+              pnlSuspicious: trade.pnl_suspicious,
+              notionalUsd: trade.notional_usd,
+              priceSource: trade.price_source,
+              executionTimeMs: trade.execution_time_ms,
+              clientTradeId: trade.client_trade_id,
+              txSignature: trade.tx_signature,
+              verifiedOnchain: trade.verified_onchain,
+              anomalies: trade.anomalies,
+              createdAt: new Date(trade.timestamp)
+            }))
+          }),
+          prisma.metrics.update({
+            where: { agentId },
+            data: this.toMetricsRow(state)
+          })
+        ]);
       } catch (error) {
-        console.log('⚠️ Database write failed for trade');
+        for (const trade of applied) {
+          if (trade.verified_onchain && trade.tx_signature) verifiedSignatures.delete(trade.tx_signature);
+        }
+        console.log('⚠️ Database write failed for trades, batch not applied');
+        throw new Error(`Failed to store ${applied.length} trades for agent ${agentId}`);
       }
     }
 
+    for (const trade of applied) {
+      addToLedger(trade);
+    }
+    this.commitState(agentId, state);
+
     // Update encrypted metrics via FHE
     try {
-      const existingEncrypted = encryptedMetricsMap.get(trade.agent_id);
+      const existingEncrypted = encryptedMetricsMap.get(agentId);
       if (existingEncrypted?.encrypted_data) {
         const result = await cap402Client.addEncryptedPnL(
           existingEncrypted.encrypted_data,
-          trade.pnl_usd
+          batchPnl
         );
         
-        encryptedMetricsMap.set(trade.agent_id, {
+        encryptedMetricsMap.set(agentId, {
           ...existingEncrypted,
           encrypted_data: result.encrypted_result,
           encryption_proof: result.proof,
@@ -307,6 +683,344 @@ class MetricsStoreService {
       // FHE update failed - continue with local metrics
     }
 
+    return { metrics: updated, trades: results, replayed: trades.length - applied.length };
+  }
+
+  /**
+   * Ledger trades that new trades could form a pattern with
+   */
+  private tradesAround(agentId: string, trades: TradeRecord[]): TradeRecord[] {
+    const from = Math.min(...trades.map((trade) => trade.timestamp)) - ANOMALY_LOOKBACK_MS;
+    const to = Math.max(...trades.map((trade) => trade.timestamp));
+    const ledger = this.getTrades(agentId);
+
+    const around: TradeRecord[] = [];
+    for (let i = ledger.length - 1; i >= 0 && ledger[i].timestamp >= from; i--) {
+      if (ledger[i].timestamp <= to) around.push(ledger[i]);
+    }
+    return around;
+  }
+
+  /**
+   * Whether an agent's reputation is scored in full, without its flagged trades, or not at all
+   */
+  getScoringStatus(agentId: string): ScoringStatus {
+    const metrics = rawMetricsStore.get(agentId);
+    return scoringStatus(
+      metrics?.total_trades ?? 0,
+      metrics?.flagged_trades ?? 0,
+      agentStore.get(agentId)?.scoring_frozen ?? false
+    );
+  }
+
+  /**
+   * Metrics the reputation score and badges are computed from:
+   * the same as the agent's metrics, but without its flagged trades
+   */
+  getScoringMetrics(agentId: string): PerformanceMetrics | undefined {
+    const metrics = this.getMetrics(agentId);
+    if (!metrics || metrics.flagged_trades === 0) return metrics;
+
+    const clean = this.getTrades(agentId).filter((trade) => !trade.anomalies?.length);
+    const { metrics: scoring } = this.buildTradeState(agentId, clean);
+    applyPnlBounds(scoring, clean);
+    return scoring;
+  }
+
+  /**
+   * An agent's flagged trades and scoring status (admin only)
+   */
+  getAgentFlags(agentId: string): AgentFlags | undefined {
+    const agent = agentStore.get(agentId);
+    const metrics = rawMetricsStore.get(agentId);
+    if (!agent || !metrics) return undefined;
+
+    return {
+      agent_id: agentId,
+      scoring_status: this.getScoringStatus(agentId),
+      scoring_frozen: agent.scoring_frozen ?? false,
+      total_trades: metrics.total_trades,
+      flagged_trades: metrics.flagged_trades,
+      trades: this.getTrades(agentId).filter((trade) => trade.anomalies?.length).reverse()
+    };
+  }
+
+  /**
+   * Agents with flagged trades or frozen scoring, most flagged first (admin only)
+   */
+  getFlaggedAgents(): Array<Omit<AgentFlags, 'trades'> & { name: string }> {
+    return Array.from(agentStore.values())
+      .filter((agent) => agent.scoring_frozen || (rawMetricsStore.get(agent.agent_id)?.flagged_trades ?? 0) > 0)
+      .map((agent) => {
+        const metrics = rawMetricsStore.get(agent.agent_id);
+        return {
+          agent_id: agent.agent_id,
+          name: agent.name,
+          scoring_status: this.getScoringStatus(agent.agent_id),
+          scoring_frozen: agent.scoring_frozen ?? false,
+          total_trades: metrics?.total_trades ?? 0,
+          flagged_trades: metrics?.flagged_trades ?? 0
+        };
+      })
+      .sort((a, b) => b.flagged_trades - a.flagged_trades);
+  }
+
+  /**
+   * Freeze or unfreeze an agent's reputation scoring pending review (admin only)
+   */
+  async setScoringFrozen(agentId: string, frozen: boolean): Promise<AgentFlags> {
+    const agent = agentStore.get(agentId);
+    if (!agent) {
+      throw new Error(`Agent ${agentId} not found`);
+    }
+
+    if (useDatabase && prisma) {
+      try {
+        await prisma.agent.update({ where: { id: agentId }, data: { scoringFrozen: frozen } });
+      } catch (error) {
+        console.log('⚠️ Database write failed for scoring freeze');
+        throw new Error(`Failed to update scoring for agent ${agentId}`);
+      }
+    }
+
+    agent.scoring_frozen = frozen;
+    return this.getAgentFlags(agentId)!;
+  }
+
+  /**
+   * Find a previously logged trade by its client-supplied ID
+   */
+  findTradeByClientId(agentId: string, clientTradeId: string): TradeRecord | undefined {
+    return clientTradeIndex.get(`${agentId}:${clientTradeId}`);
+  }
+
+  /**
+   * Rebuild an agent's metrics from its trade ledger
+   * Lets formula fixes apply retroactively; uptime is heartbeat-derived and kept as-is
+   */
+  async recomputeMetrics(agentId: string): Promise<PerformanceMetrics> {
+    if (!agentStore.has(agentId) || !rawMetricsStore.has(agentId)) {
+      throw new Error(`Agent ${agentId} not found`);
+    }
+
+    return withAgentLock(agentId, () => this.rebuildMetrics(agentId));
+  }
+
+  private async rebuildMetrics(agentId: string): Promise<PerformanceMetrics> {
+    const trades = this.getTrades(agentId);
+    const state = this.buildTradeState(agentId, trades);
+    // The stored row gets fresh PnL bounds, so they don't need recomputing on the next read
+    applyPnlBounds(state.metrics, trades);
+
+    // Save before committing, so a failed write leaves the current metrics in place
+    if (useDatabase && prisma) {
+      try {
+        await prisma.metrics.update({
+          where: { agentId },
+          data: this.toMetricsRow(state)
+        });
+      } catch (error) {
+        console.log('⚠️ Database write failed for recomputed metrics, not applied');
+        throw new Error(`Failed to store recomputed metrics for agent ${agentId}`);
+      }
+    }
+
+    this.commitState(agentId, state, true);
+    const metrics = this.getMetrics(agentId)!;
+
+    // Re-encrypt the rebuilt PnL total so FHE state matches the ledger
+    try {
+      const existingEncrypted = encryptedMetricsMap.get(agentId);
+      if (existingEncrypted) {
+        const encrypted = await cap402Client.encryptMetrics({
+          total_trades: metrics.total_trades,
+          winning_trades: metrics.winning_trades,
+          total_pnl_usd: metrics.total_pnl_usd
+        });
+        encryptedMetricsMap.set(agentId, {
+          ...existingEncrypted,
+          encrypted_data: encrypted.encrypted_data,
+          encryption_proof: encrypted.encryption_proof,
+          last_updated: Date.now()
+        });
+      }
+    } catch (error) {
+      // FHE update failed - continue with local metrics
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Rebuild metrics for every agent from the trade ledger
+   */
+  async recomputeAllMetrics(): Promise<{ agents: number; trades: number }> {
+    let trades = 0;
+    for (const agentId of agentStore.keys()) {
+      await this.recomputeMetrics(agentId);
+      trades += tradeLedger.get(agentId)?.length || 0;
+    }
+    return { agents: agentStore.size, trades };
+  }
+
+  /**
+   * Get an agent's trade ledger (oldest first)
+   */
+  getTrades(agentId: string): TradeRecord[] {
+    return tradeLedger.get(agentId) || [];
+  }
+
+  /**
+   * Page through an agent's trades, newest first
+   */
+  queryTrades(agentId: string, query: TradeQuery): TradePage {
+    const after = query.cursor ? decodeCursor(query.cursor) : null;
+
+    const matching = this.getTrades(agentId)
+      .filter((trade) => {
+        if (query.from !== undefined && trade.timestamp < query.from) return false;
+        if (query.to !== undefined && trade.timestamp > query.to) return false;
+        if (query.token_in && trade.token_in !== query.token_in) return false;
+        if (query.token_out && trade.token_out !== query.token_out) return false;
+        if (query.outcome === 'win' && trade.pnl_usd <= 0) return false;
+        if (query.outcome === 'loss' && trade.pnl_usd > 0) return false;
+        return true;
+      })
+      .sort((a, b) => b.timestamp - a.timestamp || b.trade_id.localeCompare(a.trade_id));
+
+    const start = after
+      ? matching.findIndex((trade) =>
+          trade.timestamp < after.key ||
+          (trade.timestamp === after.key && trade.trade_id.localeCompare(after.id) < 0))
+      : 0;
+    const trades = start === -1 ? [] : matching.slice(start, start + query.limit);
+
+    const last = trades[trades.length - 1];
+    const hasMore = start !== -1 && start + query.limit < matching.length;
+    return {
+      trades,
+      next_cursor: hasMore && last ? encodeCursor({ key: last.timestamp, id: last.trade_id }) : null
+    };
+  }
+
+  /**
+   * Per-pair breakdown of an agent's trades, most traded pair first
+   * Only trades within the period count when one is given
+   */
+  getPairMetrics(agentId: string, period?: MetricsPeriod): PairMetrics[] {
+    const pairs = new Map<string, PairMetrics>();
+    for (const trade of this.getTrades(agentId)) {
+      if (period && (trade.timestamp < period.from || trade.timestamp > period.to)) continue;
+
+      const key = `${trade.token_in}/${trade.token_out}`;
+      let pair = pairs.get(key);
+      if (!pair) {
+        pair = {
+          pair: key,
+          token_in: trade.token_in,
+          token_out: trade.token_out,
+          total_trades: 0,
+          winning_trades: 0,
+          win_rate: 0,
+          total_pnl_usd: 0,
+          avg_execution_time_ms: 0
+        };
+        pairs.set(key, pair);
+      }
+
+      pair.total_trades += 1;
+      if (trade.pnl_usd > 0) {
+        pair.winning_trades += 1;
+      }
+      pair.total_pnl_usd += trade.pnl_usd;
+      pair.avg_execution_time_ms += (trade.execution_time_ms - pair.avg_execution_time_ms) / pair.total_trades;
+    }
+
+    return Array.from(pairs.values())
+      .map((pair) => ({
+        ...pair,
+        win_rate: (pair.winning_trades / pair.total_trades) * 100,
+        total_pnl_usd: Math.round(pair.total_pnl_usd * 100) / 100
+      }))
+      .sort((a, b) => b.total_trades - a.total_trades || a.pair.localeCompare(b.pair));
+  }
+
+  /**
+   * Open positions for an agent, marked at current prices
+   * Tokens with no current price stay at their latest trade price
+   */
+  async getPositions(agentId: string): Promise<AgentPositions | undefined> {
+    if (!rawMetricsStore.has(agentId)) return undefined;
+
+    const book = this.getRiskState(agentId).positions;
+    const now = Date.now();
+    const prices: Record<string, number> = {};
+    await Promise.all(Object.keys(book.positions).map(async (token) => {
+      const price = await priceFeed.getPrice(token, now);
+      if (price) prices[token] = price.price_usd;
+    }));
+
+    const positions = summarizePositions(book, prices);
+    return {
+      method: book.method,
+      positions,
+      realized_pnl_usd: Math.round(book.realized_pnl_usd * 100) / 100,
+      unrealized_pnl_usd: Math.round(positions.reduce((sum, p) => sum + p.unrealized_pnl_usd, 0) * 100) / 100,
+      priced_at: now
+    };
+  }
+
+  /**
+   * Metrics over the trades executed within a period
+   * Drawdown is measured from the agent's equity when the period began, and
+   * realized PnL only counts lots closed within the period. With `excludeFlagged`
+   * the agent's flagged trades are left out, as in getScoringMetrics
+   */
+  getWindowedMetrics(agentId: string, period: MetricsPeriod, excludeFlagged: boolean = false): PerformanceMetrics | undefined {
+    if (!rawMetricsStore.has(agentId)) return undefined;
+
+    const agent = agentStore.get(agentId);
+    const trades = this.getTrades(agentId).filter((trade) => !excludeFlagged || !trade.anomalies?.length);
+    const before = trades.filter((trade) => trade.timestamp < period.from);
+    const within = trades.filter((trade) => trade.timestamp >= period.from && trade.timestamp <= period.to);
+
+    // Lots opened before the period still carry their cost basis into it
+    const positions = createPositionBook(agent?.cost_basis_method);
+    for (const trade of before) {
+      applySwap(positions, trade);
+    }
+    positions.realized_pnl_usd = 0;
+
+    const createdAt = agent?.created_at ?? period.from;
+    const startingEquity = (agent?.starting_capital_usd ?? DEFAULT_STARTING_CAPITAL_USD) +
+      before.reduce((sum, trade) => sum + trade.pnl_usd, 0);
+    const state: AgentTradeState = {
+      metrics: createEmptyMetrics(),
+      returnSeries: createReturnSeries(),
+      equityCurve: createEquityCurve(
+        startingEquity,
+        Math.max(period.from, Math.min(createdAt, trades[0]?.timestamp ?? createdAt))
+      ),
+      positions
+    };
+
+    for (const trade of within) {
+      applyTrade(state, trade);
+    }
+    applyPnlBounds(state.metrics, within);
+    const { metrics } = state;
+    metrics.unrealized_pnl_usd = Math.round(computeUnrealizedPnl(positions) * 100) / 100;
+
+    // Heartbeat coverage is only kept for 30 days, so longer windows report that
+    const uptime = uptimeStore.get(agentId);
+    if (uptime) {
+      this.applyUptime(metrics, uptime, period.to);
+      metrics.uptime_percentage = computeUptime(
+        uptime,
+        period.to,
+        Math.min(period.to - period.from, UPTIME_WINDOWS['30d'])
+      );
+    }
     return metrics;
   }
 
@@ -314,9 +1028,219 @@ class MetricsStoreService {
    * Get raw metrics for an agent
    */
   getMetrics(agentId: string): PerformanceMetrics | undefined {
+    const metrics = rawMetricsStore.get(agentId);
+    const uptime = uptimeStore.get(agentId);
+    // Uptime keeps decaying between heartbeats, so refresh it on read
+    if (metrics && uptime) {
+      this.applyUptime(metrics, uptime, Date.now());
+    }
+    // The PnL bootstrap runs once per ledger change, when the metrics are next read
+    if (metrics && stalePnlBounds.has(agentId)) {
+      applyPnlBounds(metrics, this.getTrades(agentId));
+      stalePnlBounds.delete(agentId);
+    }
+    return metrics;
+  }
+
+  /**
+   * Trade counts and win rate bounds, read without running the PnL bootstrap
+   * For per-trade readers such as the leaderboard index
+   */
+  getTradeSummary(
+    agentId: string
+  ): Pick<PerformanceMetrics, 'total_trades' | 'winning_trades' | 'win_rate_lower_bound' | 'win_rate_upper_bound'> | undefined {
     return rawMetricsStore.get(agentId);
   }
 
+  /**
+   * Record a heartbeat and update rolling uptime
+   */
+  async recordHeartbeat(agentId: string, expectedIntervalMs?: number): Promise<{
+    metrics: PerformanceMetrics;
+    expected_interval_ms: number;
+  }> {
+    const metrics = rawMetricsStore.get(agentId);
+    if (!metrics) {
+      throw new Error(`Agent ${agentId} not found`);
+    }
+
+    const now = Date.now();
+    const uptime = recordHeartbeat(uptimeStore.get(agentId), now, expectedIntervalMs);
+    uptimeStore.set(agentId, uptime);
+    this.applyUptime(metrics, uptime, now);
+    metrics.last_updated = now;
+
+    if (useDatabase && prisma) {
+      try {
+        await prisma.metrics.update({
+          where: { agentId },
+          data: {
+            uptimePercentage: metrics.uptime_percentage,
+            uptime24h: metrics.uptime_24h,
+            uptime7d: metrics.uptime_7d,
+            lastHeartbeatAt: new Date(now),
+            uptimeState: uptime
+          }
+        });
+      } catch (error) {
+        console.log('⚠️ Database write failed for heartbeat');
+      }
+    }
+
+    this.notifyMetricsChange(agentId);
+    return { metrics, expected_interval_ms: uptime.expected_interval_ms };
+  }
+
+  /**
+   * When the agent last traded or sent a heartbeat, or null if it has done neither
+   */
+  getLastActiveAt(agentId: string): number | null {
+    const trades = this.getTrades(agentId);
+    const lastTradeAt = trades.length > 0 ? trades[trades.length - 1].timestamp : null;
+    const lastHeartbeatAt = uptimeStore.get(agentId)?.last_heartbeat_at ?? null;
+    if (lastTradeAt === null) return lastHeartbeatAt;
+    return lastHeartbeatAt === null ? lastTradeAt : Math.max(lastTradeAt, lastHeartbeatAt);
+  }
+
+  /**
+   * Get liveness from the agent's latest heartbeat
+   */
+  getLiveness(agentId: string): Liveness {
+    return getLiveness(uptimeStore.get(agentId), Date.now());
+  }
+
+  /**
+   * Fold trades into fresh metrics and risk state, oldest first
+   * The equity curve starts at registration, or at the first trade if history was backfilled
+   */
+  private buildTradeState(agentId: string, trades: TradeRecord[]): AgentTradeState {
+    const agent = agentStore.get(agentId);
+    const current = rawMetricsStore.get(agentId);
+    const sorted = [...trades].sort((a, b) => a.timestamp - b.timestamp);
+    const createdAt = agent?.created_at ?? Date.now();
+    const state: AgentTradeState = {
+      metrics: {
+        ...createEmptyMetrics(),
+        uptime_percentage: current?.uptime_percentage ?? null,
+        uptime_24h: current?.uptime_24h ?? null,
+        uptime_7d: current?.uptime_7d ?? null,
+        last_heartbeat_at: current?.last_heartbeat_at ?? null
+      },
+      returnSeries: createReturnSeries(),
+      equityCurve: createEquityCurve(
+        agent?.starting_capital_usd ?? DEFAULT_STARTING_CAPITAL_USD,
+        Math.min(createdAt, sorted[0]?.timestamp ?? createdAt)
+      ),
+      positions: createPositionBook(agent?.cost_basis_method)
+    };
+
+    for (const trade of sorted) {
+      applyTrade(state, trade);
+    }
+    return state;
+  }
+
+  private getRiskState(agentId: string): {
+    returnSeries: ReturnSeries;
+    equityCurve: EquityCurve;
+    positions: PositionBook;
+  } {
+    let returnSeries = returnSeriesStore.get(agentId);
+    if (!returnSeries) {
+      returnSeries = createReturnSeries();
+      returnSeriesStore.set(agentId, returnSeries);
+    }
+
+    let equityCurve = equityCurveStore.get(agentId);
+    if (!equityCurve) {
+      const agent = agentStore.get(agentId);
+      equityCurve = createEquityCurve(
+        agent?.starting_capital_usd ?? DEFAULT_STARTING_CAPITAL_USD,
+        agent?.created_at ?? Date.now()
+      );
+      equityCurveStore.set(agentId, equityCurve);
+    }
+
+    let positions = positionBookStore.get(agentId);
+    if (!positions) {
+      positions = createPositionBook(agentStore.get(agentId)?.cost_basis_method);
+      positionBookStore.set(agentId, positions);
+    }
+
+    return { returnSeries, equityCurve, positions };
+  }
+
+  /**
+   * Make rebuilt metrics and risk state the agent's current state
+   * Unless `pnlBoundsCurrent`, the PnL bounds are recomputed when the metrics are next read
+   */
+  private commitState(agentId: string, state: AgentTradeState, pnlBoundsCurrent: boolean = false): void {
+    // Heartbeats don't take the agent lock, so pick up any that landed meanwhile
+    const uptime = uptimeStore.get(agentId);
+    if (uptime) {
+      this.applyUptime(state.metrics, uptime, Date.now());
+    }
+
+    rawMetricsStore.set(agentId, state.metrics);
+    if (pnlBoundsCurrent) {
+      stalePnlBounds.delete(agentId);
+    } else {
+      stalePnlBounds.add(agentId);
+    }
+    returnSeriesStore.set(agentId, state.returnSeries);
+    equityCurveStore.set(agentId, state.equityCurve);
+    positionBookStore.set(agentId, state.positions);
+    this.notifyMetricsChange(agentId);
+  }
+
+  private notifyMetricsChange(agentId: string): void {
+    for (const listener of this.metricsListeners) {
+      listener(agentId);
+    }
+  }
+
+  private toMetricsRow({ metrics, returnSeries, equityCurve, positions }: AgentTradeState) {
+    return {
+      totalTrades: metrics.total_trades,
+      winningTrades: metrics.winning_trades,
+      totalPnlUsd: metrics.total_pnl_usd,
+      realizedPnlUsd: metrics.realized_pnl_usd,
+      unrealizedPnlUsd: metrics.unrealized_pnl_usd,
+      positionBook: positions,
+      verifiedTrades: metrics.verified_trades,
+      verifiedPnlUsd: metrics.verified_pnl_usd,
+      volumeUsd: metrics.volume_usd,
+      verifiedVolumeUsd: metrics.verified_volume_usd,
+      winningVolumeUsd: metrics.winning_volume_usd,
+      grossProfitUsd: metrics.gross_profit_usd,
+      grossLossUsd: metrics.gross_loss_usd,
+      flaggedTrades: metrics.flagged_trades,
+      winRateLowerBound: metrics.win_rate_lower_bound,
+      winRateUpperBound: metrics.win_rate_upper_bound,
+      avgPnlLowerBoundUsd: metrics.avg_pnl_lower_bound_usd,
+      avgPnlUpperBoundUsd: metrics.avg_pnl_upper_bound_usd,
+      avgExecutionTimeMs: metrics.avg_execution_time_ms,
+      sharpeRatio: metrics.sharpe_ratio,
+      sortinoRatio: metrics.sortino_ratio,
+      volatility: metrics.volatility,
+      returnSeries,
+      maxDrawdownBps: metrics.max_drawdown_bps,
+      currentDrawdownBps: metrics.current_drawdown_bps,
+      drawdownDurationMs: metrics.drawdown_duration_ms,
+      maxDrawdownDurationMs: metrics.max_drawdown_duration_ms,
+      recoveryTimeMs: metrics.recovery_time_ms,
+      equityCurve
+    };
+  }
+
+  private applyUptime(metrics: PerformanceMetrics, uptime: UptimeState, now: number): void {
+    const stats = computeUptimeStats(uptime, now);
+    metrics.uptime_percentage = stats.uptime_30d;
+    metrics.uptime_24h = stats.uptime_24h;
+    metrics.uptime_7d = stats.uptime_7d;
+    metrics.last_heartbeat_at = uptime.last_heartbeat_at;
+  }
+
   /**
    * Get encrypted metrics (public - can be shared)
    */
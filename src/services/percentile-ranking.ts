@@ -0,0 +1,45 @@
+/**
+ * Percentile Ranking
+ * Where each verified agent stands in the verified population, so the starred
+ * tiers mean "top 1% / 5% / 15%" rather than a fixed score
+ */
+
+import { envNumber } from '../utils/env';
+
+// Below this many verified agents no one can be in the top 1%, so percentile
+// cutoffs stay off and tiers come from scores and track records alone
+export function getMinCohort(): number {
+  return envNumber('REPUTATION_PERCENTILE_MIN_COHORT', 100);
+}
+
+export interface PercentileStanding {
+  percentile: number;   // Top X%, 2 decimals
+  cohort_size: number;
+}
+
+/**
+ * Rank a cohort on score, highest first
+ * Tied agents share the better rank, so equal scores always land in the same tier
+ */
+export function rankCohort(scores: Array<{ agent_id: string; score: number }>): Map<string, PercentileStanding> {
+  const sorted = [...scores].sort((a, b) => b.score - a.score);
+  const standings = new Map<string, PercentileStanding>();
+
+  let rank = 0;
+  sorted.forEach((entry, index) => {
+    if (index === 0 || entry.score < sorted[index - 1].score) rank = index + 1;
+    standings.set(entry.agent_id, {
+      percentile: Math.round((rank / sorted.length) * 10000) / 100,
+      cohort_size: sorted.length
+    });
+  });
+
+  return standings;
+}
+
+/**
+ * "top 4.17% of 120 agents"
+ */
+export function describeStanding(percentile: number, cohortSize: number): string {
+  return `top ${percentile}% of ${cohortSize} ${cohortSize === 1 ? 'agent' : 'agents'}`;
+}
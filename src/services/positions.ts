@@ -0,0 +1,198 @@
+/**
+ * Positions
+ * Per-token inventory built from trade flows, with realized and unrealized PnL
+ */
+
+import { CostBasisMethod, PositionSummary } from '../types';
+
+// USD-pegged tokens are treated as cash rather than positions
+const CASH_TOKENS = new Set(['USD', 'USDC', 'USDT']);
+
+// Quantities this close to zero count as a closed position
+const DUST = 1e-9;
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'fifo';
+
+// One purchase still (partly) held
+export interface Lot {
+  quantity: number;
+  unit_cost_usd: number;
+  opened_at: number;
+}
+
+export interface TokenPosition {
+  quantity: number;
+  cost_usd: number;       // Cost basis of what is still held
+  lots: Lot[];            // FIFO only; average-cost keeps a single pooled lot
+  mark_price_usd: number; // Price at the token's latest trade
+  marked_at: number;
+}
+
+/**
+ * Per-agent position book.
+ * Each swap sells token_in out of its lots and buys token_out at the trade's USD value.
+ */
+export interface PositionBook {
+  method: CostBasisMethod;
+  positions: Record<string, TokenPosition>;
+  realized_pnl_usd: number;
+}
+
+// The trade fields positions are built from
+export interface PositionTrade {
+  timestamp: number;
+  token_in: string;
+  token_out: string;
+  amount_in: number;
+  amount_out: number;
+  notional_usd?: number;
+}
+
+/**
+ * Create an empty position book
+ */
+export function createPositionBook(method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD): PositionBook {
+  return { method, positions: {}, realized_pnl_usd: 0 };
+}
+
+export function isCashToken(token: string): boolean {
+  return CASH_TOKENS.has(token.toUpperCase());
+}
+
+/**
+ * USD value of a trade: the cash leg when there is one, else its priced notional
+ * Returns null when the trade can't be valued
+ */
+export function tradeValueUsd(trade: PositionTrade): number | null {
+  if (isCashToken(trade.token_in)) return trade.amount_in;
+  if (isCashToken(trade.token_out)) return trade.amount_out;
+  return trade.notional_usd ?? null;
+}
+
+/**
+ * Apply a swap to the book, realizing PnL on whatever token_in lots it closes
+ * Trades that can't be valued in USD leave the book unchanged
+ */
+export function applySwap(book: PositionBook, trade: PositionTrade): void {
+  const value = tradeValueUsd(trade);
+  if (value === null || !(trade.amount_in > 0) || !(trade.amount_out > 0)) return;
+
+  if (!isCashToken(trade.token_in)) {
+    const position = getPosition(book, trade.token_in);
+    const held = Math.min(trade.amount_in, position.quantity);
+    if (held > 0) {
+      // Proceeds are pro-rated when selling more than the book holds;
+      // inventory from before tracking started has no known cost, so realizes nothing
+      const proceeds = value * (held / trade.amount_in);
+      book.realized_pnl_usd += proceeds - closeLots(book.method, position, held);
+    }
+    mark(position, value / trade.amount_in, trade.timestamp);
+    prune(book, trade.token_in);
+  }
+
+  if (!isCashToken(trade.token_out)) {
+    const position = getPosition(book, trade.token_out);
+    openLot(book.method, position, trade.amount_out, value, trade.timestamp);
+    mark(position, value / trade.amount_out, trade.timestamp);
+  }
+}
+
+/**
+ * Unrealized PnL of open positions at the given prices (token -> USD)
+ * Tokens without a price are marked at their latest trade price
+ */
+export function computeUnrealizedPnl(book: PositionBook, prices: Record<string, number> = {}): number {
+  return summarizePositions(book, prices)
+    .reduce((sum, position) => sum + position.unrealized_pnl_usd, 0);
+}
+
+/**
+ * Open positions, largest cost basis first
+ */
+export function summarizePositions(book: PositionBook, prices: Record<string, number> = {}): PositionSummary[] {
+  return Object.entries(book.positions)
+    .map(([token, position]) => {
+      const price = prices[token] ?? position.mark_price_usd;
+      const marketValue = position.quantity * price;
+      return {
+        token,
+        quantity: position.quantity,
+        avg_cost_usd: round(position.cost_usd / position.quantity),
+        cost_usd: round(position.cost_usd),
+        price_usd: price,
+        market_value_usd: round(marketValue),
+        unrealized_pnl_usd: round(marketValue - position.cost_usd),
+        lots: position.lots.length
+      };
+    })
+    .sort((a, b) => b.cost_usd - a.cost_usd);
+}
+
+function getPosition(book: PositionBook, token: string): TokenPosition {
+  let position = book.positions[token];
+  if (!position) {
+    position = { quantity: 0, cost_usd: 0, lots: [], mark_price_usd: 0, marked_at: 0 };
+    book.positions[token] = position;
+  }
+  return position;
+}
+
+function openLot(method: CostBasisMethod, position: TokenPosition, quantity: number, costUsd: number, at: number): void {
+  position.quantity += quantity;
+  position.cost_usd += costUsd;
+
+  if (method === 'average') {
+    position.lots = [{
+      quantity: position.quantity,
+      unit_cost_usd: position.cost_usd / position.quantity,
+      opened_at: position.lots[0]?.opened_at ?? at
+    }];
+  } else {
+    position.lots.push({ quantity, unit_cost_usd: costUsd / quantity, opened_at: at });
+  }
+}
+
+/**
+ * Remove quantity from a position, returning the cost basis it carried
+ */
+function closeLots(method: CostBasisMethod, position: TokenPosition, quantity: number): number {
+  let cost = 0;
+  if (method === 'average') {
+    cost = position.cost_usd * (quantity / position.quantity);
+    const lot = position.lots[0];
+    if (lot) lot.quantity -= quantity;
+  } else {
+    let remaining = quantity;
+    while (remaining > DUST && position.lots.length > 0) {
+      const lot = position.lots[0];
+      const used = Math.min(lot.quantity, remaining);
+      cost += used * lot.unit_cost_usd;
+      lot.quantity -= used;
+      remaining -= used;
+      if (lot.quantity <= DUST) position.lots.shift();
+    }
+  }
+
+  position.quantity -= quantity;
+  position.cost_usd -= cost;
+  return cost;
+}
+
+function mark(position: TokenPosition, price: number, at: number): void {
+  if (at >= position.marked_at) {
+    position.mark_price_usd = price;
+    position.marked_at = at;
+  }
+}
+
+// Closed positions leave the book
+function prune(book: PositionBook, token: string): void {
+  const position = book.positions[token];
+  if (position && position.quantity <= DUST) {
+    delete book.positions[token];
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,163 @@
+/**
+ * Price Feed
+ * USD prices at execution time via cap.price.lookup.v1, with a cache. A
+ * deterministic local stub stands in only when PRICE_FEED=local, for offline runs
+ */
+
+import { cap402Client } from '../cap402/client';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Prices are looked up (and cached) per token per minute
+const PRICE_BUCKET_MS = 60 * 1000;
+const MAX_CACHED_PRICES = 10000;
+
+// Reported PnL further than this fraction of the trade's notional from the
+// mark-to-market PnL is flagged as suspicious
+const SUSPICIOUS_PNL_FRACTION = 0.05;
+const SUSPICIOUS_PNL_MIN_USD = 1;
+
+// Reference prices for the local stub; stablecoins stay pegged
+const STUB_PRICES_USD: Record<string, number> = {
+  USDC: 1,
+  USDT: 1,
+  SOL: 150,
+  BTC: 65000,
+  ETH: 3500,
+  JUP: 0.9,
+  BONK: 0.00002
+};
+const STABLECOINS = new Set(['USDC', 'USDT']);
+const STUB_SOURCE = 'local-stub';
+
+export interface TokenPrice {
+  price_usd: number;
+  source: string;
+}
+
+// The trade fields PnL is derived from
+export interface PricedTrade {
+  token_in: string;
+  token_out: string;
+  amount_in: number;
+  amount_out: number;
+  pnl_usd?: number;
+}
+
+export interface MarkedPnl {
+  pnl_usd: number | null;          // Reported when given, else derived
+  reported_pnl_usd?: number;
+  derived_pnl_usd?: number;
+  pnl_suspicious: boolean;
+  notional_usd?: number;           // USD value of the trade at execution
+  price_source?: string;           // Where the prices behind the derived PnL and notional came from; absent when unpriced
+}
+
+/**
+ * Deterministic stub price: the reference price with a gentle daily cycle,
+ * so time still matters offline. Unknown tokens have no price.
+ */
+export function stubPrice(token: string, at: number): number | null {
+  const base = STUB_PRICES_USD[token.toUpperCase()];
+  if (base === undefined) return null;
+  if (STABLECOINS.has(token.toUpperCase())) return base;
+
+  const hour = Math.floor(at / HOUR_MS);
+  return base * (1 + 0.02 * Math.sin((2 * Math.PI * hour) / 24));
+}
+
+class PriceFeedService {
+  // "TOKEN:bucket" -> lookup, shared by concurrent requests for the same price
+  private cache = new Map<string, Promise<TokenPrice | null>>();
+
+  /**
+   * USD price of a token at a point in time, or null when no source has one
+   * PRICE_FEED=local skips CAP-402 and uses the stub; otherwise only CAP-402 prices count
+   */
+  getPrice(token: string, at: number): Promise<TokenPrice | null> {
+    const bucket = Math.floor(at / PRICE_BUCKET_MS);
+    const key = `${token.toUpperCase()}:${bucket}`;
+
+    let lookup = this.cache.get(key);
+    if (!lookup) {
+      lookup = this.lookup(token, bucket * PRICE_BUCKET_MS);
+      this.cache.set(key, lookup);
+      // Oldest entries go first once the cache is full
+      if (this.cache.size > MAX_CACHED_PRICES) {
+        this.cache.delete(this.cache.keys().next().value!);
+      }
+      // A missing price is retried on the next lookup
+      const pending = lookup;
+      pending.then((price) => {
+        if (!price && this.cache.get(key) === pending) {
+          this.cache.delete(key);
+        }
+      });
+    }
+    return lookup;
+  }
+
+  /**
+   * Derive a trade's USD PnL from prices at execution time
+   * PnL is the value received minus the value given up; reported PnL is kept
+   * alongside and flagged when the two disagree by too much
+   */
+  async markToMarket(trade: PricedTrade, at: number): Promise<MarkedPnl> {
+    let derived: number | undefined;
+    let notional: number | undefined;
+    const sources = new Set<string>();
+    if (trade.amount_in > 0 && trade.amount_out > 0) {
+      const [priceIn, priceOut] = await Promise.all([
+        this.getPrice(trade.token_in, at),
+        this.getPrice(trade.token_out, at)
+      ]);
+      if (priceIn) {
+        notional = round(trade.amount_in * priceIn.price_usd);
+        sources.add(priceIn.source);
+      } else if (priceOut) {
+        notional = round(trade.amount_out * priceOut.price_usd);
+        sources.add(priceOut.source);
+      }
+      if (priceIn && priceOut) {
+        derived = round(trade.amount_out * priceOut.price_usd - trade.amount_in * priceIn.price_usd);
+        sources.add(priceOut.source);
+      }
+    }
+
+    const reported = trade.pnl_usd;
+    const suspicious = reported !== undefined && derived !== undefined &&
+      Math.abs(reported - derived) > Math.max((notional ?? 0) * SUSPICIOUS_PNL_FRACTION, SUSPICIOUS_PNL_MIN_USD);
+
+    return {
+      pnl_usd: reported ?? derived ?? null,
+      reported_pnl_usd: reported,
+      derived_pnl_usd: derived,
+      pnl_suspicious: suspicious,
+      notional_usd: notional,
+      price_source: sources.size > 0 ? Array.from(sources).join(',') : undefined
+    };
+  }
+
+  private async lookup(token: string, at: number): Promise<TokenPrice | null> {
+    if (process.env.PRICE_FEED === 'local') {
+      const price = stubPrice(token, at);
+      return price === null ? null : { price_usd: price, source: STUB_SOURCE };
+    }
+
+    try {
+      const quote = await cap402Client.getPrice(token, 'USD', at);
+      if (quote.price > 0) {
+        return { price_usd: quote.price, source: quote.source };
+      }
+    } catch (error) {
+      // Price lookup failed - the trade goes unpriced rather than on made-up prices
+    }
+    return null;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const priceFeed = new PriceFeedService();
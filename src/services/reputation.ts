@@ -4,15 +4,32 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { cap402Client } from '../cap402/client';
+import { cap402Client, StrategyPerformance } from '../cap402/client';
 import { metricsStore } from './metrics-store';
+import { resolveWindow } from '../utils/metrics-window';
+import { defaultScoringModel, scoringModelRef } from './scoring-models';
+import { decayReputation } from './score-decay';
+import { classify, levelForTier } from './classification';
+import { describeStanding, PercentileStanding, rankCohort } from './percentile-ranking';
+import { badgeService } from './badges';
+import { leaderboardIndex } from './leaderboard-index';
+import { decodeCursor, encodeCursor, CursorPosition } from '../utils/pagination';
 import {
   ReputationProof,
   ReputationProofRequest,
   ReputationProofType,
   VerifiedReputation,
   ReputationTier,
-  ReputationBadge
+  ReputationBadge,
+  PerformanceMetrics,
+  PairMetrics,
+  MetricsPeriod,
+  ScoringModel,
+  ReputationDecay,
+  StarRating,
+  LeaderboardEntry,
+  LeaderboardPage,
+  LeaderboardQuery
 } from '../types';
 
 // Store for generated proofs
@@ -44,7 +61,10 @@ async function initReputationDb() {
         badges: rep.badges as ReputationBadge[],
         verification_proof: rep.mpcAttestation || '',
         verified_at: rep.verifiedAt.getTime(),
-        mpc_attestation: rep.mpcAttestation || ''
+        mpc_attestation: rep.mpcAttestation || '',
+        scoring_model: rep.scoringModel,
+        percentile: rep.percentile,
+        cohort_size: rep.cohortSize
       });
     }
     
@@ -60,10 +80,13 @@ async function initReputationDb() {
         public_outputs: proof.publicOutputs as Record<string, any>,
         created_at: proof.createdAt.getTime(),
         expires_at: proof.createdAt.getTime() + 86400000, // 24h
-        circuit_hash: `noir_${proof.proofType}_v1`
+        circuit_hash: circuitHash(proof.proofType as ReputationProofType, proof.publicOutputs as Record<string, any>),
+        verified: proof.verified
       });
     }
     
+    reputationService.rebuildLeaderboard();
+    
     console.log(`   Loaded ${reputations.length} reputations, ${proofs.length} proofs from database`);
   } catch (error) {
     // Silent fail - database is optional
@@ -72,145 +95,131 @@ async function initReputationDb() {
 
 initReputationDb().catch(() => {});
 
-// Cleanup expired proofs every 5 minutes to prevent memory leaks
-setInterval(() => {
-  const now = Date.now();
-  let cleaned = 0;
-  for (const [proofId, proof] of proofsStore.entries()) {
-    if (now > proof.expires_at) {
-      proofsStore.delete(proofId);
-      cleaned++;
-    }
-  }
-  if (cleaned > 0) {
-    console.log(`🧹 Cleaned ${cleaned} expired proofs from memory`);
-  }
-}, 5 * 60 * 1000);
-
-// ATRACKS Trust Tier System
-// ◆◆◆ Three Diamonds = Exceptional (top 1%)
-// ◆◆ Two Diamonds = Excellent (top 5%)
-// ◆ One Diamond = Very Good (top 15%)
-// ✓ Verified = Meets baseline standards
-// — Unverified = Not yet evaluated
-
-const STAR_THRESHOLDS = {
-  three_star: { min_score: 95, min_trades: 1000, min_win_rate: 75, min_pnl: 10000 },
-  two_star: { min_score: 85, min_trades: 500, min_win_rate: 68, min_pnl: 5000 },
-  one_star: { min_score: 75, min_trades: 200, min_win_rate: 62, min_pnl: 1000 },
-  verified: { min_score: 50, min_trades: 25, min_win_rate: 50, min_pnl: 0 }
-};
-
-// Legacy tier mapping for backwards compatibility
-const TIER_THRESHOLDS = {
-  diamond: { min_score: 95, min_trades: 1000, min_win_rate: 75 },  // = 3 stars
-  platinum: { min_score: 85, min_trades: 500, min_win_rate: 68 },  // = 2 stars
-  gold: { min_score: 75, min_trades: 200, min_win_rate: 62 },      // = 1 star
-  silver: { min_score: 60, min_trades: 50, min_win_rate: 55 },     // = verified
-  bronze: { min_score: 50, min_trades: 25, min_win_rate: 50 }      // = verified
-};
-
-// Badge definitions
-const BADGE_DEFINITIONS: Record<string, { name: string; description: string; criteria: (m: any) => boolean }> = {
-  first_trade: {
-    name: 'First Trade',
-    description: 'Completed first trade',
-    criteria: (m) => m.total_trades >= 1
-  },
-  profitable: {
-    name: 'Profitable',
-    description: 'Achieved positive PnL',
-    criteria: (m) => m.total_pnl_usd > 0
-  },
-  consistent: {
-    name: 'Consistent',
-    description: 'Win rate above 60%',
-    criteria: (m) => m.total_trades > 0 && (m.winning_trades / m.total_trades) >= 0.6
-  },
-  veteran: {
-    name: 'Veteran',
-    description: 'Completed 100+ trades',
-    criteria: (m) => m.total_trades >= 100
-  },
-  whale: {
-    name: 'Whale',
-    description: 'PnL exceeds $10,000',
-    criteria: (m) => m.total_pnl_usd >= 10000
-  },
-  speed_demon: {
-    name: 'Speed Demon',
-    description: 'Average execution under 100ms',
-    criteria: (m) => m.avg_execution_time_ms < 100
-  }
-};
-
 class ReputationService {
 
   /**
    * Generate a reputation proof for an agent
    */
   async generateProof(request: ReputationProofRequest): Promise<ReputationProof> {
-    const metrics = metricsStore.getMetrics(request.agent_id);
+    // Windowed proofs only attest to the trades within the rolling period
+    const period = request.window ? resolveWindow(request.window, Date.now()) : undefined;
+    const metrics = period
+      ? metricsStore.getWindowedMetrics(request.agent_id, period)
+      : metricsStore.getMetrics(request.agent_id);
     if (!metrics) {
       throw new Error(`Agent ${request.agent_id} not found`);
     }
+    const overallWinRate = strategyPerformance(metrics).win_rate;
+
+    // Everything besides the pair scope is a numeric bound (see ProofGenerationSchema)
+    const { pair, ...rest } = request.public_inputs;
+    const bounds = rest as Record<string, number>;
+
+    // Pair-scoped proofs run on that pair's slice of the trades
+    const scope = pair === undefined ? null : pairScope(request.agent_id, pair, period);
 
     let proofResult: { proof: string; verification_key: string; meets_threshold?: boolean };
     let publicOutputs: Record<string, any> = {};
 
     switch (request.proof_type) {
       case 'win_rate':
-        const winRate = metricsStore.getWinRate(request.agent_id);
+        const winRate = scope ? scope.win_rate : overallWinRate;
         proofResult = await cap402Client.proveWinRate(
           winRate,
-          request.public_inputs.threshold || 50
+          bounds.threshold || 50
         );
         publicOutputs = {
-          threshold: request.public_inputs.threshold,
+          threshold: bounds.threshold,
           meets_threshold: proofResult.meets_threshold
         };
         break;
 
       case 'pnl_threshold':
         proofResult = await cap402Client.provePnLThreshold(
-          metrics.total_pnl_usd,
-          request.public_inputs.min_pnl || 0,
-          request.public_inputs.max_pnl || 1000000
+          scope ? scope.total_pnl_usd : metrics.total_pnl_usd,
+          bounds.min_pnl || 0,
+          bounds.max_pnl || 1000000
         );
         publicOutputs = {
-          min_pnl: request.public_inputs.min_pnl,
-          max_pnl: request.public_inputs.max_pnl,
+          min_pnl: bounds.min_pnl,
+          max_pnl: bounds.max_pnl,
           pnl_in_range: true
         };
         break;
 
       case 'trade_count':
         proofResult = await cap402Client.proveTradeCount(
-          metrics.total_trades,
-          request.public_inputs.min_trades || 10
+          scope ? scope.total_trades : metrics.total_trades,
+          bounds.min_trades || 10
+        );
+        publicOutputs = {
+          min_trades: bounds.min_trades,
+          meets_threshold: proofResult.meets_threshold
+        };
+        break;
+
+      case 'sharpe_ratio':
+        // A bound of 0 is a real bound; record the one proven
+        const minSharpe = bounds.min_sharpe ?? 1;
+        proofResult = await cap402Client.proveSharpe(
+          strategyPerformance(metrics),
+          minSharpe
         );
         publicOutputs = {
-          min_trades: request.public_inputs.min_trades,
+          min_sharpe: minSharpe,
           meets_threshold: proofResult.meets_threshold
         };
         break;
 
+      case 'max_drawdown':
+        // A bound of 0 is a real bound; record the one proven
+        const maxDrawdown = bounds.max_drawdown ?? 2000;
+        proofResult = await cap402Client.proveMaxDrawdown(
+          strategyPerformance(metrics),
+          maxDrawdown
+        );
+        publicOutputs = {
+          max_drawdown: maxDrawdown,
+          meets_threshold: proofResult.meets_threshold
+        };
+        break;
+
+      case 'uptime':
+        if (metrics.uptime_percentage === null) {
+          throw new Error(`Agent ${request.agent_id} has not sent a heartbeat yet`);
+        }
+        // A bound of 0 is a real bound; record the one proven
+        const minUptime = bounds.min_uptime ?? 99;
+        const uptimeResult = await cap402Client.proveUptime(
+          metrics.uptime_percentage,
+          minUptime
+        );
+        proofResult = uptimeResult;
+        publicOutputs = {
+          min_uptime: minUptime,
+          meets_threshold: uptimeResult.meets_threshold,
+          // Only when CAP-402 couldn't prove it
+          ...(uptimeResult.local ? { attestation: 'local' } : {})
+        };
+        break;
+
       case 'composite':
+        const thresholds = {
+          min_win_rate: bounds.min_win_rate || 50,
+          min_pnl: bounds.min_pnl || 0,
+          min_trades: bounds.min_trades || 10,
+          min_sharpe: bounds.min_sharpe ?? 0.5,
+          max_drawdown: bounds.max_drawdown ?? 2000
+        };
         const compositeResult = await cap402Client.proveCompositeReputation(
           {
-            win_rate: metricsStore.getWinRate(request.agent_id),
+            win_rate: overallWinRate,
             pnl: metrics.total_pnl_usd,
             trades: metrics.total_trades,
             sharpe: metrics.sharpe_ratio,
             drawdown: metrics.max_drawdown_bps
           },
-          {
-            min_win_rate: request.public_inputs.min_win_rate || 50,
-            min_pnl: request.public_inputs.min_pnl || 0,
-            min_trades: request.public_inputs.min_trades || 10,
-            min_sharpe: request.public_inputs.min_sharpe || 0.5,
-            max_drawdown: request.public_inputs.max_drawdown || 2000
-          }
+          thresholds
         );
         proofResult = {
           proof: compositeResult.proof,
@@ -218,7 +227,8 @@ class ReputationService {
         };
         publicOutputs = {
           all_criteria_met: compositeResult.all_criteria_met,
-          criteria_results: compositeResult.criteria_results
+          criteria_results: compositeResult.criteria_results,
+          thresholds
         };
         break;
 
@@ -226,6 +236,13 @@ class ReputationService {
         throw new Error(`Unknown proof type: ${request.proof_type}`);
     }
 
+    if (pair !== undefined) {
+      publicOutputs.pair = pair;
+    }
+    if (period) {
+      publicOutputs.window = period;
+    }
+
     const proof: ReputationProof = {
       proof_id: uuidv4(),
       agent_id: request.agent_id,
@@ -235,7 +252,8 @@ class ReputationService {
       public_outputs: publicOutputs,
       created_at: Date.now(),
       expires_at: Date.now() + (24 * 60 * 60 * 1000), // 24 hours
-      circuit_hash: `noir_${request.proof_type}_v1`
+      circuit_hash: circuitHash(request.proof_type, publicOutputs),
+      verified: false
     };
 
     proofsStore.set(proof.proof_id, proof);
@@ -272,30 +290,57 @@ class ReputationService {
       throw new Error(`Proof ${proofId} not found`);
     }
 
-    if (Date.now() > proof.expires_at) {
+    if (Date.now() > proof.expires_at && !badgeService.backingProofIds().has(proofId)) {
       throw new Error(`Proof ${proofId} has expired`);
     }
 
-    return cap402Client.verifyReputationProof(
+    // Nothing to check cryptographically - local attestations never count as verified
+    if (proof.public_outputs.attestation === 'local') {
+      return { valid: false, verification_proof: '' };
+    }
+
+    const result = await cap402Client.verifyReputationProof(
       proof.proof_data,
       proof.verification_key,
       proof.public_outputs
     );
+
+    // Verified proofs can back badges
+    if (result.valid && !proof.verified) {
+      proof.verified = true;
+      if (prisma) {
+        try {
+          await prisma.proof.update({ where: { id: proofId }, data: { verified: true } });
+        } catch (error) {
+          console.log('⚠️ Failed to save proof verification to database');
+        }
+      }
+    }
+
+    return result;
   }
 
   /**
    * Compute verified reputation score via Arcium MPC
+   * Scored with REPUTATION_SCORING_MODEL (trade_count@2 by default) unless a model is given
    */
-  async computeVerifiedReputation(agentId: string): Promise<VerifiedReputation> {
+  async computeVerifiedReputation(
+    agentId: string,
+    model: ScoringModel = defaultScoringModel()
+  ): Promise<VerifiedReputation> {
     const agent = metricsStore.getAgent(agentId);
     if (!agent) {
       throw new Error(`Agent ${agentId} not found`);
     }
 
-    const metrics = metricsStore.getMetrics(agentId);
+    // Flagged trades don't count towards the score or badges
+    const metrics = metricsStore.getScoringMetrics(agentId);
     if (!metrics) {
       throw new Error(`Metrics for agent ${agentId} not found`);
     }
+    if (metricsStore.getScoringStatus(agentId) === 'frozen') {
+      throw new Error(`Reputation scoring for agent ${agentId} is frozen pending review`);
+    }
 
     const encryptedMetrics = metricsStore.getEncryptedMetrics(agentId);
     
@@ -309,28 +354,46 @@ class ReputationService {
       agentId,
       encryptedMetrics?.encrypted_data || '',
       agentProofs,
+      model,
       {
         total_trades: metrics.total_trades,
         winning_trades: metrics.winning_trades,
         total_pnl_usd: metrics.total_pnl_usd,
-        avg_execution_time_ms: metrics.avg_execution_time_ms
+        verified_trades: metrics.verified_trades,
+        verified_pnl_usd: metrics.verified_pnl_usd,
+        avg_execution_time_ms: metrics.avg_execution_time_ms,
+        volume_usd: metrics.volume_usd,
+        verified_volume_usd: metrics.verified_volume_usd,
+        winning_volume_usd: metrics.winning_volume_usd,
+        gross_profit_usd: metrics.gross_profit_usd,
+        gross_loss_usd: metrics.gross_loss_usd,
+        win_rate_lower_bound: metrics.win_rate_lower_bound
       }
     );
 
-    // Calculate badges
-    const badges = this.calculateBadges(agentId, metrics);
+    // Badges keep the date they were first earned; proof-backed ones link their proof
+    const badges = await badgeService.evaluate(agentId, metrics, this.getAgentProofs(agentId));
 
     const verified: VerifiedReputation = {
       agent_id: agentId,
       reputation_score: result.reputation_score,
-      tier: result.tier as ReputationTier,
+      tier: classify(result.reputation_score, metrics, model.tiers).tier,
       badges,
       verification_proof: result.mpc_attestation,
       verified_at: Date.now(),
-      mpc_attestation: result.mpc_attestation
+      mpc_attestation: result.mpc_attestation,
+      scoring_model: scoringModelRef(model),
+      percentile: null,
+      cohort_size: 0
     };
 
     verifiedReputations.set(agentId, verified);
+
+    // Placed in the population as it stands now; everyone else moves at the next ranking
+    const standing = this.rankStandings(verified.verified_at).get(agentId);
+    verified.percentile = standing?.percentile ?? null;
+    verified.cohort_size = standing?.cohort_size ?? 0;
+    this.refreshLeaderboard(agentId);
     
     // Save to database if available
     if (prisma) {
@@ -342,6 +405,9 @@ class ReputationService {
             tier: verified.tier,
             badges: verified.badges,
             mpcAttestation: verified.mpc_attestation,
+            scoringModel: verified.scoring_model,
+            percentile: verified.percentile,
+            cohortSize: verified.cohort_size,
             verifiedAt: new Date(verified.verified_at)
           },
           create: {
@@ -350,6 +416,9 @@ class ReputationService {
             tier: verified.tier,
             badges: verified.badges,
             mpcAttestation: verified.mpc_attestation,
+            scoringModel: verified.scoring_model,
+            percentile: verified.percentile,
+            cohortSize: verified.cohort_size,
             verifiedAt: new Date(verified.verified_at)
           }
         });
@@ -369,23 +438,78 @@ class ReputationService {
   }
 
   /**
-   * Calculate earned badges
+   * An agent's verified reputation as of now, after decay for inactivity
    */
-  private calculateBadges(agentId: string, metrics: any): ReputationBadge[] {
-    const badges: ReputationBadge[] = [];
-
-    for (const [badgeId, def] of Object.entries(BADGE_DEFINITIONS)) {
-      if (def.criteria(metrics)) {
-        badges.push({
-          badge_id: badgeId,
-          name: def.name,
-          description: def.description,
-          earned_at: Date.now()
-        });
+  getReputationDecay(agentId: string, now: number = Date.now()): ReputationDecay | undefined {
+    const verified = verifiedReputations.get(agentId);
+    if (!verified) return undefined;
+
+    return decayReputation(verified, metricsStore.getLastActiveAt(agentId), now);
+  }
+
+  /**
+   * Rank every verified agent on its effective score and store where each stands
+   * Percentiles shift as other agents verify, trade and decay, so this runs
+   * periodically; returns the cohort size
+   */
+  async rankPopulation(now: number = Date.now()): Promise<number> {
+    const standings = this.rankStandings(now);
+
+    for (const verified of Array.from(verifiedReputations.values())) {
+      const standing = standings.get(verified.agent_id);
+      const percentile = standing?.percentile ?? null;
+      const cohortSize = standing?.cohort_size ?? 0;
+      if (verified.percentile === percentile && verified.cohort_size === cohortSize) continue;
+
+      verifiedReputations.set(verified.agent_id, { ...verified, percentile, cohort_size: cohortSize });
+
+      if (prisma) {
+        try {
+          await prisma.reputation.update({
+            where: { agentId: verified.agent_id },
+            data: { percentile, cohortSize }
+          });
+        } catch (error) {
+          console.log('⚠️ Failed to save reputation ranking to database');
+        }
+      }
+    }
+
+    // Decay has moved everyone since the last ranking
+    this.rebuildLeaderboard(now);
+
+    return standings.size;
+  }
+
+  /**
+   * Where each verified agent stands as of `now`
+   * The cohort is every agent still verified after decay; lapsed agents are left unranked
+   */
+  private rankStandings(now: number): Map<string, PercentileStanding> {
+    const scores: Array<{ agent_id: string; score: number }> = [];
+    for (const agentId of verifiedReputations.keys()) {
+      const decay = this.getReputationDecay(agentId, now);
+      if (decay && !decay.lapsed && decay.effective_score > 0) {
+        scores.push({ agent_id: agentId, score: decay.effective_score });
       }
     }
+    return rankCohort(scores);
+  }
 
-    return badges;
+  /**
+   * Drop expired proofs from memory; returns how many went
+   * Proofs backing a held badge are kept so the badge can still be checked
+   */
+  cleanupExpiredProofs(now: number = Date.now()): number {
+    const backing = badgeService.backingProofIds();
+    let cleaned = 0;
+    for (const [proofId, proof] of proofsStore.entries()) {
+      if (now > proof.expires_at && !backing.has(proofId)) {
+        proofsStore.delete(proofId);
+        cleaned++;
+      }
+    }
+    return cleaned;
   }
 
   /**
@@ -419,7 +543,7 @@ class ReputationService {
     return agents
       .map(agent => {
         const verified = verifiedReputations.get(agent.agent_id);
-        const metrics = metricsStore.getMetrics(agent.agent_id);
+        const metrics = metricsStore.getTradeSummary(agent.agent_id);
         return {
           agent_id: agent.agent_id,
           agent_name: agent.name,
@@ -434,83 +558,21 @@ class ReputationService {
   }
   /**
    * Calculate ATRACKS Star Rating (Michelin-style)
-   * Returns 0-3 stars based on comprehensive performance metrics
+   * The rating of the agent's tier after decay; lapsed reputations are unverified
    */
   calculateStarRating(agentId: string): {
     stars: number;
-    rating: 'three_star' | 'two_star' | 'one_star' | 'verified' | 'unverified';
+    rating: StarRating;
     display: string;
     description: string;
   } {
-    const verified = verifiedReputations.get(agentId);
-    const metrics = metricsStore.getMetrics(agentId);
-    
-    if (!verified || !metrics) {
-      return { 
-        stars: 0, 
-        rating: 'unverified', 
-        display: '—',
-        description: 'Not yet verified'
-      };
-    }
-
-    const score = verified.reputation_score;
-    const trades = metrics.total_trades;
-    const winRate = trades > 0 ? (metrics.winning_trades / trades) * 100 : 0;
-    const pnl = metrics.total_pnl_usd;
-
-    // Check thresholds from highest to lowest
-    if (score >= STAR_THRESHOLDS.three_star.min_score &&
-        trades >= STAR_THRESHOLDS.three_star.min_trades &&
-        winRate >= STAR_THRESHOLDS.three_star.min_win_rate &&
-        pnl >= STAR_THRESHOLDS.three_star.min_pnl) {
-      return { 
-        stars: 3, 
-        rating: 'three_star', 
-        display: '◆◆◆',
-        description: 'Exceptional'
-      };
-    }
-
-    if (score >= STAR_THRESHOLDS.two_star.min_score &&
-        trades >= STAR_THRESHOLDS.two_star.min_trades &&
-        winRate >= STAR_THRESHOLDS.two_star.min_win_rate &&
-        pnl >= STAR_THRESHOLDS.two_star.min_pnl) {
-      return { 
-        stars: 2, 
-        rating: 'two_star', 
-        display: '◆◆',
-        description: 'Excellent'
-      };
-    }
-
-    if (score >= STAR_THRESHOLDS.one_star.min_score &&
-        trades >= STAR_THRESHOLDS.one_star.min_trades &&
-        winRate >= STAR_THRESHOLDS.one_star.min_win_rate &&
-        pnl >= STAR_THRESHOLDS.one_star.min_pnl) {
-      return { 
-        stars: 1, 
-        rating: 'one_star', 
-        display: '◆',
-        description: 'Very Good'
-      };
-    }
-
-    if (score >= STAR_THRESHOLDS.verified.min_score &&
-        trades >= STAR_THRESHOLDS.verified.min_trades) {
-      return { 
-        stars: 0, 
-        rating: 'verified', 
-        display: '✓',
-        description: 'Verified'
-      };
-    }
-
-    return { 
-      stars: 0, 
-      rating: 'unverified', 
-      display: '—',
-      description: 'Not yet verified'
+    const decay = this.getReputationDecay(agentId);
+    const level = levelForTier(decay?.effective_tier ?? 'unverified');
+    return {
+      stars: level.stars,
+      rating: level.rating,
+      display: level.display,
+      description: level.description
     };
   }
 
@@ -527,9 +589,16 @@ class ReputationService {
     rating_description: string;
     tier: string;
     reputation_score: number;
+    effective_score: number;
     total_trades: number;
     win_rate: number;
+    win_rate_lower_bound: number;
+    win_rate_upper_bound: number;
+    percentile: number | null;
+    cohort_size: number;
+    standing: string | null;
     verified_at: number | null;
+    last_active_at: number | null;
     certificate_hash: string;
     valid_until: number;
   } | null {
@@ -537,8 +606,12 @@ class ReputationService {
     if (!agent) return null;
 
     const verified = verifiedReputations.get(agentId);
+    const decay = this.getReputationDecay(agentId);
     const metrics = metricsStore.getMetrics(agentId);
     const starRating = this.calculateStarRating(agentId);
+    const standing = decay && !decay.lapsed && verified && verified.percentile !== null
+      ? { percentile: verified.percentile, cohort_size: verified.cohort_size }
+      : null;
     
     const winRate = metrics && metrics.total_trades > 0 
       ? (metrics.winning_trades / metrics.total_trades) * 100 
@@ -551,64 +624,155 @@ class ReputationService {
     return {
       agent_id: agentId,
       agent_name: agent.name,
-      verified: !!verified,
+      verified: !!decay && !decay.lapsed,
       star_rating: starRating.stars,
       rating_display: starRating.display,
       rating_description: starRating.description,
-      tier: verified?.tier || 'unverified',
+      tier: decay?.effective_tier || 'unverified',
       reputation_score: verified?.reputation_score || 0,
+      effective_score: decay?.effective_score || 0,
       total_trades: metrics?.total_trades || 0,
       win_rate: Math.round(winRate * 10) / 10,
+      win_rate_lower_bound: metrics?.win_rate_lower_bound ?? 0,
+      win_rate_upper_bound: metrics?.win_rate_upper_bound ?? 100,
+      percentile: standing?.percentile ?? null,
+      cohort_size: standing?.cohort_size ?? 0,
+      standing: standing ? describeStanding(standing.percentile, standing.cohort_size) : null,
       verified_at: verified?.verified_at || null,
+      last_active_at: decay?.last_active_at || null,
       certificate_hash: certHash,
       valid_until: Date.now() + (24 * 60 * 60 * 1000) // Valid for 24 hours
     };
   }
 
   /**
-   * Get leaderboard with star ratings
+   * A page of the leaderboard, read from the sorted index
+   * Entries are as of now; their order is as of when each agent last traded or
+   * verified, or the hourly re-rank. Lapsed agents drop off
    */
-  getLeaderboardWithStars(): Array<{
-    agent_id: string;
-    agent_name: string;
-    reputation_score: number;
-    star_rating: number;
-    rating_display: string;
-    tier: ReputationTier;
-    badges: ReputationBadge[];
-    total_trades: number;
-    win_rate: number;
-  }> {
-    const agents = metricsStore.getAllAgents();
-    
-    return agents
-      .map(agent => {
-        const verified = verifiedReputations.get(agent.agent_id);
-        const metrics = metricsStore.getMetrics(agent.agent_id);
-        const starRating = this.calculateStarRating(agent.agent_id);
-        const winRate = metrics && metrics.total_trades > 0 
-          ? (metrics.winning_trades / metrics.total_trades) * 100 
-          : 0;
-        
-        return {
-          agent_id: agent.agent_id,
-          agent_name: agent.name,
-          reputation_score: verified?.reputation_score || 0,
-          star_rating: starRating.stars,
-          rating_display: starRating.display,
-          tier: verified?.tier || 'unverified' as ReputationTier,
-          badges: verified?.badges || [],
-          total_trades: metrics?.total_trades || 0,
-          win_rate: Math.round(winRate * 10) / 10
-        };
-      })
-      .filter(entry => entry.reputation_score > 0)
-      .sort((a, b) => {
-        // Sort by stars first, then by score
-        if (b.star_rating !== a.star_rating) return b.star_rating - a.star_rating;
-        return b.reputation_score - a.reputation_score;
-      });
+  queryLeaderboard(query: LeaderboardQuery, now: number = Date.now()): LeaderboardPage {
+    const after = query.cursor ? decodeCursor(query.cursor) : null;
+
+    const entries: LeaderboardEntry[] = [];
+    let last: CursorPosition | null = null;
+    let hasMore = false;
+    for (const position of leaderboardIndex.scan(query.sort, after)) {
+      const entry = this.getLeaderboardEntry(position.id, now);
+      if (!entry || !matchesLeaderboardQuery(entry, query)) continue;
+      if (entries.length === query.limit) {
+        hasMore = true;
+        break;
+      }
+      entries.push(entry);
+      last = position;
+    }
+
+    return {
+      entries,
+      next_cursor: hasMore && last ? encodeCursor(last) : null
+    };
   }
+
+  /**
+   * An agent's leaderboard entry, or null if it has no score left after decay
+   */
+  getLeaderboardEntry(agentId: string, now: number = Date.now()): LeaderboardEntry | null {
+    const agent = metricsStore.getAgent(agentId);
+    const verified = verifiedReputations.get(agentId);
+    const decay = this.getReputationDecay(agentId, now);
+    if (!agent || !verified || !decay || decay.effective_score <= 0) return null;
+
+    const metrics = metricsStore.getTradeSummary(agentId);
+    const level = levelForTier(decay.effective_tier);
+    const winRate = metrics && metrics.total_trades > 0 
+      ? (metrics.winning_trades / metrics.total_trades) * 100 
+      : 0;
+
+    return {
+      agent_id: agentId,
+      agent_name: agent.name,
+      reputation_score: verified.reputation_score,
+      effective_score: decay.effective_score,
+      last_active_at: decay.last_active_at,
+      star_rating: level.stars,
+      rating_display: level.display,
+      tier: decay.effective_tier,
+      badges: verified.badges,
+      total_trades: metrics?.total_trades || 0,
+      win_rate: Math.round(winRate * 10) / 10,
+      win_rate_lower_bound: metrics?.win_rate_lower_bound ?? 0,
+      win_rate_upper_bound: metrics?.win_rate_upper_bound ?? 100
+    };
+  }
+
+  /**
+   * Move an agent to where it now sorts on the leaderboard
+   */
+  refreshLeaderboard(agentId: string): void {
+    if (!verifiedReputations.has(agentId)) return;
+    leaderboardIndex.set(agentId, this.getLeaderboardEntry(agentId));
+  }
+
+  /**
+   * Re-sort the whole leaderboard
+   */
+  rebuildLeaderboard(now: number = Date.now()): void {
+    const entries: LeaderboardEntry[] = [];
+    for (const agentId of verifiedReputations.keys()) {
+      const entry = this.getLeaderboardEntry(agentId, now);
+      if (entry) entries.push(entry);
+    }
+    leaderboardIndex.rebuild(entries);
+  }
+}
+
+// Leaderboard filters, tested on the entry as of now
+function matchesLeaderboardQuery(entry: LeaderboardEntry, query: LeaderboardQuery): boolean {
+  if (query.min_stars !== undefined && entry.star_rating < query.min_stars) return false;
+  if (query.tier && entry.tier !== query.tier) return false;
+  if (query.badge && !entry.badges.some((badge) => badge.badge_id === query.badge)) return false;
+  if (query.min_trades !== undefined && entry.total_trades < query.min_trades) return false;
+  return true;
+}
+
+// Local attestations are labelled as such rather than as a Noir circuit
+function circuitHash(proofType: ReputationProofType, publicOutputs: Record<string, any>): string {
+  return publicOutputs.attestation === 'local' ? `local_${proofType}_attestation_v1` : `noir_${proofType}_v1`;
+}
+
+// Real values for every strategy_performance input, whichever one a proof is about
+function strategyPerformance(metrics: PerformanceMetrics): StrategyPerformance {
+  return {
+    win_rate: metrics.total_trades > 0 ? (metrics.winning_trades / metrics.total_trades) * 100 : 0,
+    sharpe: metrics.sharpe_ratio,
+    drawdown_bps: metrics.max_drawdown_bps
+  };
+}
+
+// A pair the agent never traded proves from zeros rather than failing
+function pairScope(
+  agentId: string,
+  pair: string,
+  period?: MetricsPeriod
+): Pick<PairMetrics, 'total_trades' | 'win_rate' | 'total_pnl_usd'> {
+  return metricsStore.getPairMetrics(agentId, period).find((metrics) => metrics.pair === pair)
+    ?? { total_trades: 0, win_rate: 0, total_pnl_usd: 0 };
 }
 
 export const reputationService = new ReputationService();
+
+// Trades move an agent's trade count, win rate and activity on the leaderboard
+metricsStore.onMetricsChange((agentId) => reputationService.refreshLeaderboard(agentId));
+
+// Cleanup expired proofs every 5 minutes to prevent memory leaks
+setInterval(() => {
+  const cleaned = reputationService.cleanupExpiredProofs();
+  if (cleaned > 0) {
+    console.log(`🧹 Cleaned ${cleaned} expired proofs from memory`);
+  }
+}, 5 * 60 * 1000);
+
+// Re-rank the verified population hourly so percentile tiers follow it
+setInterval(() => {
+  reputationService.rankPopulation().catch(() => {});
+}, 60 * 60 * 1000);
@@ -0,0 +1,213 @@
+/**
+ * Risk Metrics
+ * Risk-adjusted return statistics derived from an agent's trade history
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Trading runs every day of the year, so annualize over 365 periods
+const PERIODS_PER_YEAR = 365;
+
+// Ratios are capped so a handful of lucky days can't produce absurd values
+const MAX_RATIO = 10;
+
+/**
+ * Per-agent return series bucketed into daily periods.
+ * Running sums are kept alongside the buckets so ratios update in O(1)
+ * per trade, including trades that land in an earlier day.
+ */
+export interface ReturnSeries {
+  daily_returns: Record<string, number>; // UTC day index -> summed trade returns
+  sum: number;
+  sum_sq: number;
+  downside_sum_sq: number;
+}
+
+export interface RiskRatios {
+  sharpe_ratio: number;
+  sortino_ratio: number;
+  volatility: number;
+}
+
+/**
+ * Create an empty return series
+ */
+export function createReturnSeries(): ReturnSeries {
+  return {
+    daily_returns: {},
+    sum: 0,
+    sum_sq: 0,
+    downside_sum_sq: 0
+  };
+}
+
+/**
+ * Return of a single trade relative to the capital put in
+ * Returns null when the trade has no input amount to measure against
+ */
+export function tradeReturn(pnlUsd: number, amountIn: number): number | null {
+  if (!(amountIn > 0)) return null;
+  return pnlUsd / amountIn;
+}
+
+/**
+ * Add a trade return to the daily bucket it was executed in
+ */
+export function addReturn(series: ReturnSeries, timestamp: number, ret: number): void {
+  const day = Math.floor(timestamp / MS_PER_DAY).toString();
+  const previous = series.daily_returns[day];
+
+  // Swap the bucket's old contribution for its new one
+  if (previous !== undefined) {
+    series.sum -= previous;
+    series.sum_sq -= previous * previous;
+    series.downside_sum_sq -= Math.min(previous, 0) ** 2;
+  }
+
+  const updated = (previous ?? 0) + ret;
+  series.daily_returns[day] = updated;
+  series.sum += updated;
+  series.sum_sq += updated * updated;
+  series.downside_sum_sq += Math.min(updated, 0) ** 2;
+}
+
+/**
+ * Compute annualized Sharpe, Sortino and volatility (risk-free rate of 0)
+ * Only days with at least one trade count as periods
+ */
+export function computeRiskRatios(series: ReturnSeries): RiskRatios {
+  const periods = Object.keys(series.daily_returns).length;
+  if (periods < 2) {
+    return { sharpe_ratio: 0, sortino_ratio: 0, volatility: 0 };
+  }
+
+  const annualize = Math.sqrt(PERIODS_PER_YEAR);
+  const mean = series.sum / periods;
+  // Clamp tiny negatives caused by floating point drift in the running sums
+  const variance = Math.max((series.sum_sq - periods * mean * mean) / (periods - 1), 0);
+  const stdDev = Math.sqrt(variance);
+  const downsideDev = Math.sqrt(Math.max(series.downside_sum_sq, 0) / periods);
+
+  return {
+    sharpe_ratio: round(capRatio(mean, stdDev) * annualize),
+    sortino_ratio: round(capRatio(mean, downsideDev) * annualize),
+    volatility: round(stdDev * annualize)
+  };
+}
+
+function capRatio(mean: number, deviation: number): number {
+  const cap = MAX_RATIO / Math.sqrt(PERIODS_PER_YEAR);
+  if (deviation === 0) {
+    if (mean > 0) return cap;
+    if (mean < 0) return -cap;
+    return 0;
+  }
+  return Math.max(Math.min(mean / deviation, cap), -cap);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// ============================================
+// EQUITY CURVE - Peak-to-trough drawdown
+// ============================================
+
+// Starting capital assumed when an agent doesn't declare one
+export const DEFAULT_STARTING_CAPITAL_USD = 10000;
+
+/**
+ * Running equity curve for an agent, measured against its declared
+ * starting capital. Only the peak and current trough are kept.
+ */
+export interface EquityCurve {
+  starting_capital_usd: number;
+  equity_usd: number;
+  peak_usd: number;
+  peak_at: number;
+  trough_usd: number;
+  trough_at: number;
+  last_at: number;
+  max_drawdown_bps: number;
+  max_drawdown_duration_ms: number;
+  recovery_time_ms: number | null;
+}
+
+export interface DrawdownStats {
+  max_drawdown_bps: number;
+  current_drawdown_bps: number;
+  drawdown_duration_ms: number;
+  max_drawdown_duration_ms: number;
+  recovery_time_ms: number | null;
+}
+
+/**
+ * Create an equity curve starting at the declared capital
+ */
+export function createEquityCurve(startingCapitalUsd: number, startedAt: number): EquityCurve {
+  return {
+    starting_capital_usd: startingCapitalUsd,
+    equity_usd: startingCapitalUsd,
+    peak_usd: startingCapitalUsd,
+    peak_at: startedAt,
+    trough_usd: startingCapitalUsd,
+    trough_at: startedAt,
+    last_at: startedAt,
+    max_drawdown_bps: 0,
+    max_drawdown_duration_ms: 0,
+    recovery_time_ms: null
+  };
+}
+
+/**
+ * Apply a trade's PnL to the equity curve
+ */
+export function applyPnl(curve: EquityCurve, timestamp: number, pnlUsd: number): void {
+  curve.equity_usd += pnlUsd;
+  curve.last_at = Math.max(curve.last_at, timestamp);
+
+  if (curve.equity_usd >= curve.peak_usd) {
+    // Back at (or above) the high-water mark - close out any drawdown
+    if (curve.trough_usd < curve.peak_usd) {
+      curve.recovery_time_ms = timestamp - curve.trough_at;
+      curve.max_drawdown_duration_ms = Math.max(
+        curve.max_drawdown_duration_ms,
+        timestamp - curve.peak_at
+      );
+    }
+    curve.peak_usd = curve.equity_usd;
+    curve.peak_at = timestamp;
+    curve.trough_usd = curve.equity_usd;
+    curve.trough_at = timestamp;
+    return;
+  }
+
+  if (curve.equity_usd < curve.trough_usd) {
+    curve.trough_usd = curve.equity_usd;
+    curve.trough_at = timestamp;
+  }
+
+  curve.max_drawdown_bps = Math.max(curve.max_drawdown_bps, drawdownBps(curve.peak_usd, curve.equity_usd));
+}
+
+/**
+ * Drawdown statistics as of the latest point on the curve
+ */
+export function computeDrawdownStats(curve: EquityCurve): DrawdownStats {
+  const inDrawdown = curve.equity_usd < curve.peak_usd;
+  const currentDuration = inDrawdown ? curve.last_at - curve.peak_at : 0;
+
+  return {
+    max_drawdown_bps: curve.max_drawdown_bps,
+    current_drawdown_bps: inDrawdown ? drawdownBps(curve.peak_usd, curve.equity_usd) : 0,
+    drawdown_duration_ms: currentDuration,
+    max_drawdown_duration_ms: Math.max(curve.max_drawdown_duration_ms, currentDuration),
+    recovery_time_ms: curve.recovery_time_ms
+  };
+}
+
+// Losing more than the peak equity is reported as a full 100% drawdown
+function drawdownBps(peakUsd: number, equityUsd: number): number {
+  if (peakUsd <= 0) return 0;
+  return Math.min(Math.round(((peakUsd - equityUsd) / peakUsd) * 10000), 10000);
+}
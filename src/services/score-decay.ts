@@ -0,0 +1,78 @@
+/**
+ * Score Decay
+ * Verified reputations fade while an agent is inactive and lapse to
+ * unverified after a long enough gap, so dormant agents don't keep their peak score
+ */
+
+import { ReputationDecay, ReputationTier, VerifiedReputation } from '../types';
+import { defaultScoringModel, getScoringModel } from './scoring-models';
+import { capTier, tierForStanding } from './classification';
+import { getMinCohort } from './percentile-ranking';
+import { envNumber } from '../utils/env';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * How inactivity wears down a score
+ * REPUTATION_DECAY_GRACE_DAYS of inactivity cost nothing; after that the score halves
+ * every REPUTATION_DECAY_HALF_LIFE_DAYS, and it lapses at REPUTATION_EXPIRY_DAYS
+ */
+export function getDecayConfig(): { graceMs: number; halfLifeMs: number; expiryMs: number } {
+  return {
+    graceMs: envNumber('REPUTATION_DECAY_GRACE_DAYS', 14) * MS_PER_DAY,
+    halfLifeMs: envNumber('REPUTATION_DECAY_HALF_LIFE_DAYS', 30) * MS_PER_DAY,
+    expiryMs: envNumber('REPUTATION_EXPIRY_DAYS', 180) * MS_PER_DAY
+  };
+}
+
+/**
+ * A verified reputation as of `now`
+ * Inactivity runs from the agent's latest trade or heartbeat, so re-verifying
+ * without doing either doesn't reset it; with neither, it runs from the verification
+ */
+export function decayReputation(
+  verified: VerifiedReputation,
+  lastActivityAt: number | null,
+  now: number = Date.now()
+): ReputationDecay {
+  const { graceMs, halfLifeMs, expiryMs } = getDecayConfig();
+  const lastActiveAt = lastActivityAt ?? verified.verified_at;
+  const idleMs = Math.max(now - lastActiveAt, 0);
+
+  if (idleMs >= expiryMs) {
+    return {
+      raw_score: verified.reputation_score,
+      effective_score: 0,
+      effective_tier: 'unverified',
+      last_active_at: lastActiveAt,
+      lapsed: true
+    };
+  }
+
+  if (idleMs <= graceMs || halfLifeMs === 0) {
+    return {
+      raw_score: verified.reputation_score,
+      effective_score: verified.reputation_score,
+      effective_tier: standingTier(verified, verified.tier),
+      last_active_at: lastActiveAt,
+      lapsed: false
+    };
+  }
+
+  // Cutoffs come from the model that produced the score; decay can only lower the tier
+  const model = getScoringModel(verified.scoring_model) ?? defaultScoringModel();
+  const effectiveScore = Math.round(verified.reputation_score * Math.pow(0.5, (idleMs - graceMs) / halfLifeMs));
+
+  return {
+    raw_score: verified.reputation_score,
+    effective_score: effectiveScore,
+    effective_tier: standingTier(verified, capTier(effectiveScore, verified.tier, model.tiers)),
+    last_active_at: lastActiveAt,
+    lapsed: false
+  };
+}
+
+// Starred tiers also take a place in the top of the population as last ranked
+function standingTier(verified: VerifiedReputation, tier: ReputationTier): ReputationTier {
+  return tierForStanding(tier, verified.percentile, verified.cohort_size, getMinCohort());
+}
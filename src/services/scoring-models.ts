@@ -0,0 +1,198 @@
+/**
+ * Scoring Models
+ * Registry of versioned reputation scoring formulas. Each reputation records
+ * the model_id@version that produced it, so new versions can be added without
+ * changing what an existing attestation means
+ */
+
+import { ScoringMetrics, ScoringModel } from '../types';
+import { DEFAULT_TIER_CUTOFFS } from './classification';
+
+// Trade count and PnL earning the full trade and PnL scores
+const FULL_SCORE_TRADES = 200;
+const FULL_SCORE_PNL_USD = 10_000;
+
+// Weighted volume earning the full volume score, and the profit factor and
+// average win / average loss ratio earning full marks
+const FULL_SCORE_VOLUME_USD = 1_000_000;
+const FULL_SCORE_PROFIT_FACTOR = 3;
+const FULL_SCORE_PAYOFF_RATIO = 2;
+
+// Trades needed before the profit factor and win/loss size earn their full
+// points; with fewer, a record without losses is mostly luck
+const FULL_SCORE_RATIO_TRADES = 30;
+
+const MODEL_REF_PATTERN = /^([a-z][a-z0-9_]*)(?:@([1-9]\d*))?$/;
+
+const registry = new Map<string, ScoringModel>();
+
+/**
+ * Trade count, raw win rate, PnL and execution speed
+ */
+const tradeCountModel: ScoringModel = {
+  id: 'trade_count',
+  version: 1,
+  description: 'Trade count, raw win rate, PnL and execution speed',
+  weights: { trades: 30, win_rate: 40, pnl: 20, execution: 10 },
+  unverified_trade_weight: 1,
+  tiers: DEFAULT_TIER_CUTOFFS,
+  score(metrics, weights, unverifiedTradeWeight) {
+    const winRate = metrics.total_trades > 0 ? metrics.winning_trades / metrics.total_trades : 0;
+    return tradeCountScore(metrics, weights, winRate, unverifiedTradeWeight);
+  }
+};
+
+/**
+ * trade_count@1 with the win rate taken at the lower bound of its 95% Wilson
+ * interval, so a short lucky streak can't earn the points a long record does
+ */
+const tradeCountWilsonModel: ScoringModel = {
+  ...tradeCountModel,
+  version: 2,
+  description: 'Trade count, win rate lower confidence bound, PnL and execution speed',
+  score(metrics, weights, unverifiedTradeWeight) {
+    const winRate = metrics.total_trades > 0 ? metrics.win_rate_lower_bound / 100 : 0;
+    return tradeCountScore(metrics, weights, winRate, unverifiedTradeWeight);
+  }
+};
+
+/**
+ * trade_count@2 with trades and PnL not confirmed on-chain at half weight,
+ * for deployments that verify trades (TRADE_VERIFIER)
+ */
+const tradeCountVerifiedModel: ScoringModel = {
+  ...tradeCountWilsonModel,
+  version: 3,
+  description: 'Trade count and PnL weighted toward on-chain verified trades, win rate lower confidence bound and execution speed',
+  unverified_trade_weight: 0.5
+};
+
+/**
+ * Weighted by trade size, so a $1 win no longer counts like a $1M one.
+ * Volume replaces trade count, the win rate is weighted by notional, and
+ * PnL is judged by profit factor and average win/loss size
+ */
+const volumeWeightedModel: ScoringModel = {
+  id: 'volume_weighted',
+  version: 1,
+  description: 'USD volume, volume-weighted win rate, profit factor, win/loss size and execution speed',
+  weights: { volume: 25, win_rate: 25, profit_factor: 20, payoff_ratio: 20, execution: 10 },
+  unverified_trade_weight: 1,
+  tiers: DEFAULT_TIER_CUTOFFS,
+  score(metrics, weights, unverifiedTradeWeight) {
+    // Unverified volume is discounted like unverified trades
+    const weightedVolume = metrics.verified_volume_usd +
+      (metrics.volume_usd - metrics.verified_volume_usd) * unverifiedTradeWeight;
+    const volumeScore = Math.min(Math.log10(1 + weightedVolume) / Math.log10(1 + FULL_SCORE_VOLUME_USD), 1) * weights.volume;
+
+    const volumeWinRate = metrics.volume_usd > 0 ? metrics.winning_volume_usd / metrics.volume_usd : 0;
+    const winRateScore = volumeWinRate * weights.win_rate;
+
+    // Gross profit over gross loss; break-even (1) earns nothing
+    const profitFactor = ratio(metrics.gross_profit_usd, metrics.gross_loss_usd);
+    const profitFactorScore = Math.min(Math.max((profitFactor - 1) / (FULL_SCORE_PROFIT_FACTOR - 1), 0), 1) *
+      weights.profit_factor;
+
+    const losingTrades = metrics.total_trades - metrics.winning_trades;
+    const avgWin = metrics.winning_trades > 0 ? metrics.gross_profit_usd / metrics.winning_trades : 0;
+    const avgLoss = losingTrades > 0 ? metrics.gross_loss_usd / losingTrades : 0;
+    const payoffScore = Math.min(ratio(avgWin, avgLoss) / FULL_SCORE_PAYOFF_RATIO, 1) * weights.payoff_ratio;
+
+    // Both ratios are unbounded without a loss, so they count in proportion to the sample behind them
+    const ratioConfidence = Math.min(metrics.total_trades / FULL_SCORE_RATIO_TRADES, 1);
+
+    const execScore = executionScore(metrics.avg_execution_time_ms) * weights.execution;
+
+    return Math.round(Math.min(
+      volumeScore + winRateScore + (profitFactorScore + payoffScore) * ratioConfidence + execScore,
+      100
+    ));
+  }
+};
+
+/**
+ * Add a model to the registry. A published id@version can't be replaced
+ */
+export function registerScoringModel(model: ScoringModel): void {
+  const ref = scoringModelRef(model);
+  if (!MODEL_REF_PATTERN.test(ref)) {
+    throw new Error(`Invalid scoring model reference: ${ref}`);
+  }
+  if (registry.has(ref)) {
+    throw new Error(`Scoring model ${ref} is already registered`);
+  }
+  registry.set(ref, model);
+}
+
+/**
+ * A model by 'id@version', or the latest version of 'id'
+ */
+export function getScoringModel(ref: string): ScoringModel | undefined {
+  const match = MODEL_REF_PATTERN.exec(ref);
+  if (!match) return undefined;
+  if (match[2]) return registry.get(ref);
+
+  return listScoringModels()
+    .filter((model) => model.id === match[1])
+    .pop();
+}
+
+/**
+ * Every registered model, by id then version
+ */
+export function listScoringModels(): ScoringModel[] {
+  return Array.from(registry.values())
+    .sort((a, b) => a.id.localeCompare(b.id) || a.version - b.version);
+}
+
+/**
+ * Model used when a request doesn't pick one: REPUTATION_SCORING_MODEL, or trade_count@2
+ */
+export function defaultScoringModel(): ScoringModel {
+  const configured = process.env.REPUTATION_SCORING_MODEL;
+  return (configured && getScoringModel(configured)) || getScoringModel('trade_count@2')!;
+}
+
+export function scoringModelRef(model: ScoringModel): string {
+  return `${model.id}@${model.version}`;
+}
+
+// Trade count, win rate, PnL and execution points, for whichever win rate a version trusts
+function tradeCountScore(
+  metrics: ScoringMetrics,
+  weights: Record<string, number>,
+  winRate: number,
+  unverifiedTradeWeight: number
+): number {
+  // Self-reported trades and PnL may be discounted against on-chain verified ones
+  const weightedTrades = metrics.verified_trades +
+    (metrics.total_trades - metrics.verified_trades) * unverifiedTradeWeight;
+  const weightedPnl = metrics.verified_pnl_usd +
+    (metrics.total_pnl_usd - metrics.verified_pnl_usd) * unverifiedTradeWeight;
+
+  const tradesScore = Math.min(weightedTrades / FULL_SCORE_TRADES, 1) * weights.trades;
+  const winRateScore = winRate * weights.win_rate;
+  const pnlScore = Math.min(Math.max(weightedPnl, 0) / FULL_SCORE_PNL_USD, 1) * weights.pnl;
+  const execScore = executionScore(metrics.avg_execution_time_ms) * weights.execution;
+
+  return Math.round(Math.min(tradesScore + winRateScore + pnlScore + execScore, 100));
+}
+
+// Fraction of the execution points earned at an average execution time
+function executionScore(avgExecutionTimeMs: number): number {
+  if (avgExecutionTimeMs <= 50) return 1;
+  if (avgExecutionTimeMs <= 100) return 0.7;
+  if (avgExecutionTimeMs <= 200) return 0.4;
+  return 0;
+}
+
+// Nothing over nothing is 0; something over nothing is unbounded
+function ratio(numerator: number, denominator: number): number {
+  if (denominator > 0) return numerator / denominator;
+  return numerator > 0 ? Infinity : 0;
+}
+
+registerScoringModel(tradeCountModel);
+registerScoringModel(tradeCountWilsonModel);
+registerScoringModel(tradeCountVerifiedModel);
+registerScoringModel(volumeWeightedModel);
@@ -0,0 +1,239 @@
+/**
+ * On-chain Trade Verification
+ * Checks a logged trade's tokens and amounts against the transaction it claims to be
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import fs from 'fs';
+
+// Claimed amounts may differ from the chain by this fraction (rounding, UI decimals)
+const AMOUNT_TOLERANCE = 0.01;
+
+// The transaction's block time may differ from the trade's execution time by this much
+const BLOCK_TIME_TOLERANCE_MS = 5 * 60_000;
+
+// Transaction lookups in flight at once when verifying a batch
+const VERIFY_CONCURRENCY = 8;
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+// Mints reported by their symbol; any other token is identified by its mint address
+const KNOWN_MINTS: Record<string, string> = {
+  So11111111111111111111111111111111111111112: 'SOL',
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: 'USDC',
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: 'USDT'
+};
+
+/**
+ * A confirmed transaction as seen from one wallet
+ */
+export interface OnchainTransaction {
+  signature: string;
+  signers: string[];
+  succeeded: boolean;
+  block_time: number | null;              // Unix ms
+  balance_changes: Record<string, number>; // Token symbol (or mint) -> net change for the wallet
+}
+
+/**
+ * Where transactions are looked up - an RPC node, or fixtures in tests
+ */
+export interface TransactionSource {
+  getTransaction(signature: string, wallet: string): Promise<OnchainTransaction | null>;
+}
+
+// The trade fields checked against the chain
+export interface ClaimedTrade {
+  tx_signature: string;
+  token_in: string;
+  token_out: string;
+  amount_in: number;
+  amount_out: number;
+  executed_at: number;                     // Unix ms
+}
+
+export interface TradeVerification {
+  verified: boolean;
+  reason?: string;
+}
+
+/**
+ * Solana JSON-RPC source
+ * Balance changes come from the wallet's pre/post token balances, plus native SOL net of fees
+ */
+export class RpcTransactionSource implements TransactionSource {
+  private client: AxiosInstance;
+
+  constructor(rpcUrl: string) {
+    this.client = axios.create({
+      baseURL: rpcUrl,
+      timeout: 15000,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  async getTransaction(signature: string, wallet: string): Promise<OnchainTransaction | null> {
+    const response = await this.client.post('', {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'getTransaction',
+      params: [signature, { encoding: 'jsonParsed', commitment: 'confirmed', maxSupportedTransactionVersion: 0 }]
+    });
+    const tx = response.data?.result;
+    if (!tx?.meta) return null;
+
+    const accountKeys: Array<{ pubkey: string; signer: boolean }> = tx.transaction.message.accountKeys;
+    const balanceChanges: Record<string, number> = {};
+    const addChange = (token: string, change: number) => {
+      balanceChanges[token] = (balanceChanges[token] ?? 0) + change;
+    };
+
+    // Native SOL, with the fee added back when the wallet paid it
+    const walletIndex = accountKeys.findIndex((key) => key.pubkey === wallet);
+    if (walletIndex !== -1) {
+      const fee = walletIndex === 0 ? tx.meta.fee : 0;
+      const lamports = tx.meta.postBalances[walletIndex] - tx.meta.preBalances[walletIndex] + fee;
+      if (lamports !== 0) addChange('SOL', lamports / LAMPORTS_PER_SOL);
+    }
+
+    // SPL token accounts owned by the wallet
+    for (const post of tx.meta.postTokenBalances || []) {
+      if (post.owner !== wallet) continue;
+      const pre = (tx.meta.preTokenBalances || []).find(
+        (balance: any) => balance.accountIndex === post.accountIndex
+      );
+      const change = (post.uiTokenAmount.uiAmount ?? 0) - (pre?.uiTokenAmount.uiAmount ?? 0);
+      if (change !== 0) addChange(KNOWN_MINTS[post.mint] ?? post.mint, change);
+    }
+    // Token accounts closed in the transaction only show up before it
+    for (const pre of tx.meta.preTokenBalances || []) {
+      if (pre.owner !== wallet) continue;
+      const stillOpen = (tx.meta.postTokenBalances || []).some(
+        (balance: any) => balance.accountIndex === pre.accountIndex
+      );
+      if (!stillOpen) addChange(KNOWN_MINTS[pre.mint] ?? pre.mint, -(pre.uiTokenAmount.uiAmount ?? 0));
+    }
+
+    return {
+      signature,
+      signers: accountKeys.filter((key) => key.signer).map((key) => key.pubkey),
+      succeeded: tx.meta.err === null,
+      block_time: tx.blockTime ? tx.blockTime * 1000 : null,
+      balance_changes: balanceChanges
+    };
+  }
+}
+
+/**
+ * Fixture-backed source for tests and local development
+ * Balance changes are recorded for the transaction's first signer
+ */
+export class FixtureTransactionSource implements TransactionSource {
+  private transactions = new Map<string, OnchainTransaction>();
+
+  constructor(transactions: OnchainTransaction[] = []) {
+    for (const tx of transactions) this.add(tx);
+  }
+
+  /**
+   * Load fixtures from a JSON file holding an array of transactions
+   */
+  static fromFile(path: string): FixtureTransactionSource {
+    return new FixtureTransactionSource(JSON.parse(fs.readFileSync(path, 'utf8')));
+  }
+
+  add(tx: OnchainTransaction): void {
+    this.transactions.set(tx.signature, tx);
+  }
+
+  async getTransaction(signature: string, wallet: string): Promise<OnchainTransaction | null> {
+    const tx = this.transactions.get(signature);
+    if (!tx) return null;
+    return tx.signers[0] === wallet ? tx : { ...tx, balance_changes: {} };
+  }
+}
+
+/**
+ * Source configured by TRADE_VERIFIER: "rpc" (SOLANA_RPC_URL) or "fixture" (TRADE_VERIFIER_FIXTURES)
+ * Verification is off when unset - trades are still logged, just never verified
+ */
+export function createTransactionSource(): TransactionSource | null {
+  switch (process.env.TRADE_VERIFIER) {
+    case 'rpc':
+      return new RpcTransactionSource(process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com');
+    case 'fixture':
+      return process.env.TRADE_VERIFIER_FIXTURES
+        ? FixtureTransactionSource.fromFile(process.env.TRADE_VERIFIER_FIXTURES)
+        : new FixtureTransactionSource();
+    default:
+      return null;
+  }
+}
+
+export class TradeVerifier {
+  constructor(private source: TransactionSource | null) {}
+
+  /**
+   * Swap the transaction source (e.g. fixtures in tests)
+   */
+  setSource(source: TransactionSource | null): void {
+    this.source = source;
+  }
+
+  /**
+   * Check a trade against its transaction, as seen from the agent's wallet
+   * Never throws - anything that can't be confirmed is simply unverified
+   */
+  async verify(trade: ClaimedTrade, wallet: string | undefined): Promise<TradeVerification> {
+    if (!this.source) return { verified: false, reason: 'On-chain verification is not configured' };
+    if (!wallet) return { verified: false, reason: 'Agent has no public key to match signers against' };
+
+    let tx: OnchainTransaction | null;
+    try {
+      tx = await this.source.getTransaction(trade.tx_signature, wallet);
+    } catch (error: any) {
+      console.log(`⚠️ Transaction lookup failed: ${error?.message || String(error)}`);
+      return { verified: false, reason: 'Transaction lookup failed' };
+    }
+
+    if (!tx) return { verified: false, reason: 'Transaction not found' };
+    if (!tx.succeeded) return { verified: false, reason: 'Transaction failed on-chain' };
+    if (!tx.signers.includes(wallet)) return { verified: false, reason: 'Transaction not signed by the agent' };
+    if (tx.block_time === null || Math.abs(tx.block_time - trade.executed_at) > BLOCK_TIME_TOLERANCE_MS) {
+      return { verified: false, reason: 'Transaction time does not match the trade' };
+    }
+
+    const spent = -(tx.balance_changes[trade.token_in] ?? 0);
+    const received = tx.balance_changes[trade.token_out] ?? 0;
+    if (!matches(spent, trade.amount_in) || !matches(received, trade.amount_out)) {
+      return { verified: false, reason: 'Amounts or tokens do not match the transaction' };
+    }
+
+    return { verified: true };
+  }
+
+  /**
+   * Check a batch of trades, a few transaction lookups at a time
+   * Results line up with the trades; trades without a claim stay null
+   */
+  async verifyAll(trades: Array<ClaimedTrade | null>, wallet: string | undefined): Promise<Array<TradeVerification | null>> {
+    const results: Array<TradeVerification | null> = trades.map(() => null);
+    let next = 0;
+    const worker = async () => {
+      while (next < trades.length) {
+        const i = next++;
+        const trade = trades[i];
+        if (trade) results[i] = await this.verify(trade, wallet);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(VERIFY_CONCURRENCY, trades.length) }, worker));
+    return results;
+  }
+}
+
+function matches(actual: number, claimed: number): boolean {
+  if (!(actual > 0)) return false;
+  return Math.abs(actual - claimed) <= actual * AMOUNT_TOLERANCE;
+}
+
+export const tradeVerifier = new TradeVerifier(createTransactionSource());
@@ -0,0 +1,114 @@
+/**
+ * Uptime Tracking
+ * Rolling uptime derived from agent heartbeats
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const UPTIME_WINDOWS = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS
+};
+
+// Interval assumed when an agent doesn't declare one
+export const DEFAULT_HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+// A heartbeat keeps an agent "up" for this many expected intervals,
+// so a slightly late heartbeat doesn't register as downtime
+const GRACE_FACTOR = 1.5;
+
+/**
+ * Per-agent heartbeat coverage.
+ * Consecutive heartbeats are merged into covered [start, end] ranges,
+ * and ranges older than the longest window are pruned.
+ */
+export interface UptimeState {
+  expected_interval_ms: number;
+  tracking_since: number;
+  last_heartbeat_at: number;
+  covered: Array<[number, number]>;
+}
+
+export interface UptimeStats {
+  uptime_24h: number;
+  uptime_7d: number;
+  uptime_30d: number;
+}
+
+export type Liveness = 'online' | 'offline' | 'unknown';
+
+/**
+ * Record a heartbeat, optionally updating the agent's declared interval
+ */
+export function recordHeartbeat(
+  state: UptimeState | undefined,
+  now: number,
+  expectedIntervalMs?: number
+): UptimeState {
+  const next: UptimeState = state || {
+    expected_interval_ms: expectedIntervalMs || DEFAULT_HEARTBEAT_INTERVAL_MS,
+    tracking_since: now,
+    last_heartbeat_at: now,
+    covered: []
+  };
+
+  if (expectedIntervalMs) {
+    next.expected_interval_ms = expectedIntervalMs;
+  }
+
+  const coveredUntil = now + next.expected_interval_ms * GRACE_FACTOR;
+  const last = next.covered[next.covered.length - 1];
+  if (last && last[1] >= now) {
+    last[1] = Math.max(last[1], coveredUntil);
+  } else {
+    next.covered.push([now, coveredUntil]);
+  }
+  next.last_heartbeat_at = now;
+
+  // Drop coverage that can no longer fall inside any window
+  const horizon = now - UPTIME_WINDOWS['30d'];
+  next.covered = next.covered.filter(([, end]) => end >= horizon);
+
+  return next;
+}
+
+/**
+ * Uptime percentage over a rolling window ending now
+ * Windows are clipped to when tracking started, so new agents aren't
+ * penalised for time before their first heartbeat
+ */
+export function computeUptime(state: UptimeState, now: number, windowMs: number): number {
+  const windowStart = Math.max(now - windowMs, state.tracking_since);
+  const windowLength = now - windowStart;
+  if (windowLength <= 0) return 100;
+
+  let coveredMs = 0;
+  for (const [start, end] of state.covered) {
+    const overlap = Math.min(end, now) - Math.max(start, windowStart);
+    if (overlap > 0) coveredMs += overlap;
+  }
+
+  return Math.round(Math.min(coveredMs / windowLength, 1) * 10000) / 100;
+}
+
+/**
+ * Uptime across all rolling windows
+ */
+export function computeUptimeStats(state: UptimeState, now: number): UptimeStats {
+  return {
+    uptime_24h: computeUptime(state, now, UPTIME_WINDOWS['24h']),
+    uptime_7d: computeUptime(state, now, UPTIME_WINDOWS['7d']),
+    uptime_30d: computeUptime(state, now, UPTIME_WINDOWS['30d'])
+  };
+}
+
+/**
+ * Whether the agent's latest heartbeat is still within its grace period
+ */
+export function getLiveness(state: UptimeState | undefined, now: number): Liveness {
+  if (!state) return 'unknown';
+  const deadline = state.last_heartbeat_at + state.expected_interval_ms * GRACE_FACTOR;
+  return now <= deadline ? 'online' : 'offline';
+}
@@ -67,7 +67,9 @@ Rate limit headers are included in all responses:
       { name: 'Metrics', description: 'Performance metrics' },
       { name: 'Proofs', description: 'ZK proof generation and verification' },
       { name: 'Reputation', description: 'Verified reputation scores' },
-      { name: 'Leaderboard', description: 'Public leaderboard' }
+      { name: 'Leaderboard', description: 'Public leaderboard' },
+      { name: 'Badges', description: 'Badge catalog, holders and progress' },
+      { name: 'Admin', description: 'Operator endpoints (requires ADMIN_API_KEY)' }
     ],
     components: {
       schemas: {
@@ -77,6 +79,8 @@ Rate limit headers are included in all responses:
             agent_id: { type: 'string', format: 'uuid', description: 'Unique agent identifier' },
             name: { type: 'string', description: 'Agent display name' },
             public_key: { type: 'string', nullable: true, description: 'Optional public key' },
+            starting_capital_usd: { type: 'number', description: 'Capital the equity curve is measured against' },
+            cost_basis_method: { type: 'string', enum: ['fifo', 'average'], description: 'How sold quantity is matched against open lots' },
             created_at: { type: 'integer', description: 'Unix timestamp (ms)' },
             api_key: { type: 'string', description: 'API key (only returned on registration)' }
           }
@@ -96,10 +100,34 @@ Rate limit headers are included in all responses:
             total_trades: { type: 'integer' },
             winning_trades: { type: 'integer' },
             total_pnl_usd: { type: 'number' },
-            max_drawdown_bps: { type: 'integer', description: 'Basis points' },
-            sharpe_ratio: { type: 'number' },
+            realized_pnl_usd: { type: 'number', description: 'PnL realized by closing position lots' },
+            unrealized_pnl_usd: { type: 'number', description: 'Open positions marked at their latest trade prices' },
+            verified_trades: { type: 'integer', description: 'Trades confirmed against their on-chain transaction' },
+            verified_pnl_usd: { type: 'number' },
+            volume_usd: { type: 'number', description: 'Notional traded, in USD' },
+            verified_volume_usd: { type: 'number' },
+            winning_volume_usd: { type: 'number' },
+            gross_profit_usd: { type: 'number' },
+            gross_loss_usd: { type: 'number' },
+            flagged_trades: { type: 'integer', description: 'Trades flagged as anomalous, left out of the reputation score' },
+            win_rate_lower_bound: { type: 'number', description: 'Lower bound (%) of the 95% Wilson interval on win rate' },
+            win_rate_upper_bound: { type: 'number' },
+            avg_pnl_lower_bound_usd: { type: 'number', description: 'Lower bound of the 95% bootstrap interval on mean PnL per trade' },
+            avg_pnl_upper_bound_usd: { type: 'number' },
+            max_drawdown_bps: { type: 'integer', description: 'Worst peak-to-trough equity drawdown (basis points)' },
+            current_drawdown_bps: { type: 'integer', description: 'Drawdown from the current equity peak (basis points)' },
+            drawdown_duration_ms: { type: 'number', description: 'Time spent below the current equity peak' },
+            max_drawdown_duration_ms: { type: 'number', description: 'Longest time spent below an equity peak' },
+            recovery_time_ms: { type: 'number', nullable: true, description: 'Trough-to-recovery time of the last closed drawdown' },
+            sharpe_ratio: { type: 'number', description: 'Annualized, from daily returns' },
+            sortino_ratio: { type: 'number', description: 'Annualized, downside deviation only' },
+            volatility: { type: 'number', description: 'Annualized std dev of daily returns' },
             avg_execution_time_ms: { type: 'number' },
-            uptime_percentage: { type: 'number' },
+            uptime_percentage: { type: 'number', nullable: true, description: 'Rolling 30d uptime from heartbeats; null until the first heartbeat' },
+            uptime_24h: { type: 'number', nullable: true },
+            uptime_7d: { type: 'number', nullable: true },
+            last_heartbeat_at: { type: 'integer', nullable: true },
+            liveness: { type: 'string', enum: ['online', 'offline', 'unknown'] },
             win_rate: { type: 'number', description: 'Percentage' },
             last_updated: { type: 'integer' }
           }
@@ -116,7 +144,7 @@ Rate limit headers are included in all responses:
         },
         TradeLog: {
           type: 'object',
-          required: ['agent_id', 'api_key', 'pnl_usd'],
+          required: ['agent_id', 'api_key'],
           properties: {
             agent_id: { type: 'string', format: 'uuid' },
             api_key: { type: 'string', description: 'Agent API key for authentication' },
@@ -124,8 +152,32 @@ Rate limit headers are included in all responses:
             token_out: { type: 'string', default: 'USDC' },
             amount_in: { type: 'number', default: 0 },
             amount_out: { type: 'number', default: 0 },
-            pnl_usd: { type: 'number', description: 'Profit/loss in USD' },
-            execution_time_ms: { type: 'integer', default: 100 }
+            pnl_usd: { type: 'number', description: 'Profit/loss in USD. Derived from token prices at execution time when omitted' },
+            execution_time_ms: { type: 'integer', default: 100 },
+            client_trade_id: { type: 'string', maxLength: 128, description: 'Idempotency key - retries with the same ID are not counted twice' },
+            executed_at: { type: 'integer', description: 'When the trade executed, Unix timestamp (ms). Defaults to now; bounded by TRADE_MAX_BACKFILL_DAYS and TRADE_MAX_FUTURE_SKEW_MS' },
+            tx_signature: { type: 'string', description: 'Transaction signature - tokens and amounts are checked against it on-chain' }
+          }
+        },
+        Trade: {
+          type: 'object',
+          properties: {
+            trade_id: { type: 'string', format: 'uuid' },
+            agent_id: { type: 'string', format: 'uuid' },
+            timestamp: { type: 'integer', description: 'Unix timestamp (ms)' },
+            token_in: { type: 'string' },
+            token_out: { type: 'string' },
+            amount_in: { type: 'number' },
+            amount_out: { type: 'number' },
+            pnl_usd: { type: 'number' },
+            reported_pnl_usd: { type: 'number' },
+            derived_pnl_usd: { type: 'number', description: 'Mark-to-market PnL from execution-time prices' },
+            pnl_suspicious: { type: 'boolean', description: 'Reported and derived PnL disagree' },
+            price_source: { type: 'string', description: 'Source of the execution-time prices; absent when the trade is unpriced' },
+            execution_time_ms: { type: 'integer' },
+            client_trade_id: { type: 'string' },
+            tx_signature: { type: 'string' },
+            verified_onchain: { type: 'boolean', description: 'Tokens and amounts matched tx_signature' }
           }
         },
         ReputationProof: {
@@ -139,7 +191,8 @@ Rate limit headers are included in all responses:
             public_outputs: { type: 'object' },
             created_at: { type: 'integer' },
             expires_at: { type: 'integer' },
-            circuit_hash: { type: 'string' }
+            circuit_hash: { type: 'string' },
+            verified: { type: 'boolean', description: 'Passed POST /proofs/verify' }
           }
         },
         VerifiedReputation: {
@@ -147,11 +200,25 @@ Rate limit headers are included in all responses:
           properties: {
             agent_id: { type: 'string', format: 'uuid' },
             reputation_score: { type: 'integer', minimum: 0, maximum: 100 },
-            tier: { type: 'string', enum: ['unverified', 'bronze', 'silver', 'gold', 'platinum', 'diamond'] },
+            tier: { type: 'string', enum: ['unverified', 'bronze', 'silver', 'gold', 'platinum', 'diamond'], description: 'Tier earned on score and track record, before percentile cutoffs and decay' },
             badges: { type: 'array', items: { $ref: '#/components/schemas/Badge' } },
             verification_proof: { type: 'string' },
             verified_at: { type: 'integer' },
-            mpc_attestation: { type: 'string' }
+            mpc_attestation: { type: 'string' },
+            scoring_model: { type: 'string', example: 'trade_count@2', description: 'model_id@version that produced the score' },
+            percentile: { type: 'number', nullable: true, example: 4.17, description: 'Top X% of verified agents by effective score, as last ranked' },
+            cohort_size: { type: 'integer', description: 'Verified agents it was ranked among' }
+          }
+        },
+        AgentFlagSummary: {
+          type: 'object',
+          properties: {
+            agent_id: { type: 'string', format: 'uuid' },
+            name: { type: 'string' },
+            scoring_status: { type: 'string', enum: ['normal', 'discounted', 'frozen'] },
+            scoring_frozen: { type: 'boolean', description: 'Frozen by an admin' },
+            total_trades: { type: 'integer' },
+            flagged_trades: { type: 'integer' }
           }
         },
         Badge: {
@@ -160,7 +227,96 @@ Rate limit headers are included in all responses:
             badge_id: { type: 'string' },
             name: { type: 'string' },
             description: { type: 'string' },
-            earned_at: { type: 'integer' }
+            earned_at: { type: 'integer', description: 'First time the agent earned the badge' },
+            proof_id: { type: 'string', format: 'uuid', description: 'Verified proof backing a proof-backed badge; fetch it from GET /proofs/{proof_id} and check it with POST /proofs/verify' }
+          }
+        },
+        BadgeInfo: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', example: 'veteran' },
+            name: { type: 'string' },
+            description: { type: 'string' },
+            metric: { type: 'string', example: 'total_trades' },
+            operator: { type: 'string', enum: ['>', '>=', '<', '<=', '=='] },
+            threshold: { type: 'number' },
+            window: { type: 'string', example: '30d', description: 'Rolling window the metric is measured over; lifetime when absent' },
+            proof: {
+              type: 'object',
+              description: 'Verified proof the badge also needs',
+              properties: {
+                type: { type: 'string', example: 'win_rate' },
+                input: { type: 'string', example: 'threshold' },
+                operator: { type: 'string', enum: ['>', '>=', '<', '<=', '=='] },
+                value: { type: 'number' }
+              }
+            },
+            holder_count: { type: 'integer', description: 'Agents holding it now' }
+          }
+        },
+        BadgeHolder: {
+          type: 'object',
+          properties: {
+            agent_id: { type: 'string', format: 'uuid' },
+            agent_name: { type: 'string' },
+            earned_at: { type: 'integer', description: 'First time the agent earned the badge' },
+            proof_id: { type: 'string', format: 'uuid', description: 'Proof backing a proof-backed badge' }
+          }
+        },
+        BadgeProgress: {
+          type: 'object',
+          properties: {
+            badge_id: { type: 'string' },
+            name: { type: 'string' },
+            description: { type: 'string' },
+            metric: { type: 'string' },
+            operator: { type: 'string', enum: ['>', '>=', '<', '<=', '=='] },
+            threshold: { type: 'number' },
+            window: { type: 'string' },
+            value: { type: 'number', description: 'The metric now' },
+            progress: { type: 'number', minimum: 0, maximum: 1, description: 'Fraction of the way to the threshold' },
+            criteria_met: { type: 'boolean', description: 'The metric meets the threshold' },
+            proof_required: { type: 'boolean' },
+            proof_id: { type: 'string', nullable: true, description: 'Proof that would back the badge now' },
+            held: { type: 'boolean' },
+            earned_at: { type: 'integer', nullable: true, description: 'First time the agent earned the badge, kept through revocation' }
+          }
+        },
+        ScoringModel: {
+          type: 'object',
+          properties: {
+            model: { type: 'string', example: 'volume_weighted@1' },
+            id: { type: 'string' },
+            version: { type: 'integer' },
+            description: { type: 'string' },
+            weights: { type: 'object', additionalProperties: { type: 'number' } },
+            unverified_trade_weight: { type: 'number', description: 'What a trade not confirmed on-chain counts for, against 1 for a verified one' },
+            tiers: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  tier: { type: 'string' },
+                  min_score: { type: 'number' }
+                }
+              }
+            },
+            default: { type: 'boolean' }
+          }
+        },
+        TierLevel: {
+          type: 'object',
+          properties: {
+            tier: { type: 'string', enum: ['diamond', 'platinum', 'gold', 'silver', 'bronze', 'unverified'] },
+            stars: { type: 'integer', minimum: 0, maximum: 3 },
+            rating: { type: 'string', enum: ['three_star', 'two_star', 'one_star', 'verified', 'unverified'] },
+            display: { type: 'string', example: '◆◆' },
+            description: { type: 'string', example: 'Excellent' },
+            min_score: { type: 'number', description: 'Default score cutoff' },
+            min_trades: { type: 'integer' },
+            min_win_rate: { type: 'number', description: '%' },
+            min_pnl_usd: { type: 'number' },
+            max_percentile: { type: 'number', nullable: true, description: 'Top X% of verified agents the tier is limited to, once the population is large enough' }
           }
         },
         LeaderboardEntry: {
@@ -168,10 +324,17 @@ Rate limit headers are included in all responses:
           properties: {
             agent_id: { type: 'string', format: 'uuid' },
             agent_name: { type: 'string' },
-            reputation_score: { type: 'integer' },
-            tier: { type: 'string' },
+            reputation_score: { type: 'integer', description: 'Score as verified' },
+            effective_score: { type: 'integer', description: 'Score after decay for inactivity; ranks the leaderboard' },
+            last_active_at: { type: 'integer', description: 'Latest trade or heartbeat; the verification without either' },
+            star_rating: { type: 'integer', minimum: 0, maximum: 3 },
+            rating_display: { type: 'string' },
+            tier: { type: 'string', description: 'Tier of the effective score' },
             badges: { type: 'array', items: { $ref: '#/components/schemas/Badge' } },
-            total_trades: { type: 'integer' }
+            total_trades: { type: 'integer' },
+            win_rate: { type: 'number' },
+            win_rate_lower_bound: { type: 'number', description: 'Lower bound (%) of the 95% Wilson interval on win rate' },
+            win_rate_upper_bound: { type: 'number' }
           }
         },
         ApiResponse: {
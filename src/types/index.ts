@@ -9,18 +9,47 @@ export interface Agent {
   name: string;
   created_at: number;
   public_key?: string;
+  starting_capital_usd?: number; // Baseline for the equity curve
+  cost_basis_method?: CostBasisMethod;
+  scoring_frozen?: boolean;        // Reputation scoring frozen by an admin
   api_key: string; // Secret key for owner authentication
 }
 
+// How closed quantity is matched against open lots
+export type CostBasisMethod = 'fifo' | 'average';
+
 // Performance metrics (stored encrypted via Inco FHE)
 export interface PerformanceMetrics {
   total_trades: number;
   winning_trades: number;
   total_pnl_usd: number;
-  max_drawdown_bps: number;
-  sharpe_ratio: number;
+  realized_pnl_usd: number;        // From closing position lots
+  unrealized_pnl_usd: number;      // Open positions, marked at their latest trade prices
+  verified_trades: number;         // Trades confirmed against their on-chain transaction
+  verified_pnl_usd: number;
+  volume_usd: number;              // Notional traded, in USD
+  verified_volume_usd: number;
+  winning_volume_usd: number;      // Notional of winning trades
+  gross_profit_usd: number;        // PnL of winning trades
+  gross_loss_usd: number;          // PnL of losing trades, as a positive amount
+  flagged_trades: number;          // Trades with anomalies - left out of the reputation score
+  win_rate_lower_bound: number;    // %, 95% Wilson interval; wide for small samples
+  win_rate_upper_bound: number;
+  avg_pnl_lower_bound_usd: number; // 95% bootstrap interval on mean PnL per trade
+  avg_pnl_upper_bound_usd: number;
+  max_drawdown_bps: number;        // Worst peak-to-trough equity drawdown
+  current_drawdown_bps: number;
+  drawdown_duration_ms: number;    // Time spent below the current peak
+  max_drawdown_duration_ms: number;
+  recovery_time_ms: number | null; // Trough-to-recovery time of the last closed drawdown
+  sharpe_ratio: number;            // Annualized, from daily returns
+  sortino_ratio: number;           // Annualized, downside deviation only
+  volatility: number;              // Annualized std dev of daily returns
   avg_execution_time_ms: number;
-  uptime_percentage: number;
+  uptime_percentage: number | null; // Rolling 30d, from heartbeats; null until the first one
+  uptime_24h: number | null;
+  uptime_7d: number | null;
+  last_heartbeat_at: number | null;
   last_updated: number;
 }
 
@@ -33,11 +62,25 @@ export interface EncryptedMetrics {
   mode: 'live' | 'computed';
 }
 
+// Rolling period metrics were computed over, ending at `to`
+export interface MetricsPeriod {
+  window: string;                  // e.g. '7d', '30d', '90d', '12h'
+  from: number;                    // Inclusive, ms since epoch
+  to: number;                      // Inclusive, ms since epoch
+}
+
 // Reputation proof request
 export interface ReputationProofRequest {
   agent_id: string;
   proof_type: ReputationProofType;
-  public_inputs: Record<string, number>;
+  public_inputs: ProofPublicInputs;
+  window?: string;                 // Prove over a rolling window instead of lifetime
+}
+
+// Numeric bounds by name, optionally scoped to one "TOKEN_IN/TOKEN_OUT" pair
+export interface ProofPublicInputs {
+  pair?: string;
+  [bound: string]: number | string | undefined;
 }
 
 // Types of reputation proofs
@@ -61,6 +104,7 @@ export interface ReputationProof {
   created_at: number;
   expires_at: number;
   circuit_hash: string;
+  verified: boolean;               // Passed POST /proofs/verify
 }
 
 // Verified reputation score (via Arcium MPC)
@@ -72,6 +116,58 @@ export interface VerifiedReputation {
   verification_proof: string;
   verified_at: number;
   mpc_attestation: string;
+  scoring_model: string;           // model_id@version that produced the score
+  percentile: number | null;       // Top X% of verified agents by effective score; null until ranked
+  cohort_size: number;             // Verified agents it was ranked among
+}
+
+// A verified reputation adjusted for how long the agent has been inactive
+export interface ReputationDecay {
+  raw_score: number;               // As verified
+  effective_score: number;         // After decay; 0 once lapsed
+  effective_tier: ReputationTier;
+  last_active_at: number;          // Latest trade or heartbeat; the verification without either
+  lapsed: boolean;                 // Inactive long enough to count as unverified
+}
+
+// Metrics reputation scores are computed from
+export interface ScoringMetrics {
+  total_trades: number;
+  winning_trades: number;
+  total_pnl_usd: number;
+  verified_trades: number;
+  verified_pnl_usd: number;
+  avg_execution_time_ms: number;
+  volume_usd: number;
+  verified_volume_usd: number;
+  winning_volume_usd: number;
+  gross_profit_usd: number;
+  gross_loss_usd: number;
+  win_rate_lower_bound: number;
+}
+
+// Minimum score for a tier
+export interface TierThreshold {
+  tier: ReputationTier;
+  min_score: number;
+}
+
+// A versioned reputation scoring formula. A published id@version never
+// changes, so attestations made with it can always be re-derived
+export interface ScoringModel {
+  id: string;
+  version: number;
+  description: string;
+  weights: Record<string, number>;  // Points per score component
+  unverified_trade_weight: number;  // What a trade not confirmed on-chain counts for, against 1 for a verified one
+  tiers: TierThreshold[];           // Highest first; below the last is unverified
+  score(metrics: ScoringMetrics, weights: Record<string, number>, unverifiedTradeWeight: number): number;
+}
+
+// A scoring model as listed by GET /reputation/models
+export interface ScoringModelInfo extends Omit<ScoringModel, 'score'> {
+  model: string;                    // model_id@version
+  default: boolean;
 }
 
 // Reputation tiers
@@ -83,15 +179,158 @@ export type ReputationTier =
   | 'platinum'
   | 'diamond';
 
+// Star ratings shown with tiers
+export type StarRating = 'three_star' | 'two_star' | 'one_star' | 'verified' | 'unverified';
+
+// One step of the reputation classification: the tier, how it is shown, and what it takes
+export interface TierLevel {
+  tier: ReputationTier;
+  stars: number;
+  rating: StarRating;
+  display: string;
+  description: string;
+  min_score: number;               // Default cutoff; scoring models may set their own
+  min_trades: number;
+  min_win_rate: number;            // %
+  min_pnl_usd: number;
+  max_percentile: number | null;   // Top X% of the population it also takes; null for no percentile cutoff
+}
+
 // Achievement badges
 export interface ReputationBadge {
   badge_id: string;
   name: string;
   description: string;
+  earned_at: number;               // First time the agent earned it
+  proof_id?: string;
+}
+
+// Metrics a badge rule can test; win_rate is a %
+export type BadgeMetric =
+  | 'total_trades'
+  | 'winning_trades'
+  | 'total_pnl_usd'
+  | 'realized_pnl_usd'
+  | 'volume_usd'
+  | 'verified_trades'
+  | 'verified_pnl_usd'
+  | 'win_rate'
+  | 'win_rate_lower_bound'
+  | 'sharpe_ratio'
+  | 'sortino_ratio'
+  | 'max_drawdown_bps'
+  | 'avg_execution_time_ms'
+  | 'uptime_percentage';
+
+export type BadgeOperator = '>' | '>=' | '<' | '<=' | '==';
+
+// A badge is held while `metric operator threshold` holds, over the window if one is set
+export interface BadgeRule {
+  id: string;
+  name: string;
+  description: string;
+  metric: BadgeMetric;
+  operator: BadgeOperator;
+  threshold: number;
+  window?: string;                 // Rolling window such as '30d'; all trades when unset
+  proof?: BadgeProofRequirement;   // Also needs a verified proof, which the badge links to
+}
+
+// A verified, unexpired proof of `type` over the rule's window, whose `input`
+// public output compares to `value` and whose claim held
+export interface BadgeProofRequirement {
+  type: ReputationProofType;
+  input: string;
+  operator: BadgeOperator;
+  value: number;
+}
+
+// An agent's record of a badge; a revoked badge keeps its first earn date
+export interface AgentBadge {
+  agent_id: string;
+  badge_id: string;
+  earned_at: number;
+  revoked_at: number | null;
+  proof_id: string | null;         // Latest proof backing it, for proof-backed badges
+}
+
+// A badge as listed by GET /badges
+export interface BadgeInfo extends BadgeRule {
+  holder_count: number;            // Agents holding it now
+}
+
+// An agent holding a badge
+export interface BadgeHolder {
+  agent_id: string;
+  agent_name: string;
   earned_at: number;
   proof_id?: string;
 }
 
+// Badge holder pagination
+export interface BadgeHolderQuery {
+  limit: number;
+  cursor?: string;                 // next_cursor from the previous page
+}
+
+export interface BadgeHolderPage {
+  holders: BadgeHolder[];          // First to earn it first
+  next_cursor: string | null;
+}
+
+// How close an agent is to a badge
+export interface BadgeProgress {
+  badge_id: string;
+  name: string;
+  description: string;
+  metric: BadgeMetric;
+  operator: BadgeOperator;
+  threshold: number;
+  window?: string;
+  value: number;                   // The metric now
+  progress: number;                // 0-1 towards the threshold
+  criteria_met: boolean;           // The metric meets the threshold
+  proof_required: boolean;
+  proof_id: string | null;         // Proof that would back it now, for proof-backed badges
+  held: boolean;
+  earned_at: number | null;        // First earned, if ever; kept through revocation
+}
+
+// A verified agent's row on the public leaderboard, after decay
+export interface LeaderboardEntry {
+  agent_id: string;
+  agent_name: string;
+  reputation_score: number;
+  effective_score: number;
+  last_active_at: number;
+  star_rating: number;
+  rating_display: string;
+  tier: ReputationTier;
+  badges: ReputationBadge[];
+  total_trades: number;
+  win_rate: number;
+  win_rate_lower_bound: number;
+  win_rate_upper_bound: number;
+}
+
+// Leaderboard orderings, all highest first; score ranks on stars, then effective score
+export type LeaderboardSort = 'score' | 'win_rate' | 'trades' | 'recent';
+
+export interface LeaderboardQuery {
+  limit: number;
+  cursor?: string;                 // next_cursor from the previous page, under the same sort
+  sort: LeaderboardSort;
+  min_stars?: number;
+  tier?: ReputationTier;
+  badge?: string;                  // Agents currently holding this badge
+  min_trades?: number;
+}
+
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  next_cursor: string | null;
+}
+
 // Trade record for logging
 export interface TradeRecord {
   trade_id: string;
@@ -101,8 +340,96 @@ export interface TradeRecord {
   token_out: string;
   amount_in: number;
   amount_out: number;
-  pnl_usd: number;
+  pnl_usd: number;                 // Reported PnL, or derived when none was reported
+  reported_pnl_usd?: number;
+  derived_pnl_usd?: number;        // Mark-to-market from prices at execution time
+  pnl_suspicious: boolean;         // Reported and derived PnL disagree
+  notional_usd?: number;           // USD value at execution, for position cost basis
+  price_source?: string;           // Source of the prices behind derived_pnl_usd and notional_usd
   execution_time_ms: number;
+  client_trade_id?: string;        // Idempotency key - replays return the original trade
+  tx_signature?: string;           // Transaction the trade claims to be
+  verified_onchain: boolean;       // Tokens and amounts matched tx_signature
+  anomalies?: TradeAnomaly[];      // Suspicious patterns flagged on ingest
+}
+
+// Suspicious trade patterns, e.g. farming trade counts with wash trades
+export type AnomalyType = 'micro_trade' | 'duplicate_trade' | 'burst' | 'round_trip';
+
+export interface TradeAnomaly {
+  type: AnomalyType;
+  detail: string;
+}
+
+// normal: no flags; discounted: flagged trades left out of the score;
+// frozen: scoring stopped pending review
+export type ScoringStatus = 'normal' | 'discounted' | 'frozen';
+
+// An agent's flagged trades (admin only)
+export interface AgentFlags {
+  agent_id: string;
+  scoring_status: ScoringStatus;
+  scoring_frozen: boolean;
+  total_trades: number;
+  flagged_trades: number;
+  trades: TradeRecord[];           // Flagged trades, newest first
+}
+
+// Metrics for one token_in/token_out pair (owner only)
+export interface PairMetrics {
+  pair: string;                    // "TOKEN_IN/TOKEN_OUT"
+  token_in: string;
+  token_out: string;
+  total_trades: number;
+  winning_trades: number;
+  win_rate: number;                // Percentage
+  total_pnl_usd: number;
+  avg_execution_time_ms: number;
+}
+
+// Trade history filters (owner only)
+export interface TradeQuery {
+  limit: number;
+  cursor?: string;
+  from?: number;                   // Inclusive, ms since epoch
+  to?: number;                     // Inclusive, ms since epoch
+  token_in?: string;
+  token_out?: string;
+  outcome?: 'win' | 'loss';        // win: pnl_usd > 0, loss: pnl_usd <= 0
+}
+
+// One page of trade history, newest first
+export interface TradePage {
+  trades: TradeRecord[];
+  next_cursor: string | null;
+}
+
+// One open position, marked at a price
+export interface PositionSummary {
+  token: string;
+  quantity: number;
+  avg_cost_usd: number;
+  cost_usd: number;
+  price_usd: number;
+  market_value_usd: number;
+  unrealized_pnl_usd: number;
+  lots: number;
+}
+
+// An agent's open positions (owner only)
+export interface AgentPositions {
+  method: CostBasisMethod;
+  positions: PositionSummary[];
+  realized_pnl_usd: number;
+  unrealized_pnl_usd: number;
+  priced_at: number;
+}
+
+// Result of logging trades; replays resolve to the originally logged trade
+export interface TradeLogResult {
+  metrics: PerformanceMetrics;     // Mean PnL bounds are bootstrapped on the next getMetrics
+  trades: TradeRecord[];
+  replayed: number;
 }
 
 // API Response types
@@ -0,0 +1,12 @@
+/**
+ * Environment Settings
+ * Numeric settings read from the environment at the time they're needed
+ */
+
+/**
+ * A non-negative number from the environment, or the fallback when it's unset or invalid
+ */
+export function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name] || NaN);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
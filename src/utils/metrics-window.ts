@@ -0,0 +1,37 @@
+/**
+ * Metrics Windows
+ * Rolling periods that metrics and proofs can be restricted to
+ */
+
+import { MetricsPeriod } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Common windows; any '<n>d' or '<n>h' up to the maximum is also accepted
+export const METRICS_WINDOWS = ['7d', '30d', '90d'];
+export const MAX_WINDOW_MS = 3650 * DAY_MS;
+
+const WINDOW_PATTERN = /^([1-9]\d{0,5})([hd])$/;
+
+/**
+ * Length of a window like '30d' or '12h', or null when it isn't one
+ */
+export function parseWindow(window: string): number | null {
+  const match = WINDOW_PATTERN.exec(window);
+  if (!match) return null;
+
+  const ms = Number(match[1]) * (match[2] === 'd' ? DAY_MS : HOUR_MS);
+  return ms <= MAX_WINDOW_MS ? ms : null;
+}
+
+/**
+ * The period a rolling window covers when it ends at `now`
+ */
+export function resolveWindow(window: string, now: number): MetricsPeriod {
+  const ms = parseWindow(window);
+  if (ms === null) {
+    throw new Error(`Invalid metrics window: ${window}`);
+  }
+  return { window, from: now - ms, to: now };
+}
@@ -0,0 +1,31 @@
+/**
+ * Cursor Pagination
+ * Opaque cursors over lists ordered by a numeric key with an ID tiebreaker
+ */
+
+export interface CursorPosition {
+  key: number;
+  id: string;
+}
+
+/**
+ * Encode the position of the last item on a page
+ */
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(`${position.key}:${position.id}`).toString('base64url');
+}
+
+/**
+ * Decode a cursor, returning null if it is malformed
+ */
+export function decodeCursor(cursor: string): CursorPosition | null {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator <= 0) return null;
+
+  const key = Number(decoded.slice(0, separator));
+  const id = decoded.slice(separator + 1);
+  if (!Number.isFinite(key) || !id) return null;
+
+  return { key, id };
+}
@@ -4,7 +4,12 @@
  */
 
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import { z } from 'zod';
+import { parseWindow } from './metrics-window';
+import { decodeCursor } from './pagination';
+import { envNumber } from './env';
+import { LeaderboardSort } from '../types';
 
 const SALT_ROUNDS = 12;
 
@@ -28,6 +33,19 @@ export async function verifyApiKey(apiKey: string, hash: string): Promise<boolea
   return bcrypt.compare(apiKey, hash);
 }
 
+/**
+ * Verify an admin key against ADMIN_API_KEY
+ * Admin endpoints are disabled entirely when the variable is unset
+ */
+export function verifyAdminKey(key: string | undefined): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey || !key) return false;
+
+  const expected = Buffer.from(adminKey);
+  const provided = Buffer.from(key);
+  return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+}
+
 // ============================================
 // INPUT VALIDATION SCHEMAS (Zod)
 // ============================================
@@ -37,7 +55,45 @@ export const AgentRegistrationSchema = z.object({
     .min(2, 'Name must be at least 2 characters')
     .max(50, 'Name must be at most 50 characters')
     .regex(/^[a-zA-Z0-9_\-\s]+$/, 'Name can only contain letters, numbers, underscores, hyphens, and spaces'),
-  public_key: z.string().max(200).optional()
+  public_key: z.string().max(200).optional(),
+  starting_capital_usd: z.number().positive().max(1e12).optional(),
+  cost_basis_method: z.enum(['fifo', 'average']).optional()
+});
+
+// Client-supplied idempotency key (body client_trade_id or Idempotency-Key header)
+export const ClientTradeIdSchema = z.string()
+  .min(1)
+  .max(128, 'client_trade_id must be at most 128 characters')
+  .regex(/^[\x21-\x7e]+$/, 'client_trade_id must be printable ASCII without spaces');
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * How far a client-supplied executed_at may sit from the server clock
+ * TRADE_MAX_BACKFILL_DAYS bounds history imports; TRADE_MAX_FUTURE_SKEW_MS allows for clock drift
+ */
+export function getTradeTimestampWindow(): { maxBackfillMs: number; maxFutureSkewMs: number } {
+  return {
+    maxBackfillMs: envNumber('TRADE_MAX_BACKFILL_DAYS', 365) * MS_PER_DAY,
+    maxFutureSkewMs: envNumber('TRADE_MAX_FUTURE_SKEW_MS', 5 * 60 * 1000)
+  };
+}
+
+// When the trade was executed (ms since epoch); defaults to the time it is logged
+export const ExecutedAtSchema = z.number().int().min(0).superRefine((executedAt, ctx) => {
+  const now = Date.now();
+  const { maxBackfillMs, maxFutureSkewMs } = getTradeTimestampWindow();
+  if (executedAt < now - maxBackfillMs) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `executed_at must be within ${Math.round(maxBackfillMs / MS_PER_DAY)} days of now`
+    });
+  } else if (executedAt > now + maxFutureSkewMs) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `executed_at must be at most ${maxFutureSkewMs}ms in the future`
+    });
+  }
 });
 
 export const TradeLogSchema = z.object({
@@ -47,18 +103,103 @@ export const TradeLogSchema = z.object({
   token_out: z.string().max(20).default('USDC'),
   amount_in: z.number().min(0).max(1e12).default(0),
   amount_out: z.number().min(0).max(1e12).default(0),
-  pnl_usd: z.number().min(-1e9).max(1e9),
-  execution_time_ms: z.number().int().min(0).max(60000).default(100)
+  // Derived from token prices when omitted
+  pnl_usd: z.number().min(-1e9).max(1e9).optional(),
+  execution_time_ms: z.number().int().min(0).max(60000).default(100),
+  client_trade_id: ClientTradeIdSchema.optional(),
+  executed_at: ExecutedAtSchema.optional(),
+  tx_signature: z.string()
+    .regex(/^[1-9A-HJ-NP-Za-km-z]{64,128}$/, 'tx_signature must be a base58 transaction signature')
+    .optional()
 });
 
+// Largest batch accepted by POST /trades/batch
+export const MAX_TRADE_BATCH_SIZE = 500;
+
+export const TradeBatchSchema = z.object({
+  agent_id: z.string().uuid('Invalid agent ID format'),
+  api_key: z.string().min(1, 'API key is required'),
+  trades: z.array(TradeLogSchema.omit({ agent_id: true, api_key: true }))
+    .min(1, 'At least one trade is required')
+    .max(MAX_TRADE_BATCH_SIZE, `At most ${MAX_TRADE_BATCH_SIZE} trades per batch`)
+});
+
+export const TradeHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z.string().max(200).refine((c) => decodeCursor(c) !== null, 'Invalid cursor').optional(),
+  from: z.coerce.number().int().min(0).optional(),
+  to: z.coerce.number().int().min(0).optional(),
+  token_in: z.string().max(20).optional(),
+  token_out: z.string().max(20).optional(),
+  outcome: z.enum(['win', 'loss']).optional()
+});
+
+export const BadgeHolderQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z.string().max(200).refine((c) => decodeCursor(c) !== null, 'Invalid cursor').optional()
+});
+
+export const LEADERBOARD_SORTS: [LeaderboardSort, ...LeaderboardSort[]] = ['score', 'win_rate', 'trades', 'recent'];
+
+export const LeaderboardQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z.string().max(200).refine((c) => decodeCursor(c) !== null, 'Invalid cursor').optional(),
+  sort: z.enum(LEADERBOARD_SORTS).default('score'),
+  min_stars: z.coerce.number().int().min(0).max(3).optional(),
+  tier: z.enum(['unverified', 'bronze', 'silver', 'gold', 'platinum', 'diamond']).optional(),
+  badge: z.string().max(50).optional(),
+  min_trades: z.coerce.number().int().min(0).optional()
+});
+
+export const HeartbeatSchema = z.object({
+  api_key: z.string().min(1, 'API key is required'),
+  expected_interval_ms: z.number().int().min(1000).max(86400000).optional()
+});
+
+// Rolling window such as '7d', '30d', '90d' or '12h', up to the longest window
+export const MetricsWindowSchema = z.string()
+  .max(10)
+  .refine((window) => parseWindow(window) !== null, 'window must look like 7d, 30d, 90d or 12h, up to 3650d');
+
+export const MetricsQuerySchema = z.object({
+  group_by: z.enum(['pair']).optional(),
+  window: MetricsWindowSchema.optional()
+});
+
+// Proof types whose metrics can be sliced to a single token_in/token_out pair
+export const PAIR_SCOPED_PROOF_TYPES = ['win_rate', 'pnl_threshold', 'trade_count'];
+
 export const ProofGenerationSchema = z.object({
   agent_id: z.string().uuid('Invalid agent ID format'),
   proof_type: z.enum(['win_rate', 'pnl_threshold', 'trade_count', 'sharpe_ratio', 'max_drawdown', 'uptime', 'composite']),
-  public_inputs: z.record(z.string(), z.number().min(-1e9).max(1e9)).default({})
+  public_inputs: z.object({
+    pair: z.string()
+      .regex(/^[^/\s]{1,20}\/[^/\s]{1,20}$/, 'pair must look like TOKEN_IN/TOKEN_OUT')
+      .optional()
+  }).catchall(z.number().min(-1e9).max(1e9)).default({}),
+  window: MetricsWindowSchema.optional()
+}).superRefine((request, ctx) => {
+  if (request.public_inputs.pair !== undefined && !PAIR_SCOPED_PROOF_TYPES.includes(request.proof_type)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['public_inputs', 'pair'],
+      message: `${request.proof_type} proofs can't be scoped to a pair`
+    });
+  }
 });
 
 export const ReputationVerifySchema = z.object({
-  agent_id: z.string().uuid('Invalid agent ID format')
+  agent_id: z.string().uuid('Invalid agent ID format'),
+  // 'model_id@version', or 'model_id' for its latest version; the route checks it is registered
+  model: z.string().max(64).optional()
+});
+
+export const RecomputeMetricsSchema = z.object({
+  agent_id: z.string().uuid('Invalid agent ID format').optional()
+});
+
+export const ScoringFreezeSchema = z.object({
+  frozen: z.boolean()
 });
 
 export const ProofVerifySchema = z.object({
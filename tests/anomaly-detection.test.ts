@@ -0,0 +1,134 @@
+import { detectAnomalies } from '../src/services/anomaly-detector';
+import { metricsStore } from '../src/services/metrics-store';
+import { reputationService } from '../src/services/reputation';
+import { api } from './api';
+import { ADMIN_API_KEY, HOUR_MS, T0, makeTrade } from './helpers';
+
+const admin = { Authorization: `Bearer ${ADMIN_API_KEY}` };
+
+function anomalyTypes(trade: ReturnType<typeof makeTrade>, neighbours: ReturnType<typeof makeTrade>[] = []) {
+  return detectAnomalies(trade, neighbours).map((anomaly) => anomaly.type);
+}
+
+describe('anomaly detection', () => {
+  const agentId = 'screened-agent';
+
+  it('flags micro-sized trades', () => {
+    expect(anomalyTypes(makeTrade(agentId, 1, { amount_in: 0, amount_out: 0, pnl_usd: 0.01 }))).toEqual(['micro_trade']);
+    expect(anomalyTypes(makeTrade(agentId, 1, { amount_in: 0.001, amount_out: 0.15 }))).toEqual(['micro_trade']);
+    expect(anomalyTypes(makeTrade(agentId, 1))).toEqual([]);
+  });
+
+  it('flags identical trades repeated in a short window', () => {
+    const repeat = (seconds: number) => makeTrade(agentId, 1, { timestamp: T0 + seconds * 1000 });
+    const earlier = [repeat(0), repeat(30)];
+
+    expect(anomalyTypes(repeat(60), earlier)).toEqual(['duplicate_trade']);
+    expect(anomalyTypes(repeat(60), earlier.slice(1))).toEqual([]);
+  });
+
+  it('flags bursts faster than their execution times allow', () => {
+    const burst = [0, 5, 10, 15].map((ms, i) =>
+      makeTrade(agentId, i, { timestamp: T0 + ms, execution_time_ms: 500 }));
+    const paced = [0, 1000, 2000, 3000].map((ms, i) =>
+      makeTrade(agentId, i, { timestamp: T0 + ms, execution_time_ms: 500 }));
+
+    expect(anomalyTypes(makeTrade(agentId, 9, { timestamp: T0 + 20 }), burst)).toEqual(['burst']);
+    expect(anomalyTypes(makeTrade(agentId, 9, { timestamp: T0 + 4000 }), paced)).toEqual([]);
+  });
+
+  it('flags round-trip self-trades', () => {
+    const buy = makeTrade(agentId, 1, { token_in: 'USDC', token_out: 'SOL', amount_in: 150, amount_out: 1, timestamp: T0 });
+    const sellBack = makeTrade(agentId, 2, { token_in: 'SOL', token_out: 'USDC', amount_in: 1, amount_out: 150.5, timestamp: T0 + 60_000 });
+    const later = { ...sellBack, timestamp: T0 + HOUR_MS };
+
+    expect(anomalyTypes(sellBack, [buy])).toEqual(['round_trip']);
+    expect(anomalyTypes(later, [buy])).toEqual([]);
+  });
+});
+
+describe('flagged trades in scoring', () => {
+  it('leaves flagged trades out of the score and badges', async () => {
+    const agent = await metricsStore.registerAgent('wash-agent', 'test-key');
+    const farmed = Array.from({ length: 10 }, (_, i) =>
+      makeTrade(agent.agent_id, i, { amount_in: 0, amount_out: 0, pnl_usd: 0.01 }));
+    await metricsStore.logTrades(agent.agent_id, [...farmed, makeTrade(agent.agent_id, 20)]);
+
+    const reputation = await reputationService.computeVerifiedReputation(agent.agent_id);
+
+    expect(metricsStore.getMetrics(agent.agent_id)).toMatchObject({ total_trades: 11, flagged_trades: 10 });
+    expect(metricsStore.getScoringMetrics(agent.agent_id)).toMatchObject({ total_trades: 1, winning_trades: 1 });
+    expect(metricsStore.getScoringStatus(agent.agent_id)).toBe('discounted');
+    expect(reputation.badges.map((badge) => badge.badge_id)).toContain('first_trade');
+    expect(metricsStore.getTrades(agent.agent_id)[0].anomalies?.[0].type).toBe('micro_trade');
+  });
+
+  it('does not treat a batch logged without executed_at as a burst', async () => {
+    const agent = await metricsStore.registerAgent('batch-agent', 'test-key');
+    const trades = Array.from({ length: 40 }, (_, i) => {
+      const { token_in, token_out, amount_in, amount_out, pnl_usd, execution_time_ms } = makeTrade(agent.agent_id, i);
+      return { token_in, token_out, amount_in, amount_out, pnl_usd, execution_time_ms };
+    });
+
+    await api('POST', '/trades/batch', { body: { agent_id: agent.agent_id, api_key: agent.api_key, trades } });
+
+    expect(metricsStore.getMetrics(agent.agent_id)).toMatchObject({ total_trades: 40, flagged_trades: 0 });
+    expect(metricsStore.getScoringStatus(agent.agent_id)).toBe('normal');
+  });
+
+  it('flags repeats and round trips inside one batch logged without executed_at', async () => {
+    const agent = await metricsStore.registerAgent('batch-agent', 'test-key');
+    const swap = { token_in: 'SOL', token_out: 'USDC', amount_in: 0.1, amount_out: 15, pnl_usd: 1, execution_time_ms: 100 };
+    const reversal = { token_in: 'USDC', token_out: 'SOL', amount_in: 15, amount_out: 0.1, pnl_usd: 1, execution_time_ms: 100 };
+
+    await api('POST', '/trades/batch', {
+      body: { agent_id: agent.agent_id, api_key: agent.api_key, trades: [swap, swap, swap, swap, reversal] }
+    });
+
+    const flags = metricsStore.getTrades(agent.agent_id).map((trade) => (trade.anomalies ?? []).map((a) => a.type));
+    expect(flags).toEqual([[], [], ['duplicate_trade'], ['duplicate_trade'], ['round_trip']]);
+  });
+
+  it('freezes scoring once most of a long history is flagged', async () => {
+    const agent = await metricsStore.registerAgent('wash-agent', 'test-key');
+    await metricsStore.logTrades(agent.agent_id, Array.from({ length: 25 }, (_, i) =>
+      makeTrade(agent.agent_id, i, { amount_in: 0, amount_out: 0, pnl_usd: 0.01 })));
+
+    const response = await api('POST', '/reputation/verify', { body: { agent_id: agent.agent_id } });
+
+    expect(metricsStore.getScoringStatus(agent.agent_id)).toBe('frozen');
+    expect(response.status).toBe(423);
+  });
+});
+
+describe('admin flag review', () => {
+  it('lists flagged agents and their trades to admins only', async () => {
+    const agent = await metricsStore.registerAgent('wash-agent', 'test-key');
+    await metricsStore.logTrade(makeTrade(agent.agent_id, 1, { amount_in: 0, amount_out: 0, pnl_usd: 0.01 }));
+
+    const list = await api('GET', '/admin/flags', { headers: admin });
+    const detail = await api('GET', `/admin/agents/${agent.agent_id}/flags`, { headers: admin });
+    const forbidden = await api('GET', `/admin/agents/${agent.agent_id}/flags`, { headers: { 'X-API-Key': agent.api_key } });
+
+    expect(list.body.data).toContainEqual(expect.objectContaining({ agent_id: agent.agent_id, flagged_trades: 1 }));
+    expect(detail.body.data).toMatchObject({ scoring_status: 'discounted', flagged_trades: 1 });
+    expect(detail.body.data.trades[0].anomalies).toEqual([expect.objectContaining({ type: 'micro_trade' })]);
+    expect(forbidden.status).toBe(403);
+  });
+
+  it('lets admins freeze and unfreeze scoring', async () => {
+    const agent = await metricsStore.registerAgent('review-agent', 'test-key');
+    await metricsStore.logTrade(makeTrade(agent.agent_id, 1));
+    const freeze = (frozen: boolean) =>
+      api('POST', `/admin/agents/${agent.agent_id}/scoring`, { headers: admin, body: { frozen } });
+
+    const frozen = await freeze(true);
+    const blocked = await api('POST', '/reputation/verify', { body: { agent_id: agent.agent_id } });
+    await freeze(false);
+    const scored = await api('POST', '/reputation/verify', { body: { agent_id: agent.agent_id } });
+
+    expect(frozen.body.data).toMatchObject({ scoring_status: 'frozen', scoring_frozen: true });
+    expect(blocked.status).toBe(423);
+    expect(scored.status).toBe(200);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Route test client
+ * Requests go to the app listening on the port tests/setup.ts picks
+ */
+
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import { server } from '../src/server';
+
+export interface ApiResponse {
+  status: number;
+  body: any;
+}
+
+// Importing this module starts the server, so it also closes it
+afterAll(() => {
+  server.close();
+});
+
+export async function api(
+  method: 'GET' | 'POST',
+  path: string,
+  options: { body?: unknown; headers?: Record<string, string> } = {}
+): Promise<ApiResponse> {
+  if (!server.listening) await once(server, 'listening');
+  const { port } = server.address() as AddressInfo;
+
+  const response = await fetch(`http://127.0.0.1:${port}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+    body: options.body === undefined ? undefined : JSON.stringify(options.body)
+  });
+  return { status: response.status, body: await response.json() };
+}
@@ -0,0 +1,68 @@
+import { badgeService } from '../src/services/badges';
+import { metricsStore } from '../src/services/metrics-store';
+import { api } from './api';
+import { HOUR_MS, makeTrade } from './helpers';
+
+const NOW = Date.now();
+
+async function tradingAgent(name: string, trades: number, earnedAt: number): Promise<string> {
+  const agent = await metricsStore.registerAgent(name, 'test-key');
+  await metricsStore.logTrades(agent.agent_id, Array.from({ length: trades }, (_, i) =>
+    makeTrade(agent.agent_id, i, { timestamp: NOW - (i + 1) * HOUR_MS, pnl_usd: 10 })));
+  await badgeService.evaluate(agent.agent_id, metricsStore.getScoringMetrics(agent.agent_id)!, [], earnedAt);
+  return agent.agent_id;
+}
+
+describe('badge catalog', () => {
+  let first: string;
+  let second: string;
+  let third: string;
+
+  beforeAll(async () => {
+    second = await tradingAgent('second-holder', 2, NOW - 2 * HOUR_MS);
+    first = await tradingAgent('first-holder', 1, NOW - 3 * HOUR_MS);
+    third = await tradingAgent('third-holder', 40, NOW - HOUR_MS);
+  });
+
+  it('lists every badge rule with its holder count', async () => {
+    const res = await api('GET', '/badges');
+    const byId = new Map(res.body.data.map((badge: any) => [badge.id, badge]));
+
+    expect(res.status).toBe(200);
+    expect(res.body.count).toBe(res.body.data.length);
+    expect(byId.get('first_trade')).toMatchObject({ metric: 'total_trades', threshold: 1, holder_count: 3 });
+    expect(byId.get('veteran')).toMatchObject({ holder_count: 0 });
+    expect(byId.get('consistent')).toMatchObject({ proof: { type: 'win_rate' } });
+  });
+
+  it('pages through holders in the order they earned the badge', async () => {
+    const page1 = await api('GET', '/badges/first_trade/holders?limit=2');
+    const page2 = await api('GET', `/badges/first_trade/holders?limit=2&cursor=${encodeURIComponent(page1.body.next_cursor)}`);
+
+    expect(page1.body.data.map((holder: any) => holder.agent_id)).toEqual([first, second]);
+    expect(page1.body.data[0]).toMatchObject({ agent_name: 'first-holder', earned_at: NOW - 3 * HOUR_MS });
+    expect(page2.body.data.map((holder: any) => holder.agent_id)).toEqual([third]);
+    expect(page2.body.next_cursor).toBeNull();
+  });
+
+  it('rejects unknown badges and bad cursors', async () => {
+    expect((await api('GET', '/badges/lucky/holders')).status).toBe(404);
+    expect((await api('GET', '/badges/first_trade/holders?cursor=nope')).status).toBe(400);
+    expect((await api('GET', '/badges/first_trade/holders?limit=0')).status).toBe(400);
+  });
+
+  it('shows how close an agent is to each badge', async () => {
+    const res = await api('GET', `/agents/${third}/badges`);
+    const byId = new Map(res.body.data.map((progress: any) => [progress.badge_id, progress]));
+
+    expect(byId.get('veteran')).toMatchObject({ value: 40, threshold: 100, progress: 0.4, criteria_met: false, held: false });
+    expect(byId.get('first_trade')).toMatchObject({ progress: 1, criteria_met: true, held: true, earned_at: NOW - HOUR_MS });
+    expect(byId.get('consistent')).toMatchObject({ criteria_met: true, proof_required: true, proof_id: null, held: false });
+  });
+
+  it('returns 404 for the progress of an unknown agent', async () => {
+    const res = await api('GET', '/agents/00000000-0000-4000-8000-000000000000/badges');
+
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BadgeService, badgeService, loadBadgeRules, meetsRule, parseBadgeRules } from '../src/services/badges';
+import { metricsStore } from '../src/services/metrics-store';
+import { reputationService } from '../src/services/reputation';
+import { DAY_MS, HOUR_MS, makeTrade } from './helpers';
+
+const rule = {
+  id: 'sharp',
+  name: 'Sharp',
+  description: 'Win rate of 75% or more',
+  metric: 'win_rate',
+  operator: '>=',
+  threshold: 75
+};
+
+describe('badge rules', () => {
+  it('loads the bundled rules, or a rules file', () => {
+    const file = path.join(os.tmpdir(), `badges-${process.pid}.json`);
+    fs.writeFileSync(file, JSON.stringify([rule]));
+
+    try {
+      expect(loadBadgeRules(undefined).map((badge) => badge.id)).toContain('first_trade');
+      expect(loadBadgeRules(file)).toEqual([rule]);
+    } finally {
+      fs.unlinkSync(file);
+    }
+  });
+
+  it('rejects rules it cannot evaluate', () => {
+    expect(() => parseBadgeRules([{ ...rule, metric: 'luck' }])).toThrow('0.metric');
+    expect(() => parseBadgeRules([{ ...rule, window: 'forever' }])).toThrow('0.window');
+    expect(() => parseBadgeRules([rule, rule])).toThrow('Duplicate badge id sharp');
+  });
+
+  it('tests a metric against its threshold', async () => {
+    const [sharp] = parseBadgeRules([rule]);
+    const agent = await metricsStore.registerAgent('rule-agent', 'test-key');
+    const metrics = metricsStore.getMetrics(agent.agent_id)!;
+
+    expect(meetsRule(sharp, { ...metrics, total_trades: 4, winning_trades: 3 })).toBe(true);
+    expect(meetsRule(sharp, { ...metrics, total_trades: 4, winning_trades: 2 })).toBe(false);
+    expect(meetsRule(sharp, { ...metrics, total_trades: 0, winning_trades: 0 })).toBe(false);
+  });
+});
+
+describe('earned badges', () => {
+  const NOW = Date.now();
+
+  async function evaluate(agentId: string, at: number, service: BadgeService = badgeService) {
+    const badges = await service.evaluate(agentId, metricsStore.getScoringMetrics(agentId)!, [], at);
+    return new Map(badges.map((badge) => [badge.badge_id, badge.earned_at]));
+  }
+
+  it('keeps the first earn date, revokes a badge whose rule stops holding and restores it', async () => {
+    const agent = await metricsStore.registerAgent('badge-agent', 'test-key');
+    await metricsStore.logTrade(makeTrade(agent.agent_id, 0, { timestamp: NOW - 3 * HOUR_MS, pnl_usd: 50 }));
+
+    expect((await evaluate(agent.agent_id, NOW)).get('profitable')).toBe(NOW);
+    expect((await evaluate(agent.agent_id, NOW + DAY_MS)).get('profitable')).toBe(NOW);
+
+    await metricsStore.logTrade(makeTrade(agent.agent_id, 1, { timestamp: NOW - 2 * HOUR_MS, pnl_usd: -100 }));
+    expect((await evaluate(agent.agent_id, NOW + 2 * DAY_MS)).has('profitable')).toBe(false);
+
+    await metricsStore.logTrade(makeTrade(agent.agent_id, 2, { timestamp: NOW - HOUR_MS, pnl_usd: 200 }));
+    expect((await evaluate(agent.agent_id, NOW + 3 * DAY_MS)).get('profitable')).toBe(NOW);
+  });
+
+  it('revokes a windowed badge once its trades leave the window', async () => {
+    const windowed = new BadgeService(parseBadgeRules([
+      { id: 'profitable', name: 'Profitable', description: 'Positive PnL', metric: 'total_pnl_usd', operator: '>', threshold: 0 },
+      { id: 'recently_profitable', name: 'Recently Profitable', description: 'Positive PnL over the last 30 days', metric: 'total_pnl_usd', operator: '>', threshold: 0, window: '30d' }
+    ]));
+    const agent = await metricsStore.registerAgent('badge-agent', 'test-key');
+    await metricsStore.logTrade(makeTrade(agent.agent_id, 0, { timestamp: NOW - HOUR_MS, pnl_usd: 50 }));
+
+    const recent = await evaluate(agent.agent_id, NOW, windowed);
+    const later = await evaluate(agent.agent_id, NOW + 40 * DAY_MS, windowed);
+
+    expect(recent.has('recently_profitable')).toBe(true);
+    expect(later.has('recently_profitable')).toBe(false);
+    expect(later.get('profitable')).toBe(NOW);
+  });
+
+  it('stamps verified reputations with the first earn dates', async () => {
+    const agent = await metricsStore.registerAgent('badge-agent', 'test-key');
+    await metricsStore.logTrade(makeTrade(agent.agent_id, 0, { timestamp: NOW - HOUR_MS, pnl_usd: 50 }));
+    const earned = await evaluate(agent.agent_id, NOW - DAY_MS);
+
+    const reputation = await reputationService.computeVerifiedReputation(agent.agent_id);
+
+    expect(reputation.badges.find((badge) => badge.badge_id === 'first_trade')?.earned_at).toBe(earned.get('first_trade'));
+  });
+});
@@ -0,0 +1,76 @@
+import { capTier, classify, levelForTier, TIER_LEVELS } from '../src/services/classification';
+import { metricsStore } from '../src/services/metrics-store';
+import { reputationService } from '../src/services/reputation';
+import { getScoringModel } from '../src/services/scoring-models';
+import { api } from './api';
+import { HOUR_MS, makeTrade } from './helpers';
+
+const record = (total_trades: number, winRate: number, total_pnl_usd: number) => ({
+  total_trades,
+  winning_trades: Math.round(total_trades * winRate / 100),
+  total_pnl_usd
+});
+
+describe('tier classification', () => {
+  it('needs both the score cutoff and the track record for a tier', () => {
+    expect(classify(95, record(1200, 80, 20000)).tier).toBe('diamond');
+    expect(classify(95, record(300, 80, 20000)).tier).toBe('gold');
+    expect(classify(85, record(1200, 80, 20000)).tier).toBe('platinum');
+    expect(classify(95, record(10, 100, 50)).tier).toBe('unverified');
+  });
+
+  it('pairs every tier with one star rating', () => {
+    expect(TIER_LEVELS.map((level) => [level.tier, level.rating])).toEqual([
+      ['diamond', 'three_star'],
+      ['platinum', 'two_star'],
+      ['gold', 'one_star'],
+      ['silver', 'verified'],
+      ['bronze', 'verified']
+    ]);
+    expect(levelForTier('unverified')).toMatchObject({ stars: 0, display: '—' });
+  });
+
+  it("applies a scoring model's own cutoffs", () => {
+    const strict = [{ tier: 'gold' as const, min_score: 85 }];
+
+    expect(classify(80, record(300, 70, 2000)).tier).toBe('gold');
+    expect(classify(80, record(300, 70, 2000), strict).tier).toBe('silver');
+  });
+
+  it('only lets a lower score lower a tier', () => {
+    expect(capTier(95, 'gold')).toBe('gold');
+    expect(capTier(62, 'gold')).toBe('silver');
+    expect(capTier(10, 'gold')).toBe('unverified');
+  });
+});
+
+describe('classified reputations', () => {
+  it('gives the same tier and stars everywhere', async () => {
+    const agent = await metricsStore.registerAgent('classified-agent', 'test-key');
+    const start = Date.now() - 30 * HOUR_MS;
+    await metricsStore.logTrades(agent.agent_id, Array.from({ length: 30 }, (_, i) =>
+      makeTrade(agent.agent_id, i, { timestamp: start + i * HOUR_MS, pnl_usd: i === 0 ? -2 : 3, execution_time_ms: 30 })));
+
+    // Scores about 51: bronze on score and on 30 trades at a 97% win rate
+    const verified = await reputationService.computeVerifiedReputation(agent.agent_id, getScoringModel('trade_count@1'));
+    const certificate = await api('GET', `/trust/${agent.agent_id}`);
+    const level = levelForTier(verified.tier);
+
+    expect(verified.tier).toBe('bronze');
+    expect(certificate.body.data).toMatchObject({
+      tier: 'bronze',
+      star_rating: level.stars,
+      rating_display: level.display,
+      rating_description: level.description
+    });
+  });
+
+  it('lists the rules on GET /tiers', async () => {
+    const response = await api('GET', '/tiers');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((level: { tier: string }) => level.tier))
+      .toEqual(['diamond', 'platinum', 'gold', 'silver', 'bronze', 'unverified']);
+    expect(response.body.data[0]).toMatchObject({ display: '◆◆◆', min_score: 90, min_trades: 1000 });
+  });
+});
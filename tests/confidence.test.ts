@@ -0,0 +1,125 @@
+import * as confidence from '../src/services/confidence';
+import { computeConfidence, meanInterval, wilsonInterval } from '../src/services/confidence';
+import { metricsStore } from '../src/services/metrics-store';
+import { reputationService } from '../src/services/reputation';
+import { getScoringModel } from '../src/services/scoring-models';
+import { api } from './api';
+import { HOUR_MS, makeTrade } from './helpers';
+
+describe('confidence bounds', () => {
+  it('widens the win rate interval for small samples', () => {
+    const lucky = wilsonInterval(3, 3);
+    const proven = wilsonInterval(300, 300);
+
+    expect(lucky.lower).toBeCloseTo(0.438, 3);
+    expect(lucky.upper).toBe(1);
+    expect(proven.lower).toBeGreaterThan(0.98);
+    expect(wilsonInterval(0, 0)).toEqual({ lower: 0, upper: 1 });
+  });
+
+  it('bootstraps mean PnL deterministically, whatever the trade order', () => {
+    const pnls = [12, -4, 7, 30, -9, 3, 15, -1];
+    const interval = meanInterval(pnls);
+
+    expect(meanInterval([...pnls].reverse())).toEqual(interval);
+    expect(interval.lower).toBeLessThan(53 / 8);
+    expect(interval.upper).toBeGreaterThan(53 / 8);
+    expect(meanInterval([])).toEqual({ lower: 0, upper: 0 });
+  });
+
+  it('rounds bounds into metric units', () => {
+    expect(computeConfidence(3, 3, [10, 20, 30])).toMatchObject({
+      win_rate_lower_bound: 43.85,
+      win_rate_upper_bound: 100
+    });
+  });
+});
+
+describe('confidence in metrics and scoring', () => {
+  // Recent trades, so the reputation hasn't decayed off the leaderboard
+  async function agentWithRecord(wins: number, losses: number) {
+    const agent = await metricsStore.registerAgent('sampled-agent', 'test-key');
+    const start = Date.now() - (wins + losses) * HOUR_MS;
+    const trades = Array.from({ length: wins + losses }, (_, i) =>
+      makeTrade(agent.agent_id, i, { timestamp: start + i * HOUR_MS, pnl_usd: i < wins ? 5 : -5, execution_time_ms: 80 }));
+    await metricsStore.logTrades(agent.agent_id, trades);
+    return agent.agent_id;
+  }
+
+  it('stores bounds with the metrics and keeps them through a recompute', async () => {
+    const agentId = await agentWithRecord(3, 0);
+    const logged = metricsStore.getMetrics(agentId)!;
+
+    await metricsStore.recomputeMetrics(agentId);
+
+    expect(logged).toMatchObject({ win_rate_lower_bound: 43.85, avg_pnl_lower_bound_usd: 5, avg_pnl_upper_bound_usd: 5 });
+    expect(metricsStore.getMetrics(agentId)).toMatchObject({
+      win_rate_lower_bound: logged.win_rate_lower_bound,
+      avg_pnl_lower_bound_usd: logged.avg_pnl_lower_bound_usd
+    });
+  });
+
+  it('bootstraps the PnL bounds when metrics are read, once per ledger change', async () => {
+    const agentId = await agentWithRecord(4, 1);
+    // Verified, so each trade also moves it on the leaderboard
+    await reputationService.computeVerifiedReputation(agentId);
+    const bootstrap = jest.spyOn(confidence, 'computeAvgPnlBounds');
+    await metricsStore.logTrade(makeTrade(agentId, 5, { pnl_usd: 5 }));
+
+    expect(bootstrap).not.toHaveBeenCalled();
+    const metrics = metricsStore.getMetrics(agentId);
+    metricsStore.getMetrics(agentId);
+
+    expect(bootstrap).toHaveBeenCalledTimes(1);
+    expect(metrics).toMatchObject(computeConfidence(5, 6, metricsStore.getTrades(agentId).map((trade) => trade.pnl_usd)));
+    bootstrap.mockRestore();
+  });
+
+  it('gives scoring metrics the same PnL bounds as a window over the same trades', async () => {
+    const agentId = await agentWithRecord(4, 2);
+    await metricsStore.logTrades(agentId, Array.from({ length: 5 }, (_, i) =>
+      makeTrade(agentId, 10 + i, { amount_in: 0, amount_out: 0, pnl_usd: 0.01 })));
+    const trades = metricsStore.getTrades(agentId);
+    const clean = trades.filter((trade) => !trade.anomalies?.length);
+
+    const scoring = metricsStore.getScoringMetrics(agentId)!;
+    const windowed = metricsStore.getWindowedMetrics(agentId, { window: '30d', from: trades[0].timestamp, to: Date.now() }, true)!;
+
+    expect(clean).toHaveLength(6);
+    expect(scoring).toMatchObject(computeConfidence(4, 6, clean.map((trade) => trade.pnl_usd)));
+    expect(windowed).toMatchObject({
+      avg_pnl_lower_bound_usd: scoring.avg_pnl_lower_bound_usd,
+      avg_pnl_upper_bound_usd: scoring.avg_pnl_upper_bound_usd
+    });
+  });
+
+  it('stops a short perfect record outscoring a long strong one on win rate', async () => {
+    const lucky = await agentWithRecord(3, 0);
+    const proven = await agentWithRecord(45, 5);
+    const winRateOnly = (version: number) => ({
+      ...getScoringModel(`trade_count@${version}`)!,
+      weights: { trades: 0, win_rate: 100, pnl: 0, execution: 0 }
+    });
+
+    const score = async (agentId: string, version: number) =>
+      (await reputationService.computeVerifiedReputation(agentId, winRateOnly(version))).reputation_score;
+
+    expect(await score(lucky, 1)).toBeGreaterThan(await score(proven, 1));
+    expect(await score(lucky, 2)).toBeLessThan(await score(proven, 2));
+  });
+
+  it('shows the win rate interval on the leaderboard and trust certificate', async () => {
+    const agentId = await agentWithRecord(3, 0);
+    await reputationService.computeVerifiedReputation(agentId);
+
+    const leaderboard = await api('GET', '/leaderboard');
+    const certificate = await api('GET', `/trust/${agentId}`);
+
+    expect(leaderboard.body.data).toContainEqual(expect.objectContaining({
+      agent_id: agentId,
+      win_rate: 100,
+      win_rate_lower_bound: 43.85
+    }));
+    expect(certificate.body.data).toMatchObject({ win_rate: 100, win_rate_lower_bound: 43.85, win_rate_upper_bound: 100 });
+  });
+});
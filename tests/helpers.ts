@@ -0,0 +1,35 @@
+/**
+ * Test fixtures
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { TradeRecord } from '../src/types';
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+// Fixed start so time-dependent metrics don't depend on when tests run
+export const T0 = Date.UTC(2026, 0, 1);
+
+export const ADMIN_API_KEY = 'test-admin-key';
+
+/**
+ * A SOL -> USDC trade, one hour after the previous index
+ */
+export function makeTrade(agentId: string, index: number, overrides: Partial<TradeRecord> = {}): TradeRecord {
+  const pnl = index % 3 === 0 ? -(index + 1) : (index + 1) * 2;
+  return {
+    trade_id: uuidv4(),
+    agent_id: agentId,
+    timestamp: T0 + index * HOUR_MS,
+    token_in: 'SOL',
+    token_out: 'USDC',
+    amount_in: 1 + index / 10,
+    amount_out: (1 + index / 10) * 100 + pnl,
+    pnl_usd: pnl,
+    execution_time_ms: 40 + index,
+    pnl_suspicious: false,
+    verified_onchain: false,
+    ...overrides
+  };
+}
@@ -0,0 +1,100 @@
+import { metricsStore } from '../src/services/metrics-store';
+import { priceFeed } from '../src/services/price-feed';
+import { tradeVerifier } from '../src/services/trade-verifier';
+import { api } from './api';
+import { makeTrade } from './helpers';
+
+// A POST /trades body for one of the agent's trades
+function tradeBody(agent: { agent_id: string; api_key: string }, index: number) {
+  const { token_in, token_out, amount_in, amount_out, pnl_usd, execution_time_ms } = makeTrade('', index);
+  return { agent_id: agent.agent_id, api_key: agent.api_key, token_in, token_out, amount_in, amount_out, pnl_usd, execution_time_ms };
+}
+
+describe('client_trade_id', () => {
+  it('returns the original trade when POST /trades is retried', async () => {
+    const agent = await metricsStore.registerAgent('idempotent-agent', 'test-key');
+    const body = { ...tradeBody(agent, 1), client_trade_id: 'order-1' };
+
+    const first = await api('POST', '/trades', { body });
+    const retry = await api('POST', '/trades', { body });
+
+    expect(first.body.data.replayed).toBe(false);
+    expect(retry.status).toBe(200);
+    expect(retry.body.data).toMatchObject({ trade_id: first.body.data.trade_id, replayed: true, metrics_updated: false, total_trades: 1 });
+    expect(metricsStore.getMetrics(agent.agent_id)!.total_pnl_usd).toBeCloseTo(body.pnl_usd);
+  });
+
+  it('takes the key from the Idempotency-Key header and rejects a mismatched body', async () => {
+    const agent = await metricsStore.registerAgent('idempotent-agent', 'test-key');
+    const headers = { 'Idempotency-Key': 'order-2' };
+
+    const first = await api('POST', '/trades', { body: tradeBody(agent, 1), headers });
+    const retry = await api('POST', '/trades', { body: { ...tradeBody(agent, 1), client_trade_id: 'order-2' } });
+    const mismatched = await api('POST', '/trades', { body: { ...tradeBody(agent, 1), client_trade_id: 'order-3' }, headers });
+
+    expect(first.body.data.client_trade_id).toBe('order-2');
+    expect(retry.body.data.trade_id).toBe(first.body.data.trade_id);
+    expect(mismatched.status).toBe(400);
+    expect(metricsStore.getTrades(agent.agent_id)).toHaveLength(1);
+  });
+
+  it('skips batch items already logged, including repeats within the batch', async () => {
+    const agent = await metricsStore.registerAgent('idempotent-agent', 'test-key');
+    await api('POST', '/trades', { body: { ...tradeBody(agent, 1), client_trade_id: 'a' } });
+
+    const { agent_id, api_key, ...item } = tradeBody(agent, 2);
+    const response = await api('POST', '/trades/batch', {
+      body: {
+        agent_id,
+        api_key,
+        trades: [{ ...item, client_trade_id: 'a' }, { ...item, client_trade_id: 'b' }, { ...item, client_trade_id: 'b' }, item]
+      }
+    });
+
+    expect(response.body.data).toMatchObject({ accepted: 2, replayed: 2, total_trades: 3 });
+    const [a, b, bAgain] = response.body.data.trade_ids;
+    expect(bAgain).toBe(b);
+    expect(a).toBe(metricsStore.findTradeByClientId(agent.agent_id, 'a')!.trade_id);
+  });
+
+  it('answers retries without pricing or verifying the trade again', async () => {
+    const agent = await metricsStore.registerAgent('idempotent-agent', 'test-key');
+    const body = { ...tradeBody(agent, 1), client_trade_id: 'order-5' };
+    const { agent_id, api_key, ...item } = body;
+    await api('POST', '/trades', { body });
+    const markToMarket = jest.spyOn(priceFeed, 'markToMarket');
+    const verifyAll = jest.spyOn(tradeVerifier, 'verifyAll');
+
+    const retry = await api('POST', '/trades', { body });
+    const batch = await api('POST', '/trades/batch', { body: { agent_id, api_key, trades: [item] } });
+
+    expect(retry.body.data.replayed).toBe(true);
+    expect(batch.body.data).toMatchObject({ accepted: 0, replayed: 1 });
+    expect(markToMarket).not.toHaveBeenCalled();
+    expect(verifyAll.mock.calls[0][0]).toEqual([null]);
+    markToMarket.mockRestore();
+    verifyAll.mockRestore();
+  });
+
+  it('counts concurrent retries once', async () => {
+    const agent = await metricsStore.registerAgent('idempotent-agent', 'test-key');
+    const trades = [1, 2, 3].map(() => makeTrade(agent.agent_id, 1, { client_trade_id: 'order-4' }));
+
+    const results = await Promise.all(trades.map((trade) => metricsStore.logTrade(trade)));
+
+    expect(new Set(results.map((result) => result.trades[0].trade_id)).size).toBe(1);
+    expect(results.reduce((sum, result) => sum + result.replayed, 0)).toBe(2);
+    expect(metricsStore.getMetrics(agent.agent_id)!.total_trades).toBe(1);
+  });
+
+  it('keeps IDs separate per agent', async () => {
+    const first = await metricsStore.registerAgent('idempotent-agent', 'test-key');
+    const second = await metricsStore.registerAgent('idempotent-agent', 'test-key');
+
+    await metricsStore.logTrade(makeTrade(first.agent_id, 1, { client_trade_id: 'shared' }));
+    const result = await metricsStore.logTrade(makeTrade(second.agent_id, 1, { client_trade_id: 'shared' }));
+
+    expect(result.replayed).toBe(0);
+    expect(metricsStore.getMetrics(second.agent_id)!.total_trades).toBe(1);
+  });
+});
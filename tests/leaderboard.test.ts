@@ -0,0 +1,95 @@
+import { leaderboardIndex } from '../src/services/leaderboard-index';
+import { metricsStore } from '../src/services/metrics-store';
+import { reputationService } from '../src/services/reputation';
+import { LeaderboardEntry } from '../src/types';
+import { api } from './api';
+import { HOUR_MS, makeTrade } from './helpers';
+
+const NOW = Date.now();
+
+// Recent trades, so nothing has decayed off the leaderboard
+async function verifiedAgent(name: string, wins: number, losses: number): Promise<string> {
+  const agent = await metricsStore.registerAgent(name, 'test-key');
+  const count = wins + losses;
+  await metricsStore.logTrades(agent.agent_id, Array.from({ length: count }, (_, i) =>
+    makeTrade(agent.agent_id, i, { timestamp: NOW - (count - i) * HOUR_MS, pnl_usd: i < wins ? 5 : -10 })));
+  await reputationService.computeVerifiedReputation(agent.agent_id);
+  return agent.agent_id;
+}
+
+const ids = (res: { body: { data: Array<{ agent_id: string }> } }) => res.body.data.map((entry) => entry.agent_id);
+
+describe('leaderboard', () => {
+  let perfect: string;
+  let steady: string;
+  let busy: string;
+
+  beforeAll(async () => {
+    perfect = await verifiedAgent('perfect', 3, 0);
+    steady = await verifiedAgent('steady', 6, 2);
+    busy = await verifiedAgent('busy', 10, 10);
+  });
+
+  it('pages through agents under a sort', async () => {
+    const page1 = await api('GET', '/leaderboard?sort=trades&limit=2');
+    const page2 = await api('GET', `/leaderboard?sort=trades&limit=2&cursor=${encodeURIComponent(page1.body.next_cursor)}`);
+
+    expect(ids(page1)).toEqual([busy, steady]);
+    expect(page1.body.count).toBe(2);
+    expect(ids(page2)).toEqual([perfect]);
+    expect(page2.body.next_cursor).toBeNull();
+  });
+
+  it('sorts on win rate and ranks on rating by default', async () => {
+    const byWinRate = await api('GET', '/leaderboard?sort=win_rate');
+    const byScore = await api('GET', '/leaderboard');
+    const entries: LeaderboardEntry[] = byScore.body.data;
+
+    expect(ids(byWinRate)).toEqual([perfect, steady, busy]);
+    expect(entries.map((entry) => [entry.star_rating, entry.effective_score])).toEqual(
+      [...entries]
+        .sort((a, b) => b.star_rating - a.star_rating || b.effective_score - a.effective_score)
+        .map((entry) => [entry.star_rating, entry.effective_score])
+    );
+  });
+
+  it('filters on trades, badges, tier and stars', async () => {
+    const tier = (await api('GET', '/leaderboard')).body.data.find((entry: LeaderboardEntry) => entry.agent_id === steady).tier;
+
+    const experienced = await api('GET', '/leaderboard?sort=trades&min_trades=5');
+    const profitable = await api('GET', '/leaderboard?sort=trades&badge=profitable');
+    const inTier = await api('GET', `/leaderboard?tier=${tier}`);
+    const threeStar = await api('GET', '/leaderboard?min_stars=3');
+
+    expect(ids(experienced)).toEqual([busy, steady]);
+    expect(ids(profitable)).toEqual([steady, perfect]);
+    expect(ids(inTier)).toContain(steady);
+    expect(inTier.body.data.every((entry: LeaderboardEntry) => entry.tier === tier)).toBe(true);
+    expect(threeStar.body.data.every((entry: LeaderboardEntry) => entry.star_rating === 3)).toBe(true);
+  });
+
+  it('moves an agent as it trades, without re-verifying', async () => {
+    await metricsStore.logTrades(perfect, Array.from({ length: 30 }, (_, i) =>
+      makeTrade(perfect, 10 + i, { timestamp: NOW - (30 - i) * 60 * 1000, pnl_usd: 5 })));
+
+    const byTrades = await api('GET', '/leaderboard?sort=trades&limit=1');
+
+    expect(ids(byTrades)).toEqual([perfect]);
+    expect(byTrades.body.data[0].total_trades).toBe(33);
+  });
+
+  it('keeps the same order when rebuilt from scratch', async () => {
+    const before = ids(await api('GET', '/leaderboard?sort=recent'));
+
+    reputationService.rebuildLeaderboard();
+
+    expect(ids(await api('GET', '/leaderboard?sort=recent'))).toEqual(before);
+    expect(leaderboardIndex.size).toBe(3);
+  });
+
+  it('rejects unknown sorts and bad cursors', async () => {
+    expect((await api('GET', '/leaderboard?sort=luck')).status).toBe(400);
+    expect((await api('GET', '/leaderboard?cursor=nope')).status).toBe(400);
+    expect((await api('GET', '/leaderboard?limit=500')).status).toBe(400);
+  });
+});
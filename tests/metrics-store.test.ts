@@ -0,0 +1,87 @@
+import { metricsStore } from '../src/services/metrics-store';
+import { PerformanceMetrics } from '../src/types';
+import { api } from './api';
+import { ADMIN_API_KEY, makeTrade } from './helpers';
+
+// Fields that depend on when trades arrived, not on the trades
+function tradeDerived(metrics: PerformanceMetrics) {
+  const { last_updated, ...rest } = metrics;
+  return rest;
+}
+
+async function newAgent(): Promise<string> {
+  const agent = await metricsStore.registerAgent('test-agent', 'test-key');
+  return agent.agent_id;
+}
+
+async function logTrades(agentId: string, count: number): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    await metricsStore.logTrade(makeTrade(agentId, i));
+  }
+}
+
+describe('trade ledger', () => {
+  it('keeps every logged trade in order', async () => {
+    const agentId = await newAgent();
+    await logTrades(agentId, 5);
+
+    const ledger = metricsStore.getTrades(agentId);
+    expect(ledger).toHaveLength(5);
+    const byTime = [...ledger].sort((a, b) => a.timestamp - b.timestamp);
+    expect(ledger.map((trade) => trade.trade_id)).toEqual(byTime.map((trade) => trade.trade_id));
+    expect(metricsStore.getMetrics(agentId)!.total_trades).toBe(5);
+  });
+
+  it('recomputes the same metrics from the ledger', async () => {
+    const agentId = await newAgent();
+    await logTrades(agentId, 15);
+    const logged = { ...metricsStore.getMetrics(agentId)! };
+
+    const recomputed = await metricsStore.recomputeMetrics(agentId);
+
+    expect(tradeDerived(recomputed)).toEqual(tradeDerived(logged));
+    expect(metricsStore.getMetrics(agentId)).toBe(recomputed);
+  });
+
+  it('replaces aggregates that drifted from the ledger', async () => {
+    const agentId = await newAgent();
+    await logTrades(agentId, 8);
+    const logged = { ...metricsStore.getMetrics(agentId)! };
+
+    // Stands in for aggregates written by an older, wrong formula
+    Object.assign(metricsStore.getMetrics(agentId)!, { total_trades: 100, total_pnl_usd: -5, sharpe_ratio: 9 });
+    await metricsStore.recomputeMetrics(agentId);
+
+    expect(tradeDerived(metricsStore.getMetrics(agentId)!)).toEqual(tradeDerived(logged));
+  });
+});
+
+describe('POST /admin/metrics/recompute', () => {
+  const admin = { Authorization: `Bearer ${ADMIN_API_KEY}` };
+
+  it('recomputes one agent or all of them', async () => {
+    const agentId = await newAgent();
+    await logTrades(agentId, 3);
+    metricsStore.getMetrics(agentId)!.total_trades = 0;
+
+    const one = await api('POST', '/admin/metrics/recompute', { body: { agent_id: agentId }, headers: admin });
+    expect(one.status).toBe(200);
+    expect(one.body.data).toEqual({ agents: 1, trades: 3 });
+    expect(metricsStore.getMetrics(agentId)!.total_trades).toBe(3);
+
+    const all = await api('POST', '/admin/metrics/recompute', { body: {}, headers: admin });
+    expect(all.status).toBe(200);
+    expect(all.body.data.agents).toBe(metricsStore.getAllAgents().length);
+  });
+
+  it('needs the admin key and a known agent', async () => {
+    const forbidden = await api('POST', '/admin/metrics/recompute', { body: {} });
+    const missing = await api('POST', '/admin/metrics/recompute', {
+      body: { agent_id: '00000000-0000-4000-8000-000000000000' },
+      headers: admin
+    });
+
+    expect(forbidden.status).toBe(403);
+    expect(missing.status).toBe(404);
+  });
+});
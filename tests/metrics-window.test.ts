@@ -0,0 +1,99 @@
+import { metricsStore } from '../src/services/metrics-store';
+import { parseWindow, resolveWindow } from '../src/utils/metrics-window';
+import { reputationService } from '../src/services/reputation';
+import { api } from './api';
+import { DAY_MS, HOUR_MS, makeTrade } from './helpers';
+
+// Wins long ago, losses over the last week
+async function fadingAgent() {
+  const agent = await metricsStore.registerAgent('window-agent', 'test-key');
+  const now = Date.now();
+  await metricsStore.logTrades(agent.agent_id, [
+    makeTrade(agent.agent_id, 0, { timestamp: now - 200 * DAY_MS, pnl_usd: 50 }),
+    makeTrade(agent.agent_id, 1, { timestamp: now - 100 * DAY_MS, pnl_usd: 40 }),
+    makeTrade(agent.agent_id, 2, { timestamp: now - 60 * DAY_MS, pnl_usd: 30 }),
+    makeTrade(agent.agent_id, 3, { timestamp: now - 20 * DAY_MS, pnl_usd: 20 }),
+    makeTrade(agent.agent_id, 4, { timestamp: now - 3 * DAY_MS, pnl_usd: -10 }),
+    makeTrade(agent.agent_id, 5, { timestamp: now - 2 * DAY_MS, pnl_usd: -15 })
+  ]);
+  return agent;
+}
+
+describe('metrics windows', () => {
+  it('parses preset and custom windows', () => {
+    expect(parseWindow('7d')).toBe(7 * DAY_MS);
+    expect(parseWindow('12h')).toBe(12 * HOUR_MS);
+    expect(parseWindow('0d')).toBeNull();
+    expect(parseWindow('3651d')).toBeNull();
+    expect(parseWindow('1w')).toBeNull();
+  });
+
+  it('only counts trades within the window', async () => {
+    const agent = await fadingAgent();
+    const now = Date.now();
+
+    const week = metricsStore.getWindowedMetrics(agent.agent_id, resolveWindow('7d', now))!;
+    const quarter = metricsStore.getWindowedMetrics(agent.agent_id, resolveWindow('90d', now))!;
+
+    expect(week).toMatchObject({ total_trades: 2, winning_trades: 0, total_pnl_usd: -25 });
+    expect(week.max_drawdown_bps).toBeGreaterThan(0);
+    expect(quarter).toMatchObject({ total_trades: 4, winning_trades: 2, total_pnl_usd: 25 });
+    expect(metricsStore.getMetrics(agent.agent_id)!.total_trades).toBe(6);
+  });
+
+  it('serves windowed metrics on /metrics', async () => {
+    const agent = await fadingAgent();
+
+    const response = await api('GET', `/metrics/${agent.agent_id}?window=30d`);
+    const invalid = await api('GET', `/metrics/${agent.agent_id}?window=forever`);
+    const tooLong = await api('GET', `/metrics/${agent.agent_id}?window=3651d`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ total_trades: 3, win_rate: (1 / 3) * 100, period: { window: '30d' } });
+    expect(response.body.data.period.to - response.body.data.period.from).toBe(30 * DAY_MS);
+    expect(invalid.status).toBe(400);
+    expect(tooLong.status).toBe(400);
+  });
+});
+
+describe('windowed proofs', () => {
+  it('proves over the window and records it in the public outputs', async () => {
+    const agent = await fadingAgent();
+
+    const lifetime = await reputationService.generateProof({
+      agent_id: agent.agent_id,
+      proof_type: 'win_rate',
+      public_inputs: { threshold: 60 }
+    });
+    const recent = await reputationService.generateProof({
+      agent_id: agent.agent_id,
+      proof_type: 'win_rate',
+      public_inputs: { threshold: 60 },
+      window: '7d'
+    });
+
+    expect(lifetime.public_outputs.meets_threshold).toBe(true);
+    expect(lifetime.public_outputs.window).toBeUndefined();
+    expect(recent.public_outputs.meets_threshold).toBe(false);
+    expect(recent.public_outputs.window).toEqual({ window: '7d', from: expect.any(Number), to: expect.any(Number) });
+  });
+
+  it('accepts a window on POST /proofs/generate', async () => {
+    const agent = await fadingAgent();
+
+    const response = await api('POST', '/proofs/generate', {
+      body: { agent_id: agent.agent_id, proof_type: 'trade_count', public_inputs: { min_trades: 4 }, window: '90d' }
+    });
+    const invalid = await api('POST', '/proofs/generate', {
+      body: { agent_id: agent.agent_id, proof_type: 'trade_count', public_inputs: { min_trades: 4 }, window: '90 days' }
+    });
+    const tooLong = await api('POST', '/proofs/generate', {
+      body: { agent_id: agent.agent_id, proof_type: 'trade_count', public_inputs: { min_trades: 4 }, window: '3651d' }
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.public_outputs).toMatchObject({ meets_threshold: true, window: { window: '90d' } });
+    expect(invalid.status).toBe(400);
+    expect(tooLong.status).toBe(400);
+  });
+});
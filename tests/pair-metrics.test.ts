@@ -0,0 +1,81 @@
+import { metricsStore } from '../src/services/metrics-store';
+import { api } from './api';
+import { makeTrade } from './helpers';
+
+// Three winning SOL/USDC trades and two losing JUP/USDC trades
+async function twoMarketAgent() {
+  const agent = await metricsStore.registerAgent('pair-agent', 'test-key');
+  await metricsStore.logTrades(agent.agent_id, [
+    makeTrade(agent.agent_id, 1, { pnl_usd: 10, execution_time_ms: 50 }),
+    makeTrade(agent.agent_id, 2, { pnl_usd: 20, execution_time_ms: 70 }),
+    makeTrade(agent.agent_id, 3, { pnl_usd: 5, execution_time_ms: 90 }),
+    makeTrade(agent.agent_id, 4, { token_in: 'JUP', pnl_usd: -30, execution_time_ms: 200 }),
+    makeTrade(agent.agent_id, 5, { token_in: 'JUP', pnl_usd: -4, execution_time_ms: 100 })
+  ]);
+  return agent;
+}
+
+describe('per-pair metrics', () => {
+  it('breaks trades down by token_in/token_out pair', async () => {
+    const agent = await twoMarketAgent();
+
+    expect(metricsStore.getPairMetrics(agent.agent_id)).toEqual([
+      {
+        pair: 'SOL/USDC', token_in: 'SOL', token_out: 'USDC',
+        total_trades: 3, winning_trades: 3, win_rate: 100, total_pnl_usd: 35, avg_execution_time_ms: 70
+      },
+      {
+        pair: 'JUP/USDC', token_in: 'JUP', token_out: 'USDC',
+        total_trades: 2, winning_trades: 0, win_rate: 0, total_pnl_usd: -34, avg_execution_time_ms: 150
+      }
+    ]);
+  });
+
+  it('serves the breakdown on /metrics to the owner only', async () => {
+    const agent = await twoMarketAgent();
+    const path = `/metrics/${agent.agent_id}?group_by=pair`;
+
+    const owner = await api('GET', path, { headers: { 'X-API-Key': agent.api_key } });
+    const stranger = await api('GET', path);
+    const ungrouped = await api('GET', `/metrics/${agent.agent_id}`);
+    const unknown = await api('GET', `/metrics/${agent.agent_id}?group_by=token`, { headers: { 'X-API-Key': agent.api_key } });
+
+    expect(owner.status).toBe(200);
+    expect(owner.body.data.total_trades).toBe(5);
+    expect(owner.body.data.pairs.map((pair: { pair: string }) => pair.pair)).toEqual(['SOL/USDC', 'JUP/USDC']);
+    expect(stranger.status).toBe(403);
+    expect(ungrouped.body.data.pairs).toBeUndefined();
+    expect(unknown.status).toBe(400);
+  });
+});
+
+describe('pair-scoped proofs', () => {
+  it('proves the win rate of a single pair', async () => {
+    const agent = await twoMarketAgent();
+    const prove = (pair: string) => api('POST', '/proofs/generate', {
+      body: { agent_id: agent.agent_id, proof_type: 'win_rate', public_inputs: { threshold: 90, pair } }
+    });
+
+    const sol = await prove('SOL/USDC');
+    const jup = await prove('JUP/USDC');
+
+    expect(sol.status).toBe(200);
+    expect(sol.body.data.public_outputs).toEqual({ threshold: 90, meets_threshold: true, pair: 'SOL/USDC' });
+    expect(jup.body.data.public_outputs.meets_threshold).toBe(false);
+  });
+
+  it('rejects a pair on proof types that cannot be scoped', async () => {
+    const agent = await twoMarketAgent();
+
+    const sharpe = await api('POST', '/proofs/generate', {
+      body: { agent_id: agent.agent_id, proof_type: 'sharpe_ratio', public_inputs: { min_sharpe: 1, pair: 'SOL/USDC' } }
+    });
+    const malformed = await api('POST', '/proofs/generate', {
+      body: { agent_id: agent.agent_id, proof_type: 'win_rate', public_inputs: { threshold: 50, pair: 'SOL' } }
+    });
+
+    expect(sharpe.status).toBe(400);
+    expect(sharpe.body.error).toContain("can't be scoped to a pair");
+    expect(malformed.status).toBe(400);
+  });
+});
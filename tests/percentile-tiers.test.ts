@@ -0,0 +1,103 @@
+import { tierForStanding } from '../src/services/classification';
+import { metricsStore } from '../src/services/metrics-store';
+import { describeStanding, rankCohort } from '../src/services/percentile-ranking';
+import { reputationService } from '../src/services/reputation';
+import { getScoringModel } from '../src/services/scoring-models';
+import { api } from './api';
+import { DAY_MS, HOUR_MS, makeTrade } from './helpers';
+
+describe('percentile ranking', () => {
+  it('ranks highest first, with ties sharing the better rank', () => {
+    const standings = rankCohort([
+      { agent_id: 'a', score: 60 },
+      { agent_id: 'b', score: 90 },
+      { agent_id: 'c', score: 60 },
+      { agent_id: 'd', score: 40 }
+    ]);
+
+    expect(standings.get('b')).toEqual({ percentile: 25, cohort_size: 4 });
+    expect(standings.get('a')).toEqual({ percentile: 50, cohort_size: 4 });
+    expect(standings.get('c')).toEqual({ percentile: 50, cohort_size: 4 });
+    expect(standings.get('d')).toEqual({ percentile: 100, cohort_size: 4 });
+  });
+
+  it('limits starred tiers to their share of a large enough population', () => {
+    expect(tierForStanding('diamond', 0.5, 400, 100)).toBe('diamond');
+    expect(tierForStanding('diamond', 3, 400, 100)).toBe('platinum');
+    expect(tierForStanding('diamond', 40, 400, 100)).toBe('silver');
+    expect(tierForStanding('bronze', 90, 400, 100)).toBe('bronze');
+    expect(tierForStanding('diamond', 40, 20, 100)).toBe('diamond');
+    expect(tierForStanding('diamond', null, 0, 100)).toBe('diamond');
+  });
+
+  it('describes a standing', () => {
+    expect(describeStanding(4.17, 120)).toBe('top 4.17% of 120 agents');
+    expect(describeStanding(100, 1)).toBe('top 100% of 1 agent');
+  });
+});
+
+describe('percentile tiers', () => {
+  // Scores are the win rate, so the better record ranks higher
+  const winRateOnly = { ...getScoringModel('trade_count@1')!, weights: { trades: 0, win_rate: 100, pnl: 0, execution: 0 } };
+
+  async function verifiedAgent(wins: number, losses: number) {
+    const agent = await metricsStore.registerAgent('ranked-agent', 'test-key');
+    const start = Date.now() - (wins + losses) * HOUR_MS;
+    await metricsStore.logTrades(agent.agent_id, Array.from({ length: wins + losses }, (_, i) =>
+      makeTrade(agent.agent_id, i, { timestamp: start + i * HOUR_MS, pnl_usd: i < wins ? 10 : -5, execution_time_ms: 30 })));
+    await reputationService.computeVerifiedReputation(agent.agent_id, winRateOnly);
+    return agent.agent_id;
+  }
+
+  let leader: string;
+  let trailer: string;
+
+  beforeAll(async () => {
+    // 95% over 200 trades qualifies for gold; 67% over 30 trades for bronze
+    leader = await verifiedAgent(190, 10);
+    trailer = await verifiedAgent(20, 10);
+  });
+
+  afterEach(() => {
+    delete process.env.REPUTATION_PERCENTILE_MIN_COHORT;
+  });
+
+  it('places a new verification straight away and everyone else at the next ranking', async () => {
+    expect(reputationService.getVerifiedReputation(leader)).toMatchObject({ percentile: 100, cohort_size: 1 });
+    expect(reputationService.getVerifiedReputation(trailer)).toMatchObject({ percentile: 100, cohort_size: 2 });
+
+    expect(await reputationService.rankPopulation()).toBe(2);
+
+    expect(reputationService.getVerifiedReputation(leader)).toMatchObject({ tier: 'gold', percentile: 50, cohort_size: 2 });
+  });
+
+  it('says where the agent stands on its trust certificate', async () => {
+    const certificate = await api('GET', `/trust/${leader}`);
+
+    expect(certificate.body.data).toMatchObject({
+      tier: 'gold',
+      percentile: 50,
+      cohort_size: 2,
+      standing: 'top 50% of 2 agents'
+    });
+  });
+
+  it('drops a starred tier outside its share once the population is large enough', async () => {
+    process.env.REPUTATION_PERCENTILE_MIN_COHORT = '2';
+
+    const certificate = await api('GET', `/trust/${leader}`);
+    const leaderboard = await api('GET', '/leaderboard');
+
+    expect(certificate.body.data).toMatchObject({ tier: 'silver', star_rating: 0 });
+    expect(leaderboard.body.data).toContainEqual(expect.objectContaining({ agent_id: leader, tier: 'silver' }));
+    expect(reputationService.getVerifiedReputation(leader)!.tier).toBe('gold');
+  });
+
+  it('leaves lapsed agents out of the cohort', async () => {
+    expect(await reputationService.rankPopulation(Date.now() + 365 * DAY_MS)).toBe(0);
+
+    const certificate = await api('GET', `/trust/${trailer}`);
+    expect(reputationService.getVerifiedReputation(trailer)).toMatchObject({ percentile: null, cohort_size: 0 });
+    expect(certificate.body.data).toMatchObject({ percentile: null, standing: null });
+  });
+});
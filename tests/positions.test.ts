@@ -0,0 +1,79 @@
+import { metricsStore } from '../src/services/metrics-store';
+import { applySwap, createPositionBook, computeUnrealizedPnl } from '../src/services/positions';
+import { CostBasisMethod } from '../src/types';
+import { api } from './api';
+import { HOUR_MS, T0, makeTrade } from './helpers';
+
+// Buy 1 SOL at $100, 1 SOL at $200, then sell 1 SOL at $250
+function buildBook(method: CostBasisMethod) {
+  const book = createPositionBook(method);
+  applySwap(book, { timestamp: T0, token_in: 'USDC', token_out: 'SOL', amount_in: 100, amount_out: 1 });
+  applySwap(book, { timestamp: T0 + HOUR_MS, token_in: 'USDC', token_out: 'SOL', amount_in: 200, amount_out: 1 });
+  applySwap(book, { timestamp: T0 + 2 * HOUR_MS, token_in: 'SOL', token_out: 'USDC', amount_in: 1, amount_out: 250 });
+  return book;
+}
+
+describe('position book', () => {
+  it('realizes against the oldest lot with FIFO', () => {
+    const book = buildBook('fifo');
+
+    expect(book.realized_pnl_usd).toBe(150);
+    expect(book.positions.SOL).toMatchObject({ quantity: 1, cost_usd: 200, mark_price_usd: 250 });
+    expect(computeUnrealizedPnl(book)).toBe(50);
+  });
+
+  it('realizes against the pooled cost with average cost', () => {
+    const book = buildBook('average');
+
+    expect(book.realized_pnl_usd).toBe(100);
+    expect(book.positions.SOL).toMatchObject({ quantity: 1, cost_usd: 150 });
+    expect(computeUnrealizedPnl(book, { SOL: 300 })).toBe(150);
+  });
+
+  it('carries cost basis through token-to-token swaps and closes emptied positions', () => {
+    const book = createPositionBook('fifo');
+    applySwap(book, { timestamp: T0, token_in: 'USDC', token_out: 'SOL', amount_in: 100, amount_out: 1 });
+    applySwap(book, { timestamp: T0 + 1, token_in: 'SOL', token_out: 'JUP', amount_in: 1, amount_out: 200, notional_usd: 120 });
+    applySwap(book, { timestamp: T0 + 2, token_in: 'JUP', token_out: 'BONK', amount_in: 50, amount_out: 5, notional_usd: 20 });
+
+    expect(book.positions.SOL).toBeUndefined();
+    expect(book.positions.JUP).toMatchObject({ quantity: 150, cost_usd: 90 });
+    expect(book.realized_pnl_usd).toBe(20 + 20 - 30);
+  });
+
+  it('realizes nothing on inventory it never saw bought', () => {
+    const book = createPositionBook('fifo');
+    applySwap(book, { timestamp: T0, token_in: 'SOL', token_out: 'USDC', amount_in: 3, amount_out: 450 });
+
+    expect(book.realized_pnl_usd).toBe(0);
+    expect(book.positions).toEqual({});
+  });
+});
+
+describe('GET /agents/:agent_id/positions', () => {
+  it('returns open positions to the owner only', async () => {
+    const agent = await metricsStore.registerAgent('positions-agent', 'test-key', undefined, 'average');
+    await metricsStore.logTrade(makeTrade(agent.agent_id, 1, { token_in: 'USDC', token_out: 'SOL', amount_in: 300, amount_out: 2 }));
+
+    const owner = await api('GET', `/agents/${agent.agent_id}/positions`, { headers: { 'X-API-Key': agent.api_key } });
+    const stranger = await api('GET', `/agents/${agent.agent_id}/positions`, { headers: { 'X-API-Key': 'atk_wrong' } });
+
+    expect(owner.status).toBe(200);
+    expect(owner.body.data.method).toBe('average');
+    expect(owner.body.data.positions).toEqual([expect.objectContaining({ token: 'SOL', quantity: 2, cost_usd: 300 })]);
+    expect(stranger.status).toBe(403);
+  });
+
+  it('splits realized and unrealized PnL in the metrics, also after a recompute', async () => {
+    const agent = await metricsStore.registerAgent('positions-agent', 'test-key');
+    await metricsStore.logTrade(makeTrade(agent.agent_id, 1, { token_in: 'USDC', token_out: 'SOL', amount_in: 100, amount_out: 1 }));
+    await metricsStore.logTrade(makeTrade(agent.agent_id, 2, { token_in: 'USDC', token_out: 'SOL', amount_in: 200, amount_out: 1 }));
+    await metricsStore.logTrade(makeTrade(agent.agent_id, 3, { token_in: 'SOL', token_out: 'USDC', amount_in: 1, amount_out: 250 }));
+    const logged = { ...metricsStore.getMetrics(agent.agent_id)! };
+
+    const recomputed = await metricsStore.recomputeMetrics(agent.agent_id);
+
+    expect(logged).toMatchObject({ realized_pnl_usd: 150, unrealized_pnl_usd: 50 });
+    expect(recomputed).toMatchObject({ realized_pnl_usd: 150, unrealized_pnl_usd: 50 });
+  });
+});
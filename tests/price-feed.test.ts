@@ -0,0 +1,99 @@
+import { cap402Client } from '../src/cap402/client';
+import { metricsStore } from '../src/services/metrics-store';
+import { priceFeed, stubPrice } from '../src/services/price-feed';
+import { api } from './api';
+import { HOUR_MS, T0 } from './helpers';
+
+describe('price feed', () => {
+  afterEach(() => {
+    process.env.PRICE_FEED = 'local';
+  });
+
+  it('prices from a deterministic stub when PRICE_FEED=local', async () => {
+    const price = await priceFeed.getPrice('SOL', T0 + 5 * HOUR_MS);
+
+    expect(price).toEqual({ price_usd: stubPrice('SOL', T0 + 5 * HOUR_MS), source: 'local-stub' });
+    expect(stubPrice('SOL', T0)).not.toBe(stubPrice('SOL', T0 + 6 * HOUR_MS));
+    expect(stubPrice('USDC', T0 + 6 * HOUR_MS)).toBe(1);
+    expect(await priceFeed.getPrice('NOTATOKEN', T0)).toBeNull();
+  });
+
+  it('leaves a token unpriced when CAP-402 has no price', async () => {
+    delete process.env.PRICE_FEED;
+    const at = T0 + 7 * HOUR_MS;
+
+    expect(await priceFeed.getPrice('SOL', at)).toBeNull();
+    expect(await priceFeed.markToMarket({ token_in: 'SOL', token_out: 'USDC', amount_in: 1, amount_out: 150 }, at))
+      .toMatchObject({ pnl_usd: null, price_source: undefined });
+  });
+
+  it('caches CAP-402 prices per token per minute', async () => {
+    delete process.env.PRICE_FEED;
+    const lookup = jest.spyOn(cap402Client, 'getPrice')
+      .mockResolvedValue({ price: 42, source: 'cap402', timestamp: T0 });
+
+    const prices = await Promise.all([
+      priceFeed.getPrice('JUP', T0 + 10),
+      priceFeed.getPrice('jup', T0 + 20_000),
+      priceFeed.getPrice('JUP', T0 + 30_000)
+    ]);
+
+    expect(prices.map((price) => price?.price_usd)).toEqual([42, 42, 42]);
+    expect(lookup).toHaveBeenCalledTimes(1);
+    lookup.mockRestore();
+  });
+
+  it('flags reported PnL far from the mark-to-market PnL', async () => {
+    const at = T0 + 3 * HOUR_MS;
+    const solPrice = stubPrice('SOL', at)!;
+    const trade = { token_in: 'SOL', token_out: 'USDC', amount_in: 2, amount_out: 2 * solPrice + 10 };
+
+    const honest = await priceFeed.markToMarket({ ...trade, pnl_usd: 10 }, at);
+    const inflated = await priceFeed.markToMarket({ ...trade, pnl_usd: 500 }, at);
+
+    expect(honest).toMatchObject({ pnl_usd: 10, reported_pnl_usd: 10, derived_pnl_usd: 10, pnl_suspicious: false });
+    expect(inflated).toMatchObject({ pnl_usd: 500, derived_pnl_usd: 10, pnl_suspicious: true });
+  });
+});
+
+describe('POST /trades without pnl_usd', () => {
+  it('derives PnL from prices at execution time', async () => {
+    const agent = await metricsStore.registerAgent('mtm-agent', 'test-key');
+    const executedAt = Date.now() - 2 * HOUR_MS;
+    const solPrice = stubPrice('SOL', executedAt - (executedAt % 60_000))!;
+
+    const response = await api('POST', '/trades', {
+      body: {
+        agent_id: agent.agent_id,
+        api_key: agent.api_key,
+        token_in: 'USDC',
+        token_out: 'SOL',
+        amount_in: 100,
+        amount_out: 1,
+        executed_at: executedAt
+      }
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.pnl_usd).toBeCloseTo(solPrice - 100, 2);
+    const [trade] = metricsStore.getTrades(agent.agent_id);
+    expect(trade.reported_pnl_usd).toBeUndefined();
+    expect(trade.derived_pnl_usd).toBe(trade.pnl_usd);
+    expect(trade.price_source).toBe('local-stub');
+  });
+
+  it('requires pnl_usd when it cannot be derived', async () => {
+    const agent = await metricsStore.registerAgent('mtm-agent', 'test-key');
+    const body = { agent_id: agent.agent_id, api_key: agent.api_key, token_in: 'NOTATOKEN', amount_in: 5, amount_out: 5 };
+
+    const single = await api('POST', '/trades', { body });
+    const batch = await api('POST', '/trades/batch', {
+      body: { agent_id: agent.agent_id, api_key: agent.api_key, trades: [{ pnl_usd: 1 }, { token_in: 'NOTATOKEN', amount_in: 5, amount_out: 5 }] }
+    });
+
+    expect(single.status).toBe(400);
+    expect(batch.status).toBe(400);
+    expect(batch.body.error).toContain('trades[1]');
+    expect(metricsStore.getTrades(agent.agent_id)).toHaveLength(0);
+  });
+});
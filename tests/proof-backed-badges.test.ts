@@ -0,0 +1,141 @@
+import { cap402Client } from '../src/cap402/client';
+import { findBackingProof, parseBadgeRules } from '../src/services/badges';
+import { metricsStore } from '../src/services/metrics-store';
+import { reputationService } from '../src/services/reputation';
+import { ReputationProof } from '../src/types';
+import { api } from './api';
+import { HOUR_MS, makeTrade } from './helpers';
+
+const NOW = Date.now();
+
+const [consistent] = parseBadgeRules([{
+  id: 'consistent',
+  name: 'Consistent',
+  description: 'Win rate above 60%',
+  metric: 'win_rate',
+  operator: '>=',
+  threshold: 60,
+  proof: { type: 'win_rate', input: 'threshold', operator: '>=', value: 60 }
+}]);
+
+function winRateProof(overrides: Partial<ReputationProof> = {}, outputs: Record<string, unknown> = {}): ReputationProof {
+  return {
+    proof_id: `proof-${Math.random()}`,
+    agent_id: 'agent',
+    proof_type: 'win_rate',
+    proof_data: '0xproof',
+    verification_key: '0xvk',
+    public_outputs: { threshold: 60, meets_threshold: true, ...outputs },
+    created_at: NOW - HOUR_MS,
+    expires_at: NOW + HOUR_MS,
+    circuit_hash: 'noir_win_rate_v1',
+    verified: true,
+    ...overrides
+  };
+}
+
+describe('backing proofs', () => {
+  it('takes the latest verified proof of the claim', () => {
+    const older = winRateProof({ created_at: NOW - 2 * HOUR_MS });
+    const newer = winRateProof({}, { threshold: 65 });
+
+    expect(findBackingProof(consistent, [older, newer], NOW)).toBe(newer);
+  });
+
+  it('ignores proofs that do not prove the claim', () => {
+    const none = (proof: ReputationProof) => findBackingProof(consistent, [proof], NOW);
+
+    expect(none(winRateProof({ verified: false }))).toBeUndefined();
+    expect(none(winRateProof({ expires_at: NOW - 1 }))).toBeUndefined();
+    expect(none(winRateProof({}, { threshold: 50 }))).toBeUndefined();
+    expect(none(winRateProof({}, { meets_threshold: false }))).toBeUndefined();
+    expect(none(winRateProof({}, { pair: 'SOL/USDC' }))).toBeUndefined();
+    expect(none(winRateProof({}, { window: { window: '7d', from: NOW - 7 * 24 * HOUR_MS, to: NOW } }))).toBeUndefined();
+    expect(none(winRateProof({ proof_type: 'trade_count' }))).toBeUndefined();
+  });
+});
+
+describe('proof-backed badges', () => {
+  async function consistentAgent(): Promise<string> {
+    const agent = await metricsStore.registerAgent('proving-agent', 'test-key');
+    const start = NOW - 10 * HOUR_MS;
+    await metricsStore.logTrades(agent.agent_id, Array.from({ length: 10 }, (_, i) =>
+      makeTrade(agent.agent_id, i, { timestamp: start + i * HOUR_MS, pnl_usd: i < 8 ? 5 : -5 })));
+    return agent.agent_id;
+  }
+
+  // CAP-402 is offline in tests; these stand in for a real prover and verifier
+  async function provenWinRate(agentId: string, threshold: number): Promise<ReputationProof> {
+    jest.mocked(cap402Client.invoke).mockResolvedValueOnce({
+      success: true,
+      outputs: { proof: '0xproof', verification_key: '0xvk', public_outputs: { meets_win_rate: true } }
+    } as any);
+    return reputationService.generateProof({ agent_id: agentId, proof_type: 'win_rate', public_inputs: { threshold } });
+  }
+
+  function verifiesOnce() {
+    jest.mocked(cap402Client.invoke).mockResolvedValueOnce({
+      success: true,
+      outputs: { valid: true, verification_proof: '0xverified' }
+    } as any);
+  }
+
+  it('withholds the badge until a proof of the claim is verified, then links it', async () => {
+    const agentId = await consistentAgent();
+    const proof = await provenWinRate(agentId, 60);
+
+    const unproven = await reputationService.computeVerifiedReputation(agentId);
+    verifiesOnce();
+    const verification = await api('POST', '/proofs/verify', { body: { proof_id: proof.proof_id } });
+    const proven = await reputationService.computeVerifiedReputation(agentId);
+
+    expect(unproven.badges.map((badge) => badge.badge_id)).not.toContain('consistent');
+    expect(verification.body.data.valid).toBe(true);
+    expect(proven.badges).toContainEqual(expect.objectContaining({ badge_id: 'consistent', proof_id: proof.proof_id }));
+    expect(proven.badges.find((badge) => badge.badge_id === 'first_trade')?.proof_id).toBeUndefined();
+  });
+
+  it('lets third parties fetch the linked proof as verified', async () => {
+    const agentId = await consistentAgent();
+    const proof = await provenWinRate(agentId, 70);
+    verifiesOnce();
+    await reputationService.verifyProof(proof.proof_id);
+
+    const reputation = await reputationService.computeVerifiedReputation(agentId);
+    const linked = reputation.badges.find((badge) => badge.badge_id === 'consistent')!;
+    const fetched = await api('GET', `/proofs/${linked.proof_id}`);
+
+    expect(fetched.body.data).toMatchObject({ proof_type: 'win_rate', verified: true, public_outputs: { threshold: 70 } });
+  });
+
+  it('keeps the badge and serves its proof after the proof expires', async () => {
+    const agentId = await consistentAgent();
+    const proof = await provenWinRate(agentId, 75);
+    verifiesOnce();
+    await reputationService.verifyProof(proof.proof_id);
+    await reputationService.computeVerifiedReputation(agentId);
+    const unlinked = await provenWinRate(agentId, 75);
+
+    for (const id of [proof.proof_id, unlinked.proof_id]) {
+      reputationService.getProof(id)!.expires_at = Date.now() - 1;
+    }
+    reputationService.cleanupExpiredProofs();
+    const reputation = await reputationService.computeVerifiedReputation(agentId);
+    const fetched = await api('GET', `/proofs/${proof.proof_id}`);
+
+    expect(reputation.badges).toContainEqual(expect.objectContaining({ badge_id: 'consistent', proof_id: proof.proof_id }));
+    expect(fetched.status).toBe(200);
+    expect(reputationService.getProof(unlinked.proof_id)).toBeUndefined();
+  });
+
+  it('does not count a proof at a lower threshold than the badge needs', async () => {
+    const agentId = await consistentAgent();
+    const proof = await provenWinRate(agentId, 50);
+    verifiesOnce();
+    await reputationService.verifyProof(proof.proof_id);
+
+    const reputation = await reputationService.computeVerifiedReputation(agentId);
+
+    expect(reputation.badges.map((badge) => badge.badge_id)).not.toContain('consistent');
+  });
+});
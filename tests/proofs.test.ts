@@ -0,0 +1,135 @@
+import { cap402Client } from '../src/cap402/client';
+import { metricsStore } from '../src/services/metrics-store';
+import { reputationService } from '../src/services/reputation';
+import { DAY_MS, makeTrade } from './helpers';
+
+async function tradedAgent(): Promise<string> {
+  const agent = await metricsStore.registerAgent('proof-agent', 'test-key');
+  for (let day = 0; day < 6; day++) {
+    await metricsStore.logTrade(makeTrade(agent.agent_id, day, { timestamp: agent.created_at + day * DAY_MS }));
+  }
+  return agent.agent_id;
+}
+
+// Private (or public) inputs of the last strategy_performance circuit call
+function lastCircuitInputs(kind: 'private_inputs' | 'public_inputs' = 'private_inputs'): Record<string, number> {
+  const calls = jest.mocked(cap402Client.invoke).mock.calls
+    .filter(([request]) => request.inputs.circuit === 'strategy_performance');
+  return calls[calls.length - 1][0].inputs[kind];
+}
+
+describe('strategy performance proofs', () => {
+  it('proves Sharpe over the agent real win rate, Sharpe and drawdown', async () => {
+    const agentId = await tradedAgent();
+    const metrics = metricsStore.getMetrics(agentId)!;
+
+    const proof = await reputationService.generateProof({
+      agent_id: agentId,
+      proof_type: 'sharpe_ratio',
+      public_inputs: { min_sharpe: metrics.sharpe_ratio - 1 }
+    });
+
+    expect(proof.public_outputs.meets_threshold).toBe(true);
+    expect(proof.circuit_hash).toBe('noir_sharpe_ratio_v1');
+    expect(lastCircuitInputs()).toMatchObject({
+      actual_win_rate: metricsStore.getWinRate(agentId),
+      actual_sharpe: metrics.sharpe_ratio,
+      actual_drawdown: metrics.max_drawdown_bps
+    });
+  });
+
+  it('proves and records a Sharpe bound of 0 as given', async () => {
+    const agentId = await tradedAgent();
+
+    const proof = await reputationService.generateProof({
+      agent_id: agentId,
+      proof_type: 'sharpe_ratio',
+      public_inputs: { min_sharpe: 0 }
+    });
+
+    expect(lastCircuitInputs('public_inputs')).toMatchObject({ min_sharpe_ratio: 0 });
+    expect(proof.public_outputs.min_sharpe).toBe(0);
+  });
+
+  it('checks drawdown against the limit', async () => {
+    const agentId = await tradedAgent();
+    const drawdown = metricsStore.getMetrics(agentId)!.max_drawdown_bps;
+    expect(drawdown).toBeGreaterThan(0);
+
+    const within = await reputationService.generateProof({
+      agent_id: agentId,
+      proof_type: 'max_drawdown',
+      public_inputs: { max_drawdown: drawdown }
+    });
+    const beyond = await reputationService.generateProof({
+      agent_id: agentId,
+      proof_type: 'max_drawdown',
+      public_inputs: { max_drawdown: drawdown - 1 }
+    });
+
+    expect(within.public_outputs.meets_threshold).toBe(true);
+    expect(beyond.public_outputs.meets_threshold).toBe(false);
+    expect(lastCircuitInputs().actual_drawdown).toBe(drawdown);
+  });
+
+  it('proves and records a drawdown bound of 0 as given', async () => {
+    const agentId = await tradedAgent();
+
+    const proof = await reputationService.generateProof({
+      agent_id: agentId,
+      proof_type: 'max_drawdown',
+      public_inputs: { max_drawdown: 0 }
+    });
+
+    expect(lastCircuitInputs('public_inputs')).toMatchObject({ max_drawdown_bps: 0 });
+    expect(proof.public_outputs).toMatchObject({ max_drawdown: 0, meets_threshold: false });
+  });
+});
+
+describe('uptime proofs', () => {
+  async function beatingAgent(): Promise<string> {
+    const agentId = await tradedAgent();
+    await metricsStore.recordHeartbeat(agentId);
+    return agentId;
+  }
+
+  it('are proven through CAP-402 when it is available', async () => {
+    const agentId = await beatingAgent();
+    jest.mocked(cap402Client.invoke).mockResolvedValueOnce({
+      success: true,
+      outputs: { proof: '0xuptime', verification_key: '0xvk', public_outputs: { meets_threshold: true } }
+    } as any);
+
+    const proof = await reputationService.generateProof({
+      agent_id: agentId,
+      proof_type: 'uptime',
+      public_inputs: { min_uptime: 90 }
+    });
+    jest.mocked(cap402Client.invoke).mockResolvedValueOnce({
+      success: true,
+      outputs: { valid: true, verification_proof: '0xverified' }
+    } as any);
+
+    const calls = jest.mocked(cap402Client.invoke).mock.calls;
+    expect(calls[calls.length - 1][0]).toMatchObject({
+      capability_id: 'cap.zk.proof.v1',
+      inputs: { circuit: 'balance_threshold', public_inputs: { threshold: 90 } }
+    });
+    expect(proof).toMatchObject({ proof_data: '0xuptime', circuit_hash: 'noir_uptime_v1' });
+    expect(proof.public_outputs.attestation).toBeUndefined();
+    await expect(reputationService.verifyProof(proof.proof_id)).resolves.toMatchObject({ valid: true });
+  });
+
+  it('fall back to a local attestation that never verifies', async () => {
+    const agentId = await beatingAgent();
+    const proof = await reputationService.generateProof({
+      agent_id: agentId,
+      proof_type: 'uptime',
+      public_inputs: { min_uptime: 90 }
+    });
+
+    expect(proof.circuit_hash).toBe('local_uptime_attestation_v1');
+    expect(proof.public_outputs).toMatchObject({ attestation: 'local', meets_threshold: true });
+    await expect(reputationService.verifyProof(proof.proof_id)).resolves.toEqual({ valid: false, verification_proof: '' });
+  });
+});
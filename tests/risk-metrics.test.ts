@@ -0,0 +1,136 @@
+import {
+  addReturn,
+  applyPnl,
+  computeDrawdownStats,
+  computeRiskRatios,
+  createEquityCurve,
+  createReturnSeries,
+  tradeReturn
+} from '../src/services/risk-metrics';
+import { metricsStore } from '../src/services/metrics-store';
+import { DAY_MS, HOUR_MS, T0, makeTrade } from './helpers';
+
+const ANNUALIZE = Math.sqrt(365);
+
+function seriesOf(dailyReturns: number[]) {
+  const series = createReturnSeries();
+  dailyReturns.forEach((ret, day) => addReturn(series, T0 + day * DAY_MS, ret));
+  return series;
+}
+
+describe('risk ratios', () => {
+  it('annualizes Sharpe and volatility from daily returns', () => {
+    const returns = [0.01, 0.02, -0.01, 0.005];
+    const mean = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
+    const stdDev = Math.sqrt(returns.reduce((sum, ret) => sum + (ret - mean) ** 2, 0) / (returns.length - 1));
+
+    const ratios = computeRiskRatios(seriesOf(returns));
+
+    expect(ratios.sharpe_ratio).toBeCloseTo((mean / stdDev) * ANNUALIZE, 3);
+    expect(ratios.volatility).toBeCloseTo(stdDev * ANNUALIZE, 3);
+  });
+
+  it('uses only downside deviation for Sortino', () => {
+    const returns = [0.01, -0.03, 0.02, -0.01, 0.02];
+    const mean = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
+    const downside = Math.sqrt(returns.reduce((sum, ret) => sum + Math.min(ret, 0) ** 2, 0) / returns.length);
+
+    expect(computeRiskRatios(seriesOf(returns)).sortino_ratio).toBeCloseTo((mean / downside) * ANNUALIZE, 3);
+  });
+
+  it('sums trades on the same day into one period', () => {
+    const series = createReturnSeries();
+    addReturn(series, T0, 0.01);
+    addReturn(series, T0 + DAY_MS, 0.03);
+    addReturn(series, T0 + 2 * 60 * 60 * 1000, 0.02);
+
+    expect(series.daily_returns[String(T0 / DAY_MS)]).toBeCloseTo(0.03);
+    expect(computeRiskRatios(series)).toEqual(computeRiskRatios(seriesOf([0.03, 0.03])));
+  });
+
+  it('needs two trading days and caps ratios with no variation', () => {
+    expect(computeRiskRatios(seriesOf([0.05]))).toEqual({ sharpe_ratio: 0, sortino_ratio: 0, volatility: 0 });
+
+    const steady = computeRiskRatios(seriesOf([0.01, 0.01, 0.01]));
+    expect(steady.sharpe_ratio).toBeCloseTo(10);
+    expect(steady.sortino_ratio).toBeCloseTo(10);
+    expect(steady.volatility).toBe(0);
+  });
+
+  it('measures returns against the amount put in', () => {
+    expect(tradeReturn(5, 100)).toBe(0.05);
+    expect(tradeReturn(5, 0)).toBeNull();
+  });
+
+  it('stores the agent ratios as trades are logged', async () => {
+    const agent = await metricsStore.registerAgent('risk-agent', 'test-key');
+    const series = createReturnSeries();
+    for (let day = 0; day < 5; day++) {
+      const trade = makeTrade(agent.agent_id, day * 24);
+      await metricsStore.logTrade(trade);
+      addReturn(series, trade.timestamp, tradeReturn(trade.pnl_usd, trade.amount_in)!);
+    }
+
+    const metrics = metricsStore.getMetrics(agent.agent_id)!;
+    const expected = computeRiskRatios(series);
+    expect(metrics.sharpe_ratio).toBe(expected.sharpe_ratio);
+    expect(metrics.sortino_ratio).toBe(expected.sortino_ratio);
+    expect(metrics.volatility).toBe(expected.volatility);
+    expect(metrics.sharpe_ratio).not.toBe(0);
+  });
+});
+
+describe('equity curve drawdown', () => {
+  it('measures peak-to-trough drawdown, its duration and the recovery', () => {
+    const curve = createEquityCurve(10000, T0);
+    applyPnl(curve, T0 + HOUR_MS, 1000);
+    applyPnl(curve, T0 + 2 * HOUR_MS, -2200);
+    applyPnl(curve, T0 + 3 * HOUR_MS, 500);
+
+    expect(computeDrawdownStats(curve)).toEqual({
+      max_drawdown_bps: 2000,
+      current_drawdown_bps: Math.round((1700 / 11000) * 10000),
+      drawdown_duration_ms: 2 * HOUR_MS,
+      max_drawdown_duration_ms: 2 * HOUR_MS,
+      recovery_time_ms: null
+    });
+
+    applyPnl(curve, T0 + 5 * HOUR_MS, 2000);
+    expect(computeDrawdownStats(curve)).toEqual({
+      max_drawdown_bps: 2000,
+      current_drawdown_bps: 0,
+      drawdown_duration_ms: 0,
+      max_drawdown_duration_ms: 4 * HOUR_MS,
+      recovery_time_ms: 3 * HOUR_MS
+    });
+  });
+
+  it('keeps the deepest drawdown across separate dips', () => {
+    const curve = createEquityCurve(1000, T0);
+    applyPnl(curve, T0 + HOUR_MS, -100);
+    applyPnl(curve, T0 + 2 * HOUR_MS, 300);
+    applyPnl(curve, T0 + 3 * HOUR_MS, -60);
+
+    expect(computeDrawdownStats(curve).max_drawdown_bps).toBe(1000);
+    expect(computeDrawdownStats(curve).current_drawdown_bps).toBe(Math.round((60 / 1200) * 10000));
+  });
+
+  it('reports losing more than the peak as a full drawdown', () => {
+    const curve = createEquityCurve(100, T0);
+    applyPnl(curve, T0 + HOUR_MS, -250);
+
+    expect(computeDrawdownStats(curve).max_drawdown_bps).toBe(10000);
+  });
+
+  it('measures logged trades against the declared starting capital', async () => {
+    const agent = await metricsStore.registerAgent('drawdown-agent', 'test-key', 1000);
+    const start = agent.created_at;
+    await metricsStore.logTrade(makeTrade(agent.agent_id, 1, { timestamp: start + HOUR_MS, pnl_usd: 100 }));
+    await metricsStore.logTrade(makeTrade(agent.agent_id, 2, { timestamp: start + 2 * HOUR_MS, pnl_usd: -275 }));
+
+    const metrics = metricsStore.getMetrics(agent.agent_id)!;
+    expect(metrics.max_drawdown_bps).toBe(2500);
+    expect(metrics.current_drawdown_bps).toBe(2500);
+    expect(metrics.drawdown_duration_ms).toBe(HOUR_MS);
+  });
+});
@@ -0,0 +1,104 @@
+import { metricsStore } from '../src/services/metrics-store';
+import { reputationService } from '../src/services/reputation';
+import { decayReputation } from '../src/services/score-decay';
+import { VerifiedReputation } from '../src/types';
+import { api } from './api';
+import { DAY_MS, HOUR_MS, makeTrade } from './helpers';
+
+const NOW = Date.UTC(2026, 6, 1);
+
+function verifiedAt(verifiedAtMs: number, score = 80): VerifiedReputation {
+  return {
+    agent_id: 'decaying-agent',
+    reputation_score: score,
+    tier: 'platinum',
+    badges: [],
+    verification_proof: '',
+    verified_at: verifiedAtMs,
+    mpc_attestation: '',
+    scoring_model: 'trade_count@1',
+    percentile: null,
+    cohort_size: 0
+  };
+}
+
+describe('score decay', () => {
+  it('keeps the score through the grace period, then halves it every half-life', () => {
+    const fresh = decayReputation(verifiedAt(NOW), NOW - 10 * DAY_MS, NOW);
+    const oneHalfLife = decayReputation(verifiedAt(NOW), NOW - 44 * DAY_MS, NOW);
+
+    expect(fresh).toMatchObject({ raw_score: 80, effective_score: 80, effective_tier: 'platinum', lapsed: false });
+    expect(oneHalfLife).toMatchObject({ raw_score: 80, effective_score: 40, effective_tier: 'unverified', lapsed: false });
+  });
+
+  it('counts inactivity from the latest activity, or the verification without any', () => {
+    const staleActivity = decayReputation(verifiedAt(NOW), NOW - 44 * DAY_MS, NOW);
+    const activeSinceVerifying = decayReputation(verifiedAt(NOW - 44 * DAY_MS), NOW, NOW);
+    const neverActive = decayReputation(verifiedAt(NOW - 44 * DAY_MS), null, NOW);
+
+    expect(staleActivity).toMatchObject({ last_active_at: NOW - 44 * DAY_MS, effective_score: 40 });
+    expect(activeSinceVerifying).toMatchObject({ last_active_at: NOW, effective_score: 80 });
+    expect(neverActive.effective_score).toBe(40);
+  });
+
+  it('lapses to unverified after the expiry gap', () => {
+    expect(decayReputation(verifiedAt(NOW), NOW - 180 * DAY_MS, NOW)).toMatchObject({
+      effective_score: 0,
+      effective_tier: 'unverified',
+      lapsed: true
+    });
+  });
+
+  it('reads the decay schedule from the environment', () => {
+    process.env.REPUTATION_DECAY_GRACE_DAYS = '0';
+    process.env.REPUTATION_DECAY_HALF_LIFE_DAYS = '10';
+    try {
+      expect(decayReputation(verifiedAt(NOW), NOW - 20 * DAY_MS, NOW).effective_score).toBe(20);
+    } finally {
+      delete process.env.REPUTATION_DECAY_GRACE_DAYS;
+      delete process.env.REPUTATION_DECAY_HALF_LIFE_DAYS;
+    }
+  });
+});
+
+describe('decayed reputations', () => {
+  async function verifiedAgent(lastTradeDaysAgo: number) {
+    const agent = await metricsStore.registerAgent('decay-agent', 'test-key');
+    const lastTradeAt = Date.now() - lastTradeDaysAgo * DAY_MS;
+    await metricsStore.logTrades(agent.agent_id, Array.from({ length: 6 }, (_, i) =>
+      makeTrade(agent.agent_id, i, { timestamp: lastTradeAt - (5 - i) * HOUR_MS })));
+    await reputationService.computeVerifiedReputation(agent.agent_id);
+    return agent.agent_id;
+  }
+
+  it('shows raw and effective scores on the leaderboard and trust certificate', async () => {
+    const active = await verifiedAgent(1);
+    const dormant = await verifiedAgent(74);
+    const lapsed = await verifiedAgent(200);
+
+    const leaderboard = await api('GET', '/leaderboard');
+    const entry = (agentId: string) => leaderboard.body.data.find((e: { agent_id: string }) => e.agent_id === agentId);
+    const dormantCert = await api('GET', `/trust/${dormant}`);
+    const lapsedCert = await api('GET', `/trust/${lapsed}`);
+
+    // 74 days idle is two half-lives past the grace period, give or take rounding
+    expect(entry(active).effective_score).toBe(entry(active).reputation_score);
+    expect(Math.abs(entry(dormant).effective_score - entry(dormant).reputation_score / 4)).toBeLessThanOrEqual(1);
+    expect(entry(lapsed)).toBeUndefined();
+    expect(dormantCert.body.data.verified).toBe(true);
+    expect(dormantCert.body.data.effective_score).toBe(entry(dormant).effective_score);
+    expect(lapsedCert.body.data).toMatchObject({ verified: false, tier: 'unverified', effective_score: 0 });
+    expect(lapsedCert.body.data.reputation_score).toBeGreaterThan(0);
+  });
+
+  it('counts a heartbeat as activity', async () => {
+    const agentId = await verifiedAgent(74);
+    await metricsStore.recordHeartbeat(agentId);
+
+    const decay = reputationService.getReputationDecay(agentId)!;
+    const recent = await api('GET', '/leaderboard?sort=recent&limit=1');
+
+    expect(decay.effective_score).toBe(decay.raw_score);
+    expect(recent.body.data[0].agent_id).toBe(agentId);
+  });
+});
@@ -0,0 +1,133 @@
+import { metricsStore } from '../src/services/metrics-store';
+import { reputationService } from '../src/services/reputation';
+import { getScoringModel, listScoringModels, registerScoringModel } from '../src/services/scoring-models';
+import { api } from './api';
+import { makeTrade } from './helpers';
+
+// Same trade count and win rate; only the size of the wins and losses differs
+async function agentWithTrades(winUsd: number, lossUsd: number) {
+  const agent = await metricsStore.registerAgent('sized-agent', 'test-key');
+  const trades = Array.from({ length: 10 }, (_, i) => {
+    const win = i % 5 !== 0;
+    const notional = win ? winUsd * 10 : lossUsd * 10;
+    return makeTrade(agent.agent_id, i, {
+      token_in: 'USDC',
+      token_out: 'SOL',
+      amount_in: notional,
+      amount_out: notional / 100,
+      pnl_usd: win ? winUsd : -lossUsd,
+      execution_time_ms: 80
+    });
+  });
+  await metricsStore.logTrades(agent.agent_id, trades);
+  return agent.agent_id;
+}
+
+describe('volume-weighted scoring', () => {
+  it('tracks volume, gross profit and gross loss', async () => {
+    const agentId = await agentWithTrades(1, 100);
+
+    expect(metricsStore.getMetrics(agentId)).toMatchObject({
+      volume_usd: 8 * 10 + 2 * 1000,
+      winning_volume_usd: 80,
+      gross_profit_usd: 8,
+      gross_loss_usd: 200
+    });
+  });
+
+  it('keeps trade_count as the default and scores trade size only under volume_weighted', async () => {
+    // Both lose money overall, so trade_count's PnL points don't separate them either
+    const tinyWins = await agentWithTrades(1, 10);
+    const largeWins = await agentWithTrades(1000, 5000);
+    const volumeWeighted = getScoringModel('volume_weighted@1');
+
+    const countTiny = await reputationService.computeVerifiedReputation(tinyWins);
+    const countLarge = await reputationService.computeVerifiedReputation(largeWins, getScoringModel('trade_count@2'));
+    const volumeTiny = await reputationService.computeVerifiedReputation(tinyWins, volumeWeighted);
+    const volumeLarge = await reputationService.computeVerifiedReputation(largeWins, volumeWeighted);
+
+    expect(countTiny.scoring_model).toBe('trade_count@2');
+    expect(countLarge.reputation_score).toBe(countTiny.reputation_score);
+    expect(volumeTiny.scoring_model).toBe('volume_weighted@1');
+    expect(volumeLarge.reputation_score - volumeTiny.reputation_score).toBeGreaterThan(10);
+  });
+
+  it("doesn't give a single winning trade full profit factor and payoff points", async () => {
+    const agent = await metricsStore.registerAgent('sized-agent', 'test-key');
+    await metricsStore.logTrade(makeTrade(agent.agent_id, 0, {
+      token_in: 'USDC',
+      token_out: 'SOL',
+      amount_in: 10,
+      amount_out: 0.1,
+      pnl_usd: 1,
+      execution_time_ms: 40
+    }));
+
+    const reputation = await reputationService.computeVerifiedReputation(agent.agent_id, getScoringModel('volume_weighted@1'));
+
+    // Win rate and execution points, with a thirtieth of the ratio points
+    expect(reputation.reputation_score).toBeLessThan(50);
+  });
+});
+
+describe('unverified trade weighting', () => {
+  it('discounts unverified trades only in the versions that say so', async () => {
+    const agent = await metricsStore.registerAgent('unverified-agent', 'test-key');
+    await metricsStore.logTrades(agent.agent_id, Array.from({ length: 20 }, (_, i) =>
+      makeTrade(agent.agent_id, i, { pnl_usd: 100, execution_time_ms: 300 })));
+    const score = async (ref: string) =>
+      (await reputationService.computeVerifiedReputation(agent.agent_id, getScoringModel(ref))).reputation_score;
+
+    // 20 trades and $2,000 PnL earn 3 + 4 points at full weight, 1.5 + 2 at half
+    const full = await score('trade_count@2');
+    const halved = await score('trade_count@3');
+
+    expect(getScoringModel('trade_count@2')!.unverified_trade_weight).toBe(1);
+    expect(full - halved).toBeGreaterThanOrEqual(3);
+    expect(full - halved).toBeLessThanOrEqual(4);
+  });
+});
+
+describe('scoring model registry', () => {
+  it('resolves a bare id to its latest version and pins exact versions', () => {
+    const v1 = getScoringModel('trade_count@1')!;
+    registerScoringModel({ ...v1, version: 4, tiers: [{ tier: 'gold', min_score: 10 }] });
+
+    expect(getScoringModel('trade_count')?.version).toBe(4);
+    expect(getScoringModel('trade_count@1')).toBe(v1);
+    expect(getScoringModel('trade_count@9')).toBeUndefined();
+    expect(() => registerScoringModel(v1)).toThrow('already registered');
+  });
+
+  it("uses the model's weights", async () => {
+    const agentId = await agentWithTrades(50, 10);
+    registerScoringModel({
+      ...getScoringModel('trade_count@1')!,
+      id: 'win_rate_only',
+      weights: { trades: 0, win_rate: 100, pnl: 0, execution: 0 }
+    });
+
+    const reputation = await reputationService.computeVerifiedReputation(agentId, getScoringModel('win_rate_only'));
+
+    // 80% win rate, no proofs
+    expect(reputation).toMatchObject({ reputation_score: 80, scoring_model: 'win_rate_only@1' });
+  });
+
+  it('accepts a model on POST /reputation/verify and lists models', async () => {
+    const agentId = await agentWithTrades(50, 10);
+
+    const response = await api('POST', '/reputation/verify', { body: { agent_id: agentId, model: 'volume_weighted' } });
+    const unknown = await api('POST', '/reputation/verify', { body: { agent_id: agentId, model: 'volume_weighted@7' } });
+    const models = await api('GET', '/reputation/models');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.scoring_model).toBe('volume_weighted@1');
+    expect(unknown.status).toBe(400);
+    expect(models.body.data).toHaveLength(listScoringModels().length);
+    expect(models.body.data).toContainEqual(expect.objectContaining({
+      model: 'trade_count@2',
+      default: true,
+      weights: { trades: 30, win_rate: 40, pnl: 20, execution: 10 }
+    }));
+  });
+});
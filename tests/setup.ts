@@ -0,0 +1,24 @@
+/**
+ * Test setup
+ * Services run against their in-memory stores, with CAP-402 offline
+ */
+
+import { cap402Client } from '../src/cap402/client';
+import { ADMIN_API_KEY } from './helpers';
+
+delete process.env.DATABASE_URL;
+// Route tests get the app on an ephemeral local port
+process.env.PORT = '0';
+process.env.HOST = '127.0.0.1';
+process.env.ADMIN_API_KEY = ADMIN_API_KEY;
+// Trades are priced from the deterministic stub rather than cap.price.lookup.v1
+process.env.PRICE_FEED = 'local';
+
+// Services schedule housekeeping when imported; it shouldn't hold the test run open
+const scheduleInterval = global.setInterval;
+global.setInterval = ((...args: Parameters<typeof setInterval>) =>
+  scheduleInterval(...args).unref()) as typeof setInterval;
+
+// Every CAP-402 call fails fast, so services take their local fallbacks
+jest.spyOn(cap402Client, 'invoke').mockResolvedValue({ success: false } as any);
+jest.spyOn(console, 'log').mockImplementation(() => {});
@@ -0,0 +1,55 @@
+import { metricsStore } from '../src/services/metrics-store';
+import { api } from './api';
+import { makeTrade } from './helpers';
+
+// The trade fields POST /trades/batch takes
+function batchItem(index: number) {
+  const { token_in, token_out, amount_in, amount_out, pnl_usd, execution_time_ms } = makeTrade('', index);
+  return { token_in, token_out, amount_in, amount_out, pnl_usd, execution_time_ms };
+}
+
+describe('POST /trades/batch', () => {
+  it('logs every trade in the batch with one request', async () => {
+    const agent = await metricsStore.registerAgent('batch-agent', 'test-key');
+    const items = Array.from({ length: 40 }, (_, i) => batchItem(i));
+
+    const response = await api('POST', '/trades/batch', {
+      body: { agent_id: agent.agent_id, api_key: agent.api_key, trades: items }
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.accepted).toBe(40);
+    expect(response.body.data.trade_ids).toHaveLength(40);
+    expect(metricsStore.getTrades(agent.agent_id).map((trade) => trade.trade_id)).toEqual(response.body.data.trade_ids);
+    expect(metricsStore.getMetrics(agent.agent_id)!.total_pnl_usd)
+      .toBeCloseTo(items.reduce((sum, item) => sum + item.pnl_usd, 0));
+  });
+
+  it('rejects oversized batches and other keys without logging anything', async () => {
+    const agent = await metricsStore.registerAgent('batch-agent', 'test-key');
+
+    const oversized = await api('POST', '/trades/batch', {
+      body: { agent_id: agent.agent_id, api_key: agent.api_key, trades: Array.from({ length: 501 }, (_, i) => batchItem(i)) }
+    });
+    const forged = await api('POST', '/trades/batch', {
+      body: { agent_id: agent.agent_id, api_key: 'atk_wrong', trades: [batchItem(0)] }
+    });
+
+    expect(oversized.status).toBe(400);
+    expect(forged.status).toBe(403);
+    expect(metricsStore.getTrades(agent.agent_id)).toHaveLength(0);
+  });
+
+  it('applies concurrent batches for one agent one after another', async () => {
+    const agent = await metricsStore.registerAgent('batch-agent', 'test-key');
+    const batches = [0, 1, 2].map((b) =>
+      Array.from({ length: 10 }, (_, i) => makeTrade(agent.agent_id, b * 10 + i)));
+
+    await Promise.all(batches.map((batch) => metricsStore.logTrades(agent.agent_id, batch)));
+
+    const metrics = metricsStore.getMetrics(agent.agent_id)!;
+    expect(metrics.total_trades).toBe(30);
+    expect(metrics.total_pnl_usd).toBeCloseTo(batches.flat().reduce((sum, trade) => sum + trade.pnl_usd, 0));
+    expect(metricsStore.getTrades(agent.agent_id)).toHaveLength(30);
+  });
+});
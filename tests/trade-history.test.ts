@@ -0,0 +1,87 @@
+import { metricsStore } from '../src/services/metrics-store';
+import { TradeRecord } from '../src/types';
+import { api } from './api';
+import { HOUR_MS, T0, makeTrade } from './helpers';
+
+describe('GET /agents/:agent_id/trades', () => {
+  let agentId: string;
+  let apiKey: string;
+  let trades: TradeRecord[];
+
+  beforeAll(async () => {
+    const agent = await metricsStore.registerAgent('history-agent', 'test-key');
+    agentId = agent.agent_id;
+    apiKey = agent.api_key!;
+
+    // Every fourth trade is ETH; trades 6 and 7 share a timestamp
+    trades = Array.from({ length: 12 }, (_, i) => makeTrade(agentId, i, {
+      token_in: i % 4 === 0 ? 'ETH' : 'SOL',
+      timestamp: T0 + (i === 7 ? 6 : i) * HOUR_MS
+    }));
+    for (const trade of trades) {
+      await metricsStore.logTrade(trade);
+    }
+  });
+
+  async function fetchTrades(query: string) {
+    return api('GET', `/agents/${agentId}/trades?${query}`, { headers: { 'X-API-Key': apiKey } });
+  }
+
+  // Every page in turn until there is no next cursor
+  async function fetchAll(query: string): Promise<TradeRecord[]> {
+    const all: TradeRecord[] = [];
+    let cursor: string | null = null;
+    do {
+      const response = await fetchTrades(`${query}${cursor ? `&cursor=${cursor}` : ''}`);
+      expect(response.status).toBe(200);
+      all.push(...response.body.data);
+      cursor = response.body.next_cursor;
+    } while (cursor);
+    return all;
+  }
+
+  function newestFirst(list: TradeRecord[]): string[] {
+    return [...list]
+      .sort((a, b) => b.timestamp - a.timestamp || b.trade_id.localeCompare(a.trade_id))
+      .map((trade) => trade.trade_id);
+  }
+
+  it('pages newest first without repeating or skipping trades', async () => {
+    const first = await fetchTrades('limit=5');
+    expect(first.body.data).toHaveLength(5);
+    expect(first.body.next_cursor).toEqual(expect.any(String));
+
+    const all = await fetchAll('limit=5');
+    expect(all.map((trade) => trade.trade_id)).toEqual(newestFirst(trades));
+  });
+
+  it('filters by token, outcome and time range', async () => {
+    const eth = await fetchAll('limit=2&token_in=ETH');
+    expect(eth.map((trade) => trade.trade_id)).toEqual(newestFirst(trades.filter((trade) => trade.token_in === 'ETH')));
+
+    const losses = await fetchAll('limit=3&outcome=loss');
+    expect(losses.map((trade) => trade.trade_id)).toEqual(newestFirst(trades.filter((trade) => trade.pnl_usd <= 0)));
+
+    const wins = await fetchAll('limit=50&outcome=win');
+    expect(wins).toHaveLength(trades.filter((trade) => trade.pnl_usd > 0).length);
+
+    const from = T0 + 3 * HOUR_MS;
+    const to = T0 + 6 * HOUR_MS;
+    const range = await fetchAll(`limit=50&from=${from}&to=${to}`);
+    expect(range.map((trade) => trade.trade_id))
+      .toEqual(newestFirst(trades.filter((trade) => trade.timestamp >= from && trade.timestamp <= to)));
+  });
+
+  it('is only readable by the agent owner', async () => {
+    const anonymous = await api('GET', `/agents/${agentId}/trades`);
+    const forged = await api('GET', `/agents/${agentId}/trades`, { headers: { 'X-API-Key': 'atk_wrong' } });
+
+    expect(anonymous.status).toBe(403);
+    expect(forged.status).toBe(403);
+  });
+
+  it('rejects malformed cursors and limits', async () => {
+    expect((await fetchTrades('cursor=not-a-cursor')).status).toBe(400);
+    expect((await fetchTrades('limit=0')).status).toBe(400);
+  });
+});
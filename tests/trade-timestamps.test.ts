@@ -0,0 +1,81 @@
+import { metricsStore } from '../src/services/metrics-store';
+import { PerformanceMetrics } from '../src/types';
+import { api } from './api';
+import { DAY_MS, HOUR_MS, makeTrade } from './helpers';
+
+// Fields that depend on when trades arrived, not on the trades
+function tradeDerived(metrics: PerformanceMetrics) {
+  const { last_updated, ...rest } = metrics;
+  return rest;
+}
+
+describe('executed_at', () => {
+  afterEach(() => {
+    delete process.env.TRADE_MAX_BACKFILL_DAYS;
+  });
+
+  it('records the client-supplied execution time', async () => {
+    const agent = await metricsStore.registerAgent('backfill-agent', 'test-key');
+    const executedAt = Date.now() - 30 * DAY_MS;
+
+    const response = await api('POST', '/trades', {
+      body: { agent_id: agent.agent_id, api_key: agent.api_key, pnl_usd: 5, amount_in: 100, executed_at: executedAt }
+    });
+
+    expect(response.status).toBe(200);
+    expect(metricsStore.getTrades(agent.agent_id)[0].timestamp).toBe(executedAt);
+  });
+
+  it('rejects times outside the configured window', async () => {
+    const agent = await metricsStore.registerAgent('backfill-agent', 'test-key');
+    const body = { agent_id: agent.agent_id, api_key: agent.api_key, pnl_usd: 5 };
+
+    const future = await api('POST', '/trades', { body: { ...body, executed_at: Date.now() + HOUR_MS } });
+    const ancient = await api('POST', '/trades', { body: { ...body, executed_at: Date.now() - 400 * DAY_MS } });
+    process.env.TRADE_MAX_BACKFILL_DAYS = '7';
+    const pastLimit = await api('POST', '/trades', { body: { ...body, executed_at: Date.now() - 8 * DAY_MS } });
+
+    expect(future.status).toBe(400);
+    expect(ancient.status).toBe(400);
+    expect(pastLimit.status).toBe(400);
+    expect(pastLimit.body.error).toContain('7 days');
+    expect(metricsStore.getTrades(agent.agent_id)).toHaveLength(0);
+  });
+
+  it('gives each batch item its own time', async () => {
+    const agent = await metricsStore.registerAgent('backfill-agent', 'test-key');
+    const start = Date.now() - 3 * DAY_MS;
+
+    const response = await api('POST', '/trades/batch', {
+      body: {
+        agent_id: agent.agent_id,
+        api_key: agent.api_key,
+        trades: [2, 0, 1].map((day) => ({ pnl_usd: day + 1, amount_in: 100, executed_at: start + day * DAY_MS }))
+      }
+    });
+
+    expect(response.status).toBe(200);
+    expect(metricsStore.getTrades(agent.agent_id).map((trade) => trade.timestamp))
+      .toEqual([start, start + DAY_MS, start + 2 * DAY_MS]);
+  });
+
+  it('computes the same metrics for out-of-order trades as for in-order ones', async () => {
+    const inOrder = await metricsStore.registerAgent('backfill-agent', 'test-key');
+    const backfilled = await metricsStore.registerAgent('backfill-agent', 'test-key');
+    const trades = Array.from({ length: 12 }, (_, i) => makeTrade('', i, { timestamp: Date.now() - (12 - i) * DAY_MS }));
+
+    for (const trade of trades) {
+      await metricsStore.logTrade({ ...trade, agent_id: inOrder.agent_id });
+    }
+    // Live trades first, then the older half imported afterwards
+    for (const trade of [...trades.slice(6), ...trades.slice(0, 6)]) {
+      await metricsStore.logTrade({ ...trade, agent_id: backfilled.agent_id });
+    }
+
+    const expected = tradeDerived(metricsStore.getMetrics(inOrder.agent_id)!);
+    expect(tradeDerived(metricsStore.getMetrics(backfilled.agent_id)!)).toEqual(expected);
+    expect(expected.max_drawdown_bps).toBeGreaterThan(0);
+    expect(metricsStore.getTrades(backfilled.agent_id).map((trade) => trade.timestamp))
+      .toEqual(trades.map((trade) => trade.timestamp));
+  });
+});
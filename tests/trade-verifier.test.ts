@@ -0,0 +1,111 @@
+import { metricsStore } from '../src/services/metrics-store';
+import { FixtureTransactionSource, OnchainTransaction, TradeVerifier, tradeVerifier } from '../src/services/trade-verifier';
+import { api } from './api';
+import { HOUR_MS } from './helpers';
+
+const WALLET = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+const SIGNATURE = '5'.repeat(88);
+
+const swap = {
+  signature: SIGNATURE,
+  signers: [WALLET],
+  succeeded: true,
+  block_time: Date.now(),
+  balance_changes: { SOL: -2, USDC: 301.5 }
+};
+
+const claimed = {
+  tx_signature: SIGNATURE,
+  token_in: 'SOL',
+  token_out: 'USDC',
+  amount_in: 2,
+  amount_out: 300,
+  executed_at: swap.block_time
+};
+
+describe('TradeVerifier', () => {
+  const verifier = new TradeVerifier(new FixtureTransactionSource([swap]));
+
+  it('verifies a trade matching its transaction', async () => {
+    expect(await verifier.verify(claimed, WALLET)).toEqual({ verified: true });
+  });
+
+  it('rejects mismatched amounts or tokens, other wallets and unknown transactions', async () => {
+    const inflated = await verifier.verify({ ...claimed, amount_out: 400 }, WALLET);
+    const swapped = await verifier.verify({ ...claimed, token_in: 'USDC', token_out: 'SOL' }, WALLET);
+    const otherWallet = await verifier.verify(claimed, 'So1ana1111111111111111111111111111111111111');
+    const unknown = await verifier.verify({ ...claimed, tx_signature: '6'.repeat(88) }, WALLET);
+    const noKey = await verifier.verify(claimed, undefined);
+    const otherTime = await verifier.verify({ ...claimed, executed_at: swap.block_time - HOUR_MS }, WALLET);
+
+    for (const result of [inflated, swapped, otherWallet, unknown, noKey, otherTime]) {
+      expect(result.verified).toBe(false);
+      expect(result.reason).toBeDefined();
+    }
+  });
+
+  it('leaves trades unverified when no source is configured', async () => {
+    expect((await new TradeVerifier(null).verify(claimed, WALLET)).verified).toBe(false);
+  });
+
+  it('verifies a batch a few lookups at a time, in order', async () => {
+    let inFlight = 0;
+    let mostInFlight = 0;
+    const fixtures = new FixtureTransactionSource([swap]);
+    const verifier = new TradeVerifier({
+      async getTransaction(signature: string, wallet: string): Promise<OnchainTransaction | null> {
+        mostInFlight = Math.max(mostInFlight, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+        return fixtures.getTransaction(signature, wallet);
+      }
+    });
+    const claims = Array.from({ length: 40 }, (_, i) =>
+      i % 10 === 0 ? null : { ...claimed, amount_out: i % 2 ? 300 : 900 });
+
+    const results = await verifier.verifyAll(claims, WALLET);
+
+    expect(mostInFlight).toBeLessThanOrEqual(8);
+    expect(results.map((result) => result?.verified ?? null))
+      .toEqual(claims.map((claim) => claim && claim.amount_out === 300));
+  });
+});
+
+describe('POST /trades with tx_signature', () => {
+  beforeEach(() => {
+    tradeVerifier.setSource(new FixtureTransactionSource([swap]));
+  });
+
+  afterEach(() => {
+    tradeVerifier.setSource(null);
+  });
+
+  it('stores the verified flag and counts a transaction once', async () => {
+    const agent = await metricsStore.registerAgent('onchain-agent', WALLET);
+    const body = { agent_id: agent.agent_id, api_key: agent.api_key, ...claimed, pnl_usd: 12 };
+
+    const first = await api('POST', '/trades', { body });
+    const reused = await api('POST', '/trades', { body });
+    const inflated = await api('POST', '/trades', { body: { ...body, amount_out: 900 } });
+
+    expect(first.body.data.verified_onchain).toBe(true);
+    expect(reused.body.data.verified_onchain).toBe(false);
+    expect(inflated.body.data.verified_onchain).toBe(false);
+    expect(metricsStore.getTrades(agent.agent_id).map((trade) => trade.verified_onchain)).toEqual([true, false, false]);
+    expect(metricsStore.getMetrics(agent.agent_id)).toMatchObject({ total_trades: 3, verified_trades: 1, verified_pnl_usd: 12 });
+  });
+
+  it('keeps the verified counts through a recompute', async () => {
+    // Signatures are claimed store-wide, so this needs its own transaction
+    const signature = '7'.repeat(88);
+    tradeVerifier.setSource(new FixtureTransactionSource([{ ...swap, signature }]));
+    const agent = await metricsStore.registerAgent('onchain-agent', WALLET);
+    await api('POST', '/trades', {
+      body: { agent_id: agent.agent_id, api_key: agent.api_key, ...claimed, tx_signature: signature, pnl_usd: 12 }
+    });
+
+    const recomputed = await metricsStore.recomputeMetrics(agent.agent_id);
+
+    expect(recomputed.verified_trades).toBe(1);
+  });
+});
@@ -0,0 +1,107 @@
+import { computeUptime, computeUptimeStats, getLiveness, recordHeartbeat, UptimeState } from '../src/services/uptime';
+import { metricsStore } from '../src/services/metrics-store';
+import { meetsRule, parseBadgeRules } from '../src/services/badges';
+import { reputationService } from '../src/services/reputation';
+import { api } from './api';
+import { DAY_MS, T0 } from './helpers';
+
+const MINUTE_MS = 60 * 1000;
+
+// Heartbeats every interval from `from` to `to` inclusive
+function beat(state: UptimeState | undefined, from: number, to: number, intervalMs: number): UptimeState {
+  let next = state;
+  for (let at = from; at <= to; at += intervalMs) {
+    next = recordHeartbeat(next, at, intervalMs);
+  }
+  return next!;
+}
+
+describe('uptime from heartbeats', () => {
+  it('counts on-time heartbeats as fully up', () => {
+    const state = beat(undefined, T0, T0 + 60 * MINUTE_MS, MINUTE_MS);
+
+    expect(computeUptime(state, T0 + 60 * MINUTE_MS, DAY_MS)).toBe(100);
+    expect(state.covered).toHaveLength(1);
+  });
+
+  it('counts a gap beyond the grace period as downtime', () => {
+    // Up for 10 minutes plus 1.5 intervals of grace, then silent until minute 20
+    const state = beat(undefined, T0, T0 + 10 * MINUTE_MS, MINUTE_MS);
+    const now = T0 + 20 * MINUTE_MS;
+
+    expect(computeUptime(state, now, DAY_MS)).toBe(57.5);
+    expect(getLiveness(state, now)).toBe('offline');
+    expect(getLiveness(state, T0 + 11 * MINUTE_MS)).toBe('online');
+    expect(getLiveness(undefined, now)).toBe('unknown');
+  });
+
+  it('gives each rolling window its own percentage', () => {
+    // Up for the last day only, after a week of silence
+    let state = recordHeartbeat(undefined, T0, MINUTE_MS);
+    state = beat(state, T0 + 7 * DAY_MS, T0 + 8 * DAY_MS, 10 * MINUTE_MS);
+    const now = T0 + 8 * DAY_MS;
+
+    const stats = computeUptimeStats(state, now);
+    expect(stats.uptime_24h).toBe(100);
+    expect(stats.uptime_7d).toBeCloseTo(100 / 7, 1);
+    // Clipped to the 8 days since tracking started
+    expect(stats.uptime_30d).toBeCloseTo(((DAY_MS + 1.5 * MINUTE_MS) / (8 * DAY_MS)) * 100, 1);
+  });
+
+  it('drops coverage older than the longest window', () => {
+    let state = recordHeartbeat(undefined, T0, MINUTE_MS);
+    state = recordHeartbeat(state, T0 + 40 * DAY_MS, MINUTE_MS);
+
+    expect(state.covered).toEqual([[T0 + 40 * DAY_MS, T0 + 40 * DAY_MS + 1.5 * MINUTE_MS]]);
+  });
+});
+
+describe('POST /agents/:agent_id/heartbeat', () => {
+  it('records a heartbeat for the agent owner', async () => {
+    const agent = await metricsStore.registerAgent('heartbeat-agent', 'test-key');
+
+    const response = await api('POST', `/agents/${agent.agent_id}/heartbeat`, {
+      body: { api_key: agent.api_key, expected_interval_ms: 30000 }
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ liveness: 'online', uptime_24h: 100, expected_interval_ms: 30000 });
+    expect(metricsStore.getMetrics(agent.agent_id)!.last_heartbeat_at).not.toBeNull();
+  });
+
+  it('rejects other keys and bad intervals', async () => {
+    const agent = await metricsStore.registerAgent('heartbeat-agent', 'test-key');
+
+    const forged = await api('POST', `/agents/${agent.agent_id}/heartbeat`, { body: { api_key: 'atk_wrong' } });
+    const invalid = await api('POST', `/agents/${agent.agent_id}/heartbeat`, {
+      body: { api_key: agent.api_key, expected_interval_ms: 10 }
+    });
+
+    expect(forged.status).toBe(403);
+    expect(invalid.status).toBe(400);
+    expect(metricsStore.getLiveness(agent.agent_id)).toBe('unknown');
+  });
+});
+
+describe('uptime before the first heartbeat', () => {
+  it('is unknown rather than 100%, and earns nothing', async () => {
+    const agent = await metricsStore.registerAgent('silent-agent', 'test-key');
+    const metrics = metricsStore.getMetrics(agent.agent_id)!;
+    const [reliable] = parseBadgeRules([{
+      id: 'reliable',
+      name: 'Reliable',
+      description: 'Uptime of 99% or more',
+      metric: 'uptime_percentage',
+      operator: '>=',
+      threshold: 99
+    }]);
+
+    expect(metrics).toMatchObject({ uptime_percentage: null, uptime_24h: null, uptime_7d: null });
+    expect(meetsRule(reliable, metrics)).toBe(false);
+    await expect(reputationService.generateProof({
+      agent_id: agent.agent_id,
+      proof_type: 'uptime',
+      public_inputs: { min_uptime: 0 }
+    })).rejects.toThrow('has not sent a heartbeat yet');
+  });
+});